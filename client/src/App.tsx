@@ -8,7 +8,13 @@
 
 import { useEffect, Suspense } from "react";
 import { KeyboardControls } from "@react-three/drei";
+import { Link, Route, Switch } from "wouter";
 import { useLuxSole } from "@/lib/stores/useLuxSole";
+import { useCartSync } from "@/hooks/use-cart-sync";
+import { useOpenDesignLink } from "@/hooks/use-design-link";
+import { useRouteSync } from "@/hooks/use-route-sync";
+import { ROUTES } from "@/lib/routes";
+import { Toaster } from "@/components/ui/sonner";
 import "@fontsource/inter";
 
 // Components
@@ -22,6 +28,11 @@ import Cart from "@/components/luxsole/Cart";
 import ScrollStory from "@/components/luxsole/ScrollStory";
 import ProductDetail from "@/components/luxsole/ProductDetail";
 import CustomizationStudio from "@/components/luxsole/CustomizationStudio";
+import AuthDialog from "@/components/luxsole/AuthDialog";
+import Checkout from "@/components/luxsole/Checkout";
+import Orders from "@/components/luxsole/Orders";
+import DesignMeta from "@/components/luxsole/DesignMeta";
+import NotFound from "@/pages/not-found";
 
 // Keyboard control mapping for 3D navigation
 enum Controls {
@@ -70,6 +81,15 @@ function WebGLFallback() {
 function App() {
   const { setLoading, setLoadProgress, isDemoMode, setDemoMode } = useLuxSole();
   
+  // Keep the cart in step with the signed-in account
+  useCartSync();
+  
+  // Shared design links open in the Customizer
+  const linkedDesign = useOpenDesignLink();
+  
+  // The page to show; the cart and checkout open over it
+  const page = useRouteSync();
+  
   // Check WebGL support
   useEffect(() => {
     const canvas = document.createElement('canvas');
@@ -140,6 +160,9 @@ function App() {
   
   return (
     <KeyboardControls map={keyMap}>
+      {/* Link previews for shared designs */}
+      {linkedDesign && <DesignMeta design={linkedDesign} />}
+      
       {/* Loading Screen */}
       <Loader />
       
@@ -150,19 +173,41 @@ function App() {
         
         {/* Main Content */}
         <main>
-          <Suspense fallback={<WebGLFallback />}>
-            {/* Hero Section */}
-            <Hero />
+          <Switch location={page}>
+            <Route path={ROUTES.product}>
+              {(params) => <ProductDetail shoeId={params.id} className="pt-16 md:pt-20" />}
+            </Route>
             
-            {/* Gallery Section */}
-            <Gallery />
+            <Route path={ROUTES.studioDesign}>
+              {(params) => (
+                <CustomizationStudio
+                  designId={params.designId ? Number(params.designId) : undefined}
+                  className="pt-16 md:pt-20"
+                />
+              )}
+            </Route>
             
-            {/* Story Section */}
-            <Story />
+            {/* Home, with a path for each of its sections */}
+            <Route path={/^\/(collection|story)?$/}>
+              <Suspense fallback={<WebGLFallback />}>
+                {/* Hero Section */}
+                <Hero />
+                
+                {/* Gallery Section */}
+                <Gallery />
+                
+                {/* Story Section */}
+                <Story />
+                
+                {/* Enhanced Scroll-Driven Storytelling */}
+                <ScrollStory />
+              </Suspense>
+            </Route>
             
-            {/* Enhanced Scroll-Driven Storytelling */}
-            <ScrollStory />
-          </Suspense>
+            <Route>
+              <NotFound />
+            </Route>
+          </Switch>
           
           {/* Footer */}
           <footer className="bg-luxsole-forest border-t border-luxsole-emerald/20 py-12 px-4 sm:px-6 lg:px-8">
@@ -186,9 +231,10 @@ function App() {
                 <div>
                   <h4 className="text-luxsole-emerald font-medium mb-4">Quick Links</h4>
                   <ul className="space-y-2 text-sm text-gray-400">
-                    <li><a href="#hero" className="hover:text-luxsole-gold transition-colors">Home</a></li>
-                    <li><a href="#gallery" className="hover:text-luxsole-gold transition-colors">Collection</a></li>
-                    <li><a href="#story" className="hover:text-luxsole-gold transition-colors">Story</a></li>
+                    <li><Link href={ROUTES.home} className="hover:text-luxsole-gold transition-colors">Home</Link></li>
+                    <li><Link href={ROUTES.collection} className="hover:text-luxsole-gold transition-colors">Collection</Link></li>
+                    <li><Link href={ROUTES.story} className="hover:text-luxsole-gold transition-colors">Story</Link></li>
+                    <li><Link href={ROUTES.studio} className="hover:text-luxsole-gold transition-colors">Studio</Link></li>
                   </ul>
                 </div>
                 
@@ -221,6 +267,10 @@ function App() {
         {/* Modal Overlays */}
         <Customizer />
         <Cart />
+        <Checkout />
+        <Orders />
+        <AuthDialog />
+        <Toaster theme="dark" position="bottom-center" />
       </div>
     </KeyboardControls>
   );
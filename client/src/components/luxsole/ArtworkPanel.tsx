@@ -0,0 +1,225 @@
+/**
+ * Artwork Panel
+ *
+ * Uploads a logo or image and places it on the shoe: which zone, how big,
+ * how far turned and where within the zone. Every image is reviewed by our
+ * team before a pair carrying it goes into production.
+ */
+
+import { useRef } from "react";
+import { Trash2, Upload } from "lucide-react";
+import { useUploads } from "@/hooks/use-uploads";
+import { getErrorMessage } from "@/lib/queryClient";
+import {
+  ARTWORK_SCALE_RANGE,
+  artworkFileUrl,
+  artworkUploadTypes,
+  artworkZoneLabels,
+  artworkZones,
+  MAX_ARTWORK_BYTES,
+  MAX_ARTWORK_OFFSET,
+  MAX_ARTWORK_ROTATION,
+  uploadStatusLabels,
+  type ArtworkPlacement,
+} from "@shared/artwork";
+
+const SLIDER_LABELS = {
+  scale: 'Artwork size',
+  rotation: 'Artwork rotation',
+  offsetX: 'Artwork position',
+  offsetY: 'Artwork position',
+} as const;
+
+type SliderField = keyof typeof SLIDER_LABELS;
+
+export default function ArtworkPanel({
+  artwork,
+  onChange,
+}: {
+  artwork: ArtworkPlacement | null;
+  onChange: (label: string, artwork: ArtworkPlacement | null, options?: { coalesce?: string }) => void;
+}) {
+  const { uploads, canUpload, uploadMutation } = useUploads();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = artwork ? uploads.find((upload) => upload.id === artwork.uploadId) : undefined;
+
+  const place = (uploadId: number) =>
+    onChange('Add artwork', {
+      uploadId,
+      zone: artwork?.zone ?? 'side',
+      scale: 1,
+      rotation: 0,
+      offsetX: 0,
+      offsetY: 0,
+    });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    uploadMutation.mutate(file, { onSuccess: (upload) => place(upload.id) });
+  };
+
+  const slide = (field: SliderField, value: number) => {
+    if (!artwork) return;
+    // Both position sliders move the same thing, so they share a step
+    const coalesce = field === 'offsetX' || field === 'offsetY' ? 'artworkOffset' : `artwork-${field}`;
+    onChange(SLIDER_LABELS[field], { ...artwork, [field]: value }, { coalesce });
+  };
+
+  if (!canUpload) {
+    return (
+      <div className="space-y-3">
+        <label className="text-sm font-semibold text-luxsole-emerald">Custom Artwork</label>
+        <p className="text-xs text-gray-400">Sign in to upload a logo or artwork for your pair.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-semibold text-luxsole-emerald">Custom Artwork</label>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={artworkUploadTypes.join(',')}
+        className="hidden"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={uploadMutation.isPending}
+        className="w-full py-2 px-4 flex items-center justify-center gap-2 bg-luxsole-emerald/20 text-luxsole-emerald rounded-lg hover:bg-luxsole-emerald/30 transition-colors disabled:opacity-50"
+      >
+        <Upload className="w-4 h-4" />
+        {uploadMutation.isPending ? 'Uploading…' : 'Upload Image'}
+      </button>
+      <p className="text-xs text-gray-400">
+        PNG or JPEG, up to {MAX_ARTWORK_BYTES / (1024 * 1024)} MB. Transparent PNGs work best.
+      </p>
+      {uploadMutation.error && (
+        <p className="text-sm text-red-400" role="alert">
+          {getErrorMessage(uploadMutation.error)}
+        </p>
+      )}
+
+      {uploads.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {uploads.map((upload) => (
+            <button
+              key={upload.id}
+              onClick={() => place(upload.id)}
+              disabled={upload.status === 'rejected'}
+              className={`aspect-square rounded border-2 p-1 bg-white/5 transition-all duration-200 disabled:opacity-30 disabled:cursor-not-allowed ${
+                artwork?.uploadId === upload.id
+                  ? 'border-luxsole-emerald'
+                  : 'border-gray-600 hover:border-luxsole-emerald/50'
+              }`}
+              title={uploadStatusLabels[upload.status]}
+            >
+              <img src={artworkFileUrl(upload.id)} alt="" className="w-full h-full object-contain" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {artwork && (
+        <div className="space-y-3 pt-2">
+          {selected?.status === 'pending' && (
+            <p className="text-xs text-luxsole-gold">
+              Awaiting review. We check every image before your pair goes into production.
+            </p>
+          )}
+          {selected?.status === 'rejected' && (
+            <p className="text-xs text-red-400">
+              This image can't be printed{selected.reviewNote ? `: ${selected.reviewNote}` : ''}. Choose another.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {artworkZones.map((zone) => (
+              <button
+                key={zone}
+                onClick={() => onChange(`Artwork on ${artworkZoneLabels[zone]}`, { ...artwork, zone })}
+                className={`p-2 rounded border text-xs transition-all duration-200 ${
+                  artwork.zone === zone
+                    ? 'border-luxsole-emerald bg-luxsole-emerald/20 text-luxsole-emerald'
+                    : 'border-gray-600 text-gray-300 hover:border-luxsole-emerald/50'
+                }`}
+              >
+                {artworkZoneLabels[zone]}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>Size</span>
+              <span>{artwork.scale.toFixed(1)}×</span>
+            </label>
+            <input
+              type="range"
+              min={ARTWORK_SCALE_RANGE.min}
+              max={ARTWORK_SCALE_RANGE.max}
+              step={0.1}
+              value={artwork.scale}
+              onChange={(e) => slide('scale', Number(e.target.value))}
+              className="w-full accent-luxsole-emerald"
+            />
+          </div>
+          <div>
+            <label className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>Rotation</span>
+              <span>{artwork.rotation}°</span>
+            </label>
+            <input
+              type="range"
+              min={-MAX_ARTWORK_ROTATION}
+              max={MAX_ARTWORK_ROTATION}
+              step={5}
+              value={artwork.rotation}
+              onChange={(e) => slide('rotation', Number(e.target.value))}
+              className="w-full accent-luxsole-emerald"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-gray-400 mb-1 block">Left / Right</label>
+              <input
+                type="range"
+                min={-MAX_ARTWORK_OFFSET}
+                max={MAX_ARTWORK_OFFSET}
+                step={0.05}
+                value={artwork.offsetX}
+                onChange={(e) => slide('offsetX', Number(e.target.value))}
+                className="w-full accent-luxsole-emerald"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-400 mb-1 block">Down / Up</label>
+              <input
+                type="range"
+                min={-MAX_ARTWORK_OFFSET}
+                max={MAX_ARTWORK_OFFSET}
+                step={0.05}
+                value={artwork.offsetY}
+                onChange={(e) => slide('offsetY', Number(e.target.value))}
+                className="w-full accent-luxsole-emerald"
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={() => onChange('Remove artwork', null)}
+            className="flex items-center gap-2 text-xs text-gray-400 hover:text-red-400 transition-colors"
+          >
+            <Trash2 className="w-3 h-3" />
+            Remove artwork
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
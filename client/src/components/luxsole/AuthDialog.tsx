@@ -0,0 +1,137 @@
+/**
+ * Sign In / Create Account Dialog
+ * 
+ * Username and password form backed by the /api/auth endpoints
+ */
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { credentialsSchema, type Credentials } from "@shared/schema";
+import { useLuxSole } from "@/lib/stores/useLuxSole";
+import { useAuth } from "@/hooks/use-auth";
+import { getErrorMessage } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+type AuthMode = "login" | "register";
+
+export default function AuthDialog() {
+  const { isAuthOpen, setAuthOpen } = useLuxSole();
+  const { loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<AuthMode>("login");
+  
+  const form = useForm<Credentials>({
+    resolver: zodResolver(credentialsSchema),
+    defaultValues: { username: "", password: "" },
+  });
+  
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+  
+  const handleSubmit = (credentials: Credentials) => {
+    mutation.mutate(credentials, {
+      onSuccess: () => {
+        form.reset();
+        setAuthOpen(false);
+      },
+    });
+  };
+  
+  const switchMode = () => {
+    setMode(mode === "login" ? "register" : "login");
+    loginMutation.reset();
+    registerMutation.reset();
+  };
+  
+  return (
+    <Dialog open={isAuthOpen} onOpenChange={setAuthOpen}>
+      <DialogContent className="bg-luxsole-forest border-luxsole-emerald/30 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-luxsole-gradient">
+            {mode === "login" ? "Welcome Back" : "Create Account"}
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {mode === "login"
+              ? "Sign in to keep your collection and designs across devices."
+              : "Join LuxSole to save your designs and follow your orders."}
+          </DialogDescription>
+        </DialogHeader>
+        
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-luxsole-emerald">Username</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="username" className="border-gray-600" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-luxsole-emerald">Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      autoComplete={mode === "login" ? "current-password" : "new-password"}
+                      className="border-gray-600"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            {mutation.error && (
+              <p className="text-sm text-red-400" role="alert">
+                {getErrorMessage(mutation.error)}
+              </p>
+            )}
+            
+            <button
+              type="submit"
+              disabled={mutation.isPending}
+              className="w-full py-3 bg-luxsole-gold hover:bg-luxsole-emerald text-luxsole-forest font-bold rounded-lg transition-all duration-300 disabled:opacity-60"
+            >
+              {mutation.isPending
+                ? "Please wait…"
+                : mode === "login" ? "Sign In" : "Create Account"}
+            </button>
+          </form>
+        </Form>
+        
+        <button
+          onClick={switchMode}
+          className="text-sm text-gray-400 hover:text-luxsole-gold transition-colors"
+        >
+          {mode === "login"
+            ? "New to LuxSole? Create an account"
+            : "Already have an account? Sign in"}
+        </button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,16 +4,113 @@
  * Sliding cart panel with polished animations
  */
 
-import { useEffect, useRef } from "react";
-import { useLuxSole } from "@/lib/stores/useLuxSole";
-import { X, Plus, Minus, Trash2, ShoppingBag } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLuxSole, needsSize, toCartLineInput, toPricedLine } from "@/lib/stores/useLuxSole";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useShippingRates, shippingCountries } from "@/hooks/use-shipping";
+import { formatSize } from "@shared/sizing";
+import { partColorEntries, type PartColors } from "@shared/parts";
+import { evaluatePromotion, priceCart, type PromoQuote } from "@shared/pricing";
+import { estimateOrder, findRegion, shippingOptions, shownPrice } from "@shared/shipping";
+import OrderSummary from "./OrderSummary";
+import { X, Plus, Minus, Trash2, ShoppingBag, Pencil, Tag } from "lucide-react";
 import gsap from "gsap";
 
+// "+2 zones" for lines with individually recolored zones
+function zonesNote(partColors?: PartColors | null): string | null {
+  const count = partColorEntries(partColors).length;
+  return count > 0 ? `+${count} ${count === 1 ? "zone" : "zones"}` : null;
+}
+
+/**
+ * Promo code entry. The server checks the code against the cart; once
+ * applied, the discount is recomputed locally as the cart changes.
+ */
+function PromoCodeForm() {
+  const { cart, isCartSynced, setPromotion } = useLuxSole();
+  const [code, setCode] = useState("");
+  
+  const applyPromo = useMutation({
+    mutationFn: async (promoCode: string) => {
+      const res = await apiRequest("POST", "/api/cart/apply-promo", {
+        code: promoCode,
+        // Guests' carts only exist in the browser
+        items: isCartSynced ? undefined : cart.map((item) => toCartLineInput(item, item.quantity)),
+      });
+      return (await res.json()) as PromoQuote;
+    },
+    onSuccess: (quote) => {
+      setPromotion(quote.promotion);
+      setCode("");
+    },
+  });
+  
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (code.trim()) applyPromo.mutate(code.trim());
+      }}
+    >
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="Promo code"
+          aria-label="Promo code"
+          className="flex-1 min-w-0 px-3 py-2 bg-luxsole-neutral border border-gray-600 rounded-lg text-white text-sm placeholder-gray-500 focus:border-luxsole-emerald focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!code.trim() || applyPromo.isPending}
+          className="px-4 py-2 border border-luxsole-emerald text-luxsole-emerald text-sm font-medium rounded-lg hover:bg-luxsole-emerald/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {applyPromo.isPending ? "Applying…" : "Apply"}
+        </button>
+      </div>
+      {applyPromo.error && (
+        <p className="text-sm text-red-400" role="alert">
+          {getErrorMessage(applyPromo.error)}
+        </p>
+      )}
+    </form>
+  );
+}
+
 export default function Cart() {
-  const { cart, isCartOpen, setCartOpen, updateQuantity, removeFromCart } = useLuxSole();
+  const {
+    cart,
+    cartError,
+    isCartOpen,
+    setCartOpen,
+    updateQuantity,
+    removeFromCart,
+    editCartLine,
+    setCheckoutOpen,
+    promotion,
+    setPromotion,
+    shippingCountry,
+    setShippingCountry,
+  } = useLuxSole();
   const panelRef = useRef<HTMLDivElement>(null);
+  const rates = useShippingRates();
+  
+  const lines = cart.map(toPricedLine);
+  const totals = priceCart(lines, promotion);
+  const promotionError = promotion ? evaluatePromotion(promotion, lines).error : undefined;
   
-  const total = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  // Estimated with the first method the region offers until checkout picks one
+  const country = shippingCountry ?? rates?.defaultCountry;
+  const region = rates && country ? findRegion(rates, country) : undefined;
+  const [shipping] = rates && region ? shippingOptions(rates, region, lines, totals.total) : [];
+  const estimate = rates && country && shipping
+    ? estimateOrder(rates, { country, method: shipping.method, lines, promotion }).estimate
+    : undefined;
+  const countries = rates ? shippingCountries(rates) : [];
+  const hasUnsizedLines = cart.some(needsSize);
   
   useEffect(() => {
     if (panelRef.current) {
@@ -33,10 +130,10 @@ export default function Cart() {
     }
   }, [isCartOpen]);
   
-  const handleQuantityChange = (id: string, delta: number) => {
-    const item = cart.find((i) => i.id === id);
+  const handleQuantityChange = (lineKey: string, delta: number) => {
+    const item = cart.find((i) => i.lineKey === lineKey);
     if (item) {
-      updateQuantity(id, item.quantity + delta);
+      updateQuantity(lineKey, item.quantity + delta);
     }
   };
   
@@ -79,6 +176,12 @@ export default function Cart() {
         
         {/* Cart Items */}
         <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {cartError && (
+            <p className="text-sm text-red-400 bg-red-500/10 rounded-lg px-4 py-3" role="alert">
+              {cartError}
+            </p>
+          )}
+          
           {cart.length === 0 ? (
             <div className="text-center py-12">
               <ShoppingBag className="w-16 h-16 text-gray-600 mx-auto mb-4" />
@@ -93,7 +196,7 @@ export default function Cart() {
           ) : (
             cart.map((item, index) => (
               <div
-                key={item.id}
+                key={item.lineKey}
                 className="glass-effect rounded-xl p-4 space-y-3 animate-slide-in-left"
                 style={{ animationDelay: `${index * 0.1}s` }}
               >
@@ -110,21 +213,44 @@ export default function Cart() {
                         className="inline-block w-4 h-4 rounded-full mr-2 align-middle border border-white/20"
                         style={{ backgroundColor: item.accentColor }}
                       />
+                      {zonesNote(item.partColors) && (
+                        <span className="normal-case mr-2">{zonesNote(item.partColors)} •</span>
+                      )}
+                      {needsSize(item) ? (
+                        <button
+                          onClick={() => editCartLine(item.lineKey)}
+                          className="normal-case text-amber-400 hover:text-luxsole-gold underline"
+                        >
+                          Choose a size
+                        </button>
+                      ) : (
+                        <span className="normal-case">• {formatSize(item.size, item.width)}</span>
+                      )}
                     </p>
                   </div>
-                  <button
-                    onClick={() => removeFromCart(item.id)}
-                    className="p-2 hover:bg-red-500/20 rounded-lg transition-colors group"
-                    aria-label={`Remove ${item.name} from cart`}
-                  >
-                    <Trash2 className="w-4 h-4 text-gray-400 group-hover:text-red-400" />
-                  </button>
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => editCartLine(item.lineKey)}
+                      className="p-2 hover:bg-luxsole-emerald/20 rounded-lg transition-colors group"
+                      aria-label={`Edit design of ${item.name}`}
+                      title="Edit design"
+                    >
+                      <Pencil className="w-4 h-4 text-gray-400 group-hover:text-luxsole-emerald" />
+                    </button>
+                    <button
+                      onClick={() => removeFromCart(item.lineKey)}
+                      className="p-2 hover:bg-red-500/20 rounded-lg transition-colors group"
+                      aria-label={`Remove ${item.name} from cart`}
+                    >
+                      <Trash2 className="w-4 h-4 text-gray-400 group-hover:text-red-400" />
+                    </button>
+                  </div>
                 </div>
                 
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-3">
                     <button
-                      onClick={() => handleQuantityChange(item.id, -1)}
+                      onClick={() => handleQuantityChange(item.lineKey, -1)}
                       className="p-1.5 bg-luxsole-neutral hover:bg-luxsole-emerald/20 rounded-lg transition-colors"
                       aria-label="Decrease quantity"
                     >
@@ -134,7 +260,7 @@ export default function Cart() {
                       {item.quantity}
                     </span>
                     <button
-                      onClick={() => handleQuantityChange(item.id, 1)}
+                      onClick={() => handleQuantityChange(item.lineKey, 1)}
                       className="p-1.5 bg-luxsole-neutral hover:bg-luxsole-emerald/20 rounded-lg transition-colors"
                       aria-label="Increase quantity"
                     >
@@ -142,7 +268,7 @@ export default function Cart() {
                     </button>
                   </div>
                   <span className="font-bold text-luxsole-gold text-lg">
-                    ${item.price * item.quantity}
+                    ${shownPrice(region, item.price * item.quantity)}
                   </span>
                 </div>
               </div>
@@ -153,15 +279,84 @@ export default function Cart() {
         {/* Footer */}
         {cart.length > 0 && (
           <div className="p-6 border-t border-luxsole-emerald/20 space-y-4">
-            <div className="flex items-center justify-between text-lg">
-              <span className="text-gray-300">Total</span>
-              <span className="font-bold text-2xl text-luxsole-gold">${total}</span>
-            </div>
-            <button className="w-full py-4 bg-luxsole-gold hover:bg-luxsole-emerald text-luxsole-forest font-bold rounded-lg transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] animate-gold-pulse">
+            {promotion ? (
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-luxsole-emerald">
+                  <Tag className="w-4 h-4" />
+                  {promotion.code}
+                </span>
+                <button
+                  onClick={() => setPromotion(null)}
+                  className="text-gray-400 hover:text-red-400 transition-colors"
+                  aria-label={`Remove promo code ${promotion.code}`}
+                >
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <PromoCodeForm />
+            )}
+            {promotionError && (
+              <p className="text-sm text-amber-400" role="alert">
+                {promotionError}
+              </p>
+            )}
+            
+            {rates && country && (
+              <label className="flex items-center justify-between gap-4 text-sm">
+                <span className="text-gray-400">Ship to</span>
+                <select
+                  value={country}
+                  onChange={(e) => setShippingCountry(e.target.value)}
+                  className="min-w-0 px-3 py-2 bg-luxsole-neutral border border-gray-600 rounded-lg text-white text-sm focus:border-luxsole-emerald focus:outline-none"
+                >
+                  {countries.map((option) => (
+                    <option key={option.code} value={option.code}>
+                      {option.name}
+                    </option>
+                  ))}
+                  {/* A country entered at checkout that has no rates of its own */}
+                  {!countries.some((option) => option.code === country) && (
+                    <option value={country}>{country}</option>
+                  )}
+                </select>
+              </label>
+            )}
+            
+            {estimate && shipping ? (
+              <OrderSummary estimate={estimate} shipping={shipping} totalLabel="Estimated total" />
+            ) : (
+              <dl className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <dt className="text-gray-400">Subtotal</dt>
+                  <dd className="text-gray-300">${totals.subtotal}</dd>
+                </div>
+                {totals.discounts.map((discount) => (
+                  <div key={discount.code} className="flex items-center justify-between text-sm">
+                    <dt className="text-luxsole-emerald">{discount.label}</dt>
+                    <dd className="text-luxsole-emerald">−${discount.amount}</dd>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between text-lg">
+                  <dt className="text-gray-300">Total</dt>
+                  <dd className="font-bold text-2xl text-luxsole-gold">${totals.total}</dd>
+                </div>
+              </dl>
+            )}
+            {hasUnsizedLines && (
+              <p className="text-sm text-amber-400" role="alert">
+                Choose a size for every pair before completing your order.
+              </p>
+            )}
+            <button
+              onClick={() => setCheckoutOpen(true)}
+              disabled={hasUnsizedLines}
+              className="w-full py-4 bg-luxsole-gold hover:bg-luxsole-emerald text-luxsole-forest font-bold rounded-lg transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] animate-gold-pulse disabled:opacity-50 disabled:animate-none disabled:hover:scale-100 disabled:cursor-not-allowed"
+            >
               Complete Order
             </button>
             <p className="text-xs text-center text-gray-500">
-              Free shipping on all orders
+              Shipping and tax are confirmed at checkout
             </p>
           </div>
         )}
@@ -0,0 +1,576 @@
+/**
+ * Checkout Flow
+ * 
+ * Multi-step checkout: shipping address, shipping method, review and
+ * confirmation. The server re-prices every line when the order is placed.
+ */
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Check } from "lucide-react";
+import {
+  shippingAddressSchema,
+  shippingMethodIds,
+  type OrderWithItems,
+  type PlaceOrder,
+  type ShippingAddress,
+  type ShippingMethod,
+} from "@shared/schema";
+import { DEFAULT_WIDTH, formatSize, isUsSize } from "@shared/sizing";
+import { priceCart } from "@shared/pricing";
+import {
+  estimateOrder,
+  findRegion,
+  shippingOptions,
+  shownPrice,
+  type ShippingOption,
+  type ShippingRateTable,
+} from "@shared/shipping";
+import { useLuxSole, toPricedLine, type CartItem } from "@/lib/stores/useLuxSole";
+import { useAuth, ORDERS_QUERY_KEY } from "@/hooks/use-auth";
+import { useShippingRates } from "@/hooks/use-shipping";
+import { useCardTokenizer, type CardDetails } from "@/hooks/use-payments";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import OrderSummary from "./OrderSummary";
+
+type CheckoutStep = "address" | "shipping" | "review" | "confirmation";
+
+const STEPS: { id: CheckoutStep; label: string }[] = [
+  { id: "address", label: "Address" },
+  { id: "shipping", label: "Shipping" },
+  { id: "review", label: "Review" },
+  { id: "confirmation", label: "Confirmation" },
+];
+
+const EMPTY_ADDRESS: ShippingAddress = {
+  fullName: "",
+  email: "",
+  line1: "",
+  line2: "",
+  city: "",
+  region: "",
+  postalCode: "",
+  country: "US",
+};
+
+const shippingStepSchema = z.object({
+  shippingMethod: z.enum(shippingMethodIds),
+});
+
+// Checked here and then tokenized in the browser; with the development
+// payment provider, numbers ending in 0002 are declined
+const paymentSchema = z.object({
+  cardNumber: z
+    .string()
+    .transform((value) => value.replace(/\s+/g, ""))
+    .pipe(z.string().regex(/^\d{12,19}$/, "Enter a card number")),
+});
+
+const inputClassName = "border-gray-600";
+const primaryButtonClassName =
+  "w-full py-3 bg-luxsole-gold hover:bg-luxsole-emerald text-luxsole-forest font-bold rounded-lg transition-all duration-300 disabled:opacity-60";
+const secondaryButtonClassName =
+  "w-full py-3 border border-luxsole-emerald/40 text-gray-300 rounded-lg hover:border-luxsole-emerald transition-colors";
+
+/**
+ * Step indicator
+ */
+function StepIndicator({ current }: { current: CheckoutStep }) {
+  const currentIndex = STEPS.findIndex((step) => step.id === current);
+  
+  return (
+    <ol className="flex items-center gap-2 text-xs">
+      {STEPS.map((step, index) => (
+        <li key={step.id} className="flex items-center gap-2">
+          <span
+            className={`w-6 h-6 rounded-full flex items-center justify-center font-bold ${
+              index < currentIndex
+                ? "bg-luxsole-emerald text-luxsole-forest"
+                : index === currentIndex
+                ? "bg-luxsole-gold text-luxsole-forest"
+                : "bg-luxsole-neutral text-gray-500"
+            }`}
+          >
+            {index < currentIndex ? <Check className="w-3 h-3" /> : index + 1}
+          </span>
+          <span className={index === currentIndex ? "text-white" : "text-gray-500"}>
+            {step.label}
+          </span>
+          {index < STEPS.length - 1 && <span className="w-4 h-px bg-gray-600" />}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * Shipping address step
+ */
+function AddressStep({
+  address,
+  onSubmit,
+}: {
+  address: ShippingAddress;
+  onSubmit: (address: ShippingAddress) => void;
+}) {
+  const form = useForm<ShippingAddress>({
+    resolver: zodResolver(shippingAddressSchema),
+    defaultValues: address,
+  });
+  
+  const field = (name: keyof ShippingAddress, label: string, autoComplete: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="text-luxsole-emerald">{label}</FormLabel>
+          <FormControl>
+            <Input autoComplete={autoComplete} className={inputClassName} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+  
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {field("fullName", "Full name", "name")}
+          {field("email", "Email", "email")}
+        </div>
+        {field("line1", "Address", "address-line1")}
+        {field("line2", "Apartment, suite (optional)", "address-line2")}
+        <div className="grid grid-cols-2 gap-4">
+          {field("city", "City", "address-level2")}
+          {field("region", "State / Region", "address-level1")}
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          {field("postalCode", "Postal code", "postal-code")}
+          {field("country", "Country (e.g. US)", "country")}
+        </div>
+        <button type="submit" className={primaryButtonClassName}>
+          Continue to Shipping
+        </button>
+      </form>
+    </Form>
+  );
+}
+
+/**
+ * Shipping method step
+ */
+function ShippingStep({
+  options,
+  shippingMethod,
+  onBack,
+  onSubmit,
+}: {
+  options: ShippingOption[]; // what the address's region offers, priced for this cart
+  shippingMethod: ShippingMethod;
+  onBack: () => void;
+  onSubmit: (method: ShippingMethod) => void;
+}) {
+  const form = useForm<z.infer<typeof shippingStepSchema>>({
+    resolver: zodResolver(shippingStepSchema),
+    defaultValues: {
+      shippingMethod: options.some((option) => option.method === shippingMethod)
+        ? shippingMethod
+        : options[0]?.method ?? shippingMethod,
+    },
+  });
+  
+  if (options.length === 0) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-red-400" role="alert">
+          We can't ship to this address yet.
+        </p>
+        <button type="button" onClick={onBack} className={secondaryButtonClassName}>
+          Back
+        </button>
+      </div>
+    );
+  }
+  
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((values) => onSubmit(values.shippingMethod))}
+        className="space-y-4"
+      >
+        <FormField
+          control={form.control}
+          name="shippingMethod"
+          render={({ field }) => (
+            <FormItem>
+              <FormControl>
+                <RadioGroup value={field.value} onValueChange={field.onChange} className="gap-3">
+                  {options.map((option) => (
+                    <label
+                      key={option.method}
+                      className={`flex items-center gap-4 p-4 rounded-lg border-2 cursor-pointer transition-colors ${
+                        field.value === option.method
+                          ? "border-luxsole-gold bg-luxsole-gold/10"
+                          : "border-luxsole-neutral hover:border-luxsole-emerald/50"
+                      }`}
+                    >
+                      <RadioGroupItem value={option.method} className="border-luxsole-gold text-luxsole-gold" />
+                      <div className="flex-1">
+                        <div className="font-medium text-white">{option.label}</div>
+                        <div className="text-xs text-gray-400">{option.delivery}</div>
+                      </div>
+                      <span className="font-bold text-luxsole-gold">
+                        {option.price === 0 ? "Free" : `$${option.price}`}
+                      </span>
+                    </label>
+                  ))}
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          <button type="button" onClick={onBack} className={secondaryButtonClassName}>
+            Back
+          </button>
+          <button type="submit" className={primaryButtonClassName}>
+            Review Order
+          </button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+/**
+ * Review and payment step
+ */
+function ReviewStep({
+  rates,
+  cart,
+  address,
+  shippingMethod,
+  onBack,
+  onPlaced,
+}: {
+  rates: ShippingRateTable;
+  cart: CartItem[];
+  address: ShippingAddress;
+  shippingMethod: ShippingMethod;
+  onBack: () => void;
+  onPlaced: (order: OrderWithItems) => void;
+}) {
+  const form = useForm<z.input<typeof paymentSchema>, unknown, z.output<typeof paymentSchema>>({
+    resolver: zodResolver(paymentSchema),
+    defaultValues: { cardNumber: "4242 4242 4242 4242" },
+  });
+  
+  const tokenizeCard = useCardTokenizer();
+  const placeOrder = useMutation({
+    mutationFn: async ({ order, card }: { order: Omit<PlaceOrder, "paymentToken">; card: CardDetails }) => {
+      // Only the token is sent; the card number stays in the browser
+      const paymentToken = await tokenizeCard!(card);
+      const res = await apiRequest("POST", "/api/orders", { ...order, paymentToken } satisfies PlaceOrder);
+      return (await res.json()) as OrderWithItems;
+    },
+    onSuccess: onPlaced,
+  });
+  
+  // Estimate only; the server prices the order from the catalog, checks
+  // the promo code again and works out shipping and tax from the same table
+  const { promotion } = useLuxSole();
+  const lines = cart.map(toPricedLine);
+  const totals = priceCart(lines, promotion);
+  const region = findRegion(rates, address.country);
+  const shipping = region
+    ? shippingOptions(rates, region, lines, totals.total).find((option) => option.method === shippingMethod)
+    : undefined;
+  const { estimate, error: estimateError } = estimateOrder(rates, {
+    country: address.country,
+    method: shippingMethod,
+    lines,
+    promotion,
+  });
+  
+  const handleSubmit = ({ cardNumber }: z.output<typeof paymentSchema>) => {
+    const order: Omit<PlaceOrder, "paymentToken"> = {
+      // The cart won't open checkout with unsized lines, so none are dropped here
+      items: cart.flatMap((item) =>
+        item.size && isUsSize(item.size)
+          ? [{
+              productId: item.id,
+              baseColor: item.baseColor,
+              accentColor: item.accentColor,
+              material: item.material,
+              shoeType: item.shoeType,
+              size: item.size,
+              width: item.width ?? DEFAULT_WIDTH,
+              personalization: item.personalization,
+              partColors: item.partColors,
+              quantity: item.quantity,
+            }]
+          : []
+      ),
+      shippingAddress: address,
+      shippingMethod,
+      promoCode: totals.discounts.length > 0 ? promotion?.code : undefined,
+    };
+    placeOrder.mutate({ order, card: { number: cardNumber } });
+  };
+  
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {cart.map((item) => (
+          <div key={item.lineKey} className="flex items-center justify-between text-sm">
+            <div className="flex items-center gap-2">
+              <span
+                className="w-4 h-4 rounded-full border border-white/20"
+                style={{ backgroundColor: item.baseColor }}
+              />
+              <span
+                className="w-4 h-4 rounded-full border border-white/20"
+                style={{ backgroundColor: item.accentColor }}
+              />
+              <span className="text-white">{item.name}</span>
+              <span className="text-gray-400 capitalize">
+                {item.material}{item.size ? ` • ${formatSize(item.size, item.width)}` : ""} × {item.quantity}
+              </span>
+            </div>
+            <span className="text-gray-300">${shownPrice(region, item.price * item.quantity)}</span>
+          </div>
+        ))}
+      </div>
+      
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <div className="text-luxsole-emerald font-medium mb-1">Ship to</div>
+          <div className="text-gray-300">
+            {address.fullName}<br />
+            {address.line1}{address.line2 ? `, ${address.line2}` : ""}<br />
+            {address.city}{address.region ? `, ${address.region}` : ""} {address.postalCode}<br />
+            {address.country}
+          </div>
+        </div>
+        <div>
+          <div className="text-luxsole-emerald font-medium mb-1">Delivery</div>
+          <div className="text-gray-300">
+            {shipping ? `${shipping.label} — ${shipping.delivery}` : "Unavailable"}
+          </div>
+        </div>
+      </div>
+      
+      <div className="border-t border-luxsole-emerald/20 pt-4">
+        {estimate && shipping ? (
+          <OrderSummary estimate={estimate} shipping={shipping} />
+        ) : (
+          <p className="text-sm text-red-400" role="alert">
+            {estimateError}
+          </p>
+        )}
+      </div>
+      
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="cardNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-luxsole-emerald">Card number (test mode)</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" autoComplete="cc-number" className={inputClassName} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
+          {placeOrder.error && (
+            <p className="text-sm text-red-400" role="alert">
+              {getErrorMessage(placeOrder.error)}
+            </p>
+          )}
+          
+          <div className="grid grid-cols-2 gap-4">
+            <button type="button" onClick={onBack} className={secondaryButtonClassName}>
+              Back
+            </button>
+            <button type="submit" disabled={!estimate || !tokenizeCard || placeOrder.isPending} className={primaryButtonClassName}>
+              {placeOrder.isPending ? "Placing Order…" : "Place Order"}
+            </button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
+
+/**
+ * Order confirmation step
+ */
+function ConfirmationStep({
+  order,
+  onDone,
+  onViewOrders,
+}: {
+  order: OrderWithItems;
+  onDone: () => void;
+  onViewOrders?: () => void;
+}) {
+  return (
+    <div className="text-center space-y-4 py-4">
+      <div className="w-16 h-16 mx-auto rounded-full bg-luxsole-emerald/20 flex items-center justify-center">
+        <Check className="w-8 h-8 text-luxsole-emerald" />
+      </div>
+      <h3 className="text-xl font-bold text-white">Thank you for your order</h3>
+      <p className="text-gray-300">
+        Order <span className="text-luxsole-gold font-medium">#{order.id}</span> is confirmed.
+        A receipt for ${order.total} is on its way to {order.email}.
+      </p>
+      <button onClick={onDone} className={primaryButtonClassName}>
+        Continue Exploring
+      </button>
+      {onViewOrders && (
+        <button onClick={onViewOrders} className={secondaryButtonClassName}>
+          Track This Order
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Main Checkout Component
+ */
+export default function Checkout() {
+  const {
+    cart,
+    isCheckoutOpen,
+    setCheckoutOpen,
+    setOrdersOpen,
+    clearCart,
+    promotion,
+    shippingCountry,
+    setShippingCountry,
+  } = useLuxSole();
+  const { user } = useAuth();
+  const rates = useShippingRates();
+  const [step, setStep] = useState<CheckoutStep>("address");
+  // Starts in the country the cart estimated for
+  const [address, setAddress] = useState<ShippingAddress>(() => ({
+    ...EMPTY_ADDRESS,
+    country: shippingCountry ?? EMPTY_ADDRESS.country,
+  }));
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethod>("standard");
+  const [order, setOrder] = useState<OrderWithItems | null>(null);
+  
+  const lines = cart.map(toPricedLine);
+  const shippingRegion = rates ? findRegion(rates, address.country) : undefined;
+  const options = rates && shippingRegion
+    ? shippingOptions(rates, shippingRegion, lines, priceCart(lines, promotion).total)
+    : [];
+  
+  const handleOpenChange = (open: boolean) => {
+    setCheckoutOpen(open);
+    if (!open && step === "confirmation") {
+      setStep("address");
+      setOrder(null);
+    }
+  };
+  
+  const handlePlaced = (placed: OrderWithItems) => {
+    setOrder(placed);
+    setStep("confirmation");
+    clearCart();
+    queryClient.invalidateQueries({ queryKey: ORDERS_QUERY_KEY });
+  };
+  
+  return (
+    <Dialog open={isCheckoutOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-luxsole-forest border-luxsole-emerald/30 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="space-y-4">
+          <DialogTitle className="text-2xl font-bold text-luxsole-gradient">Checkout</DialogTitle>
+          <DialogDescription asChild>
+            <div>
+              <StepIndicator current={step} />
+            </div>
+          </DialogDescription>
+        </DialogHeader>
+        
+        {step === "address" && (
+          <AddressStep
+            address={address}
+            onSubmit={(value) => {
+              setAddress(value);
+              setShippingCountry(value.country);
+              setStep("shipping");
+            }}
+          />
+        )}
+        
+        {step === "shipping" && rates && (
+          <ShippingStep
+            options={options}
+            shippingMethod={shippingMethod}
+            onBack={() => setStep("address")}
+            onSubmit={(method) => {
+              setShippingMethod(method);
+              setStep("review");
+            }}
+          />
+        )}
+        
+        {step === "review" && rates && (
+          <ReviewStep
+            rates={rates}
+            cart={cart}
+            address={address}
+            shippingMethod={shippingMethod}
+            onBack={() => setStep("shipping")}
+            onPlaced={handlePlaced}
+          />
+        )}
+        
+        {step === "confirmation" && order && (
+          <ConfirmationStep
+            order={order}
+            onDone={() => handleOpenChange(false)}
+            onViewOrders={
+              user
+                ? () => {
+                    handleOpenChange(false);
+                    setOrdersOpen(true);
+                  }
+                : undefined
+            }
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,19 +9,80 @@
  * - 3D preview with multiple angles
  */
 
-import { useRef, useEffect, useState, useMemo } from "react";
+import { Suspense, useRef, useEffect, useState, useMemo, type RefObject } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
 import { OrbitControls, PerspectiveCamera, Environment, ContactShadows } from "@react-three/drei";
 import { EffectComposer, Bloom } from "@react-three/postprocessing";
 import * as THREE from "three";
 import { gsap } from "gsap";
+import { Copy, Link2, Pencil, Trash2 } from "lucide-react";
 import ShoeModel from "@/models/ShoeModel";
-import { useLuxSole } from "@/lib/stores/useLuxSole";
+import QualityMonitor from "@/scene/QualityMonitor";
+import type { PatternOverlay } from "@/utils/three/patterns";
+import type { MonogramDecal } from "@/utils/three/monogram";
+import HistoryPanel from "./HistoryPanel";
+import ArtworkPanel from "./ArtworkPanel";
+import PreviewExport, { CaptureController, PREVIEW_ANGLES, type PreviewCapture } from "./PreviewExport";
+import { useLuxSole, type MaterialType, type ShoeType } from "@/lib/stores/useLuxSole";
+import { useDesigns, type SavedDesign } from "@/hooks/use-designs";
+import { useEditHistory } from "@/hooks/use-edit-history";
+import { useRenderQuality } from "@/hooks/use-render-quality";
+import { copyLink, designLinkUrl, shortLinkUrl, useDesignLink } from "@/hooks/use-design-link";
+import { productQueryKey } from "@/lib/products";
+import { studioPath } from "@/lib/routes";
+import { getErrorMessage } from "@/lib/queryClient";
+import { priceConfiguration } from "@shared/pricing";
+import { DEFAULT_DESIGN_CONFIG, repairDesignConfig } from "@shared/sharing";
+import type { PartColors } from "@shared/parts";
+import type { ArtworkPlacement } from "@shared/artwork";
+import {
+  MONOGRAM_FINISHES,
+  monogramFinishes,
+  monogramFinishLabels,
+  monogramPlacementLabels,
+  monogramPlacements,
+  resolveMonogramFinish,
+  type MonogramFinish,
+  type MonogramPlacement,
+} from "@shared/monogram";
+import {
+  monogramFonts,
+  MAX_DESIGN_NAME_LENGTH,
+  MAX_PATTERN_ROTATION,
+  PATTERN_SCALE_RANGE,
+  type DesignConfig,
+  type DesignPattern,
+  type MonogramFont,
+  type Product,
+} from "@shared/schema";
 
 interface CustomizationStudioProps {
+  designId?: number; // a saved design to open, from /studio/:designId
   className?: string;
 }
 
+/**
+ * Preview motion: a slow spin from the chosen angle and a subtle float.
+ * Rendered inside the Canvas, where useFrame is available.
+ */
+function PreviewMotion({ shoeRef, cameraAngle }: { shoeRef: RefObject<THREE.Group>; cameraAngle: number }) {
+  useFrame((state) => {
+    if (shoeRef.current) {
+      const time = state.clock.elapsedTime;
+      
+      // Smooth rotation for preview
+      shoeRef.current.rotation.y = time * 0.1 + cameraAngle;
+      
+      // Subtle floating
+      shoeRef.current.position.y = Math.sin(time * 0.5) * 0.05;
+    }
+  });
+
+  return null;
+}
+
 /**
  * Real-time Customization Preview
  */
@@ -29,35 +90,30 @@ function CustomizationPreview({
   baseColor, 
   accentColor, 
   material, 
+  shoeType,
   pattern, 
-  monogram 
+  monogram,
+  artwork,
+  captureRef
 }: {
   baseColor: string;
   accentColor: string;
-  material: string;
-  pattern: string;
-  monogram: string;
+  material: MaterialType;
+  shoeType: ShoeType;
+  pattern: PatternOverlay;
+  monogram: MonogramDecal | null;
+  artwork: ArtworkPlacement | null;
+  captureRef: RefObject<PreviewCapture>;
 }) {
   const shoeRef = useRef<THREE.Group>(null);
   const [cameraAngle, setCameraAngle] = useState(0);
-
-  useFrame((state) => {
-    if (shoeRef.current) {
-      const time = state.clock.elapsedTime;
-      
-      // Smooth rotation for preview
-      shoeRef.current.rotation.y = time * 0.1 + cameraAngle;
-      
-      // Subtle floating
-      shoeRef.current.position.y = Math.sin(time * 0.5) * 0.05;
-    }
-  });
+  const quality = useRenderQuality();
 
   return (
     <div className="w-full h-96 bg-luxsole-dark-green rounded-lg overflow-hidden relative">
       <Canvas
-        shadows
-        dpr={[1, 2]}
+        shadows={quality.shadows}
+        dpr={quality.dpr}
         gl={{
           antialias: true,
           toneMapping: THREE.ACESFilmicToneMapping,
@@ -65,6 +121,7 @@ function CustomizationPreview({
         }}
       >
         <PerspectiveCamera makeDefault position={[0, 1, 5]} fov={50} />
+        <QualityMonitor />
         
         {/* Enhanced Lighting for Customization */}
         <ambientLight intensity={0.6} />
@@ -101,11 +158,17 @@ function CustomizationPreview({
             baseColor={baseColor}
             accentColor={accentColor}
             material={material}
-            shoeType="low-top"
+            shoeType={shoeType}
+            pattern={pattern}
+            monogram={monogram}
+            artwork={artwork}
             scale={2.5}
-            useAdvancedShaders={true}
+            useAdvancedShaders={quality.advancedShaders}
+            lodDistances={quality.lodDistances}
           />
         </Suspense>
+        <PreviewMotion shoeRef={shoeRef} cameraAngle={cameraAngle} />
+        <CaptureController ref={captureRef} subject={shoeRef} />
         
         {/* Shadows */}
         <ContactShadows
@@ -128,18 +191,20 @@ function CustomizationPreview({
         />
         
         {/* Post-processing */}
-        <EffectComposer>
-          <Bloom
-            intensity={0.4}
-            luminanceThreshold={0.9}
-            luminanceSmoothing={0.9}
-          />
-        </EffectComposer>
+        {quality.bloom && (
+          <EffectComposer>
+            <Bloom
+              intensity={0.4}
+              luminanceThreshold={0.9}
+              luminanceSmoothing={0.9}
+            />
+          </EffectComposer>
+        )}
       </Canvas>
       
       {/* Camera Angle Controls */}
       <div className="absolute top-4 right-4 flex gap-2">
-        {[0, Math.PI/2, Math.PI, 3*Math.PI/2].map((angle, index) => (
+        {PREVIEW_ANGLES.map((angle, index) => (
           <button
             key={index}
             onClick={() => setCameraAngle(angle)}
@@ -201,6 +266,13 @@ function ColorPicker({
   );
 }
 
+const MATERIALS: { id: MaterialType; name: string; icon: string; description: string }[] = [
+  { id: 'leather', name: 'Leather', icon: '🐄', description: 'Premium Italian leather' },
+  { id: 'nubuck', name: 'Nubuck', icon: '🦌', description: 'Soft suede-like texture' },
+  { id: 'glint', name: 'Metallic', icon: '✨', description: 'Shimmering metallic finish' },
+  { id: 'knit', name: 'Knit', icon: '🧶', description: 'Technical performance fabric' }
+];
+
 /**
  * Material Selector Component
  */
@@ -208,21 +280,14 @@ function MaterialSelector({
   material, 
   onChange 
 }: { 
-  material: string; 
-  onChange: (material: string) => void; 
+  material: MaterialType; 
+  onChange: (material: MaterialType) => void; 
 }) {
-  const materials = [
-    { id: 'leather', name: 'Leather', icon: '🐄', description: 'Premium Italian leather' },
-    { id: 'nubuck', name: 'Nubuck', icon: '🦌', description: 'Soft suede-like texture' },
-    { id: 'glint', name: 'Metallic', icon: '✨', description: 'Shimmering metallic finish' },
-    { id: 'knit', name: 'Knit', icon: '🧶', description: 'Technical performance fabric' }
-  ];
-
   return (
     <div className="space-y-3">
       <label className="text-sm font-semibold text-luxsole-emerald">Material</label>
       <div className="grid grid-cols-2 gap-3">
-        {materials.map((mat) => (
+        {MATERIALS.map((mat) => (
           <button
             key={mat.id}
             onClick={() => onChange(mat.id)}
@@ -244,30 +309,44 @@ function MaterialSelector({
   );
 }
 
+const PATTERNS: { id: DesignPattern; name: string; preview: string }[] = [
+  { id: 'none', name: 'Solid', preview: '⬜' },
+  { id: 'stripes', name: 'Stripes', preview: '〰️' },
+  { id: 'dots', name: 'Dots', preview: '⚫' },
+  { id: 'geometric', name: 'Geometric', preview: '🔷' },
+  { id: 'floral', name: 'Floral', preview: '🌸' },
+  { id: 'abstract', name: 'Abstract', preview: '🎨' }
+];
+
+const PATTERN_STYLE_LABELS: Record<keyof PatternOverlay, string> = {
+  pattern: 'Pattern',
+  patternScale: 'Pattern scale',
+  patternRotation: 'Pattern rotation',
+  patternColor: 'Pattern color',
+};
+
 /**
  * Pattern Selector Component
+ *
+ * Scale, rotation and color show once a pattern is chosen. Patterns cover
+ * the side panels only.
  */
 function PatternSelector({ 
-  pattern, 
-  onChange 
+  overlay, 
+  onChange,
+  onStyleChange,
 }: { 
-  pattern: string; 
-  onChange: (pattern: string) => void; 
+  overlay: PatternOverlay; 
+  onChange: (pattern: DesignPattern) => void; 
+  onStyleChange: (change: Partial<PatternOverlay>) => void;
 }) {
-  const patterns = [
-    { id: 'none', name: 'Solid', preview: '⬜' },
-    { id: 'stripes', name: 'Stripes', preview: '〰️' },
-    { id: 'dots', name: 'Dots', preview: '⚫' },
-    { id: 'geometric', name: 'Geometric', preview: '🔷' },
-    { id: 'floral', name: 'Floral', preview: '🌸' },
-    { id: 'abstract', name: 'Abstract', preview: '🎨' }
-  ];
+  const { pattern, patternScale, patternRotation, patternColor } = overlay;
 
   return (
     <div className="space-y-3">
       <label className="text-sm font-semibold text-luxsole-emerald">Pattern</label>
       <div className="grid grid-cols-3 gap-2">
-        {patterns.map((pat) => (
+        {PATTERNS.map((pat) => (
           <button
             key={pat.id}
             onClick={() => onChange(pat.id)}
@@ -282,22 +361,81 @@ function PatternSelector({
           </button>
         ))}
       </div>
+
+      {pattern !== 'none' && (
+        <div className="space-y-3 pt-2">
+          <div>
+            <label className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>Scale</span>
+              <span>{patternScale.toFixed(1)}×</span>
+            </label>
+            <input
+              type="range"
+              min={PATTERN_SCALE_RANGE.min}
+              max={PATTERN_SCALE_RANGE.max}
+              step={0.1}
+              value={patternScale}
+              onChange={(e) => onStyleChange({ patternScale: Number(e.target.value) })}
+              className="w-full accent-luxsole-emerald"
+            />
+          </div>
+          <div>
+            <label className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>Rotation</span>
+              <span>{patternRotation}°</span>
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={MAX_PATTERN_ROTATION}
+              step={5}
+              value={patternRotation}
+              onChange={(e) => onStyleChange({ patternRotation: Number(e.target.value) })}
+              className="w-full accent-luxsole-emerald"
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <input
+              type="color"
+              value={patternColor}
+              onChange={(e) => onStyleChange({ patternColor: e.target.value })}
+              className="w-10 h-10 rounded border border-gray-600 cursor-pointer"
+              aria-label="Pattern color"
+            />
+            <span className="text-xs text-gray-400">Pattern color, shown on the side panels</span>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
 
+type MonogramStyle = Pick<DesignConfig, "monogramPlacement" | "monogramColor" | "monogramFinish">;
+
 /**
  * Monogramming Component
+ *
+ * Finishes the material can't take are disabled; the monogram falls back to
+ * the material's default finish.
  */
 function Monogramming({ 
   monogram, 
-  onChange 
+  font: selectedFont,
+  style,
+  material,
+  onChange,
+  onFontChange,
+  onStyleChange,
 }: { 
   monogram: string; 
+  font: MonogramFont;
+  style: MonogramStyle;
+  material: MaterialType;
   onChange: (monogram: string) => void; 
+  onFontChange: (font: MonogramFont) => void;
+  onStyleChange: (label: string, change: Partial<MonogramStyle>) => void;
 }) {
-  const fonts = ['serif', 'sans-serif', 'script', 'monospace'];
-  const [selectedFont, setSelectedFont] = useState('serif');
+  const finish = resolveMonogramFinish(material, style.monogramFinish);
 
   return (
     <div className="space-y-3">
@@ -319,10 +457,10 @@ function Monogramming({
         <div>
           <label className="text-xs text-gray-400 mb-1 block">Font Style</label>
           <div className="grid grid-cols-2 gap-2">
-            {fonts.map((font) => (
+            {monogramFonts.map((font) => (
               <button
                 key={font}
-                onClick={() => setSelectedFont(font)}
+                onClick={() => onFontChange(font)}
                 className={`p-2 rounded border text-xs transition-all duration-200 ${
                   selectedFont === font
                     ? 'border-luxsole-emerald bg-luxsole-emerald/20 text-luxsole-emerald'
@@ -335,6 +473,60 @@ function Monogramming({
             ))}
           </div>
         </div>
+
+        <div>
+          <label className="text-xs text-gray-400 mb-1 block">Placement</label>
+          <div className="grid grid-cols-3 gap-2">
+            {monogramPlacements.map((placement) => (
+              <button
+                key={placement}
+                onClick={() =>
+                  onStyleChange(`Monogram on ${monogramPlacementLabels[placement]}`, { monogramPlacement: placement })
+                }
+                className={`p-2 rounded border text-xs transition-all duration-200 ${
+                  style.monogramPlacement === placement
+                    ? 'border-luxsole-emerald bg-luxsole-emerald/20 text-luxsole-emerald'
+                    : 'border-gray-600 text-gray-300 hover:border-luxsole-emerald/50'
+                }`}
+              >
+                {monogramPlacementLabels[placement]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="text-xs text-gray-400 mb-1 block">Finish</label>
+          <div className="grid grid-cols-3 gap-2">
+            {monogramFinishes.map((option) => (
+              <button
+                key={option}
+                onClick={() => onStyleChange(`${monogramFinishLabels[option]} finish`, { monogramFinish: option })}
+                disabled={!MONOGRAM_FINISHES[material].includes(option)}
+                className={`p-2 rounded border text-xs transition-all duration-200 disabled:opacity-30 disabled:cursor-not-allowed ${
+                  finish === option
+                    ? 'border-luxsole-emerald bg-luxsole-emerald/20 text-luxsole-emerald'
+                    : 'border-gray-600 text-gray-300 hover:border-luxsole-emerald/50'
+                }`}
+              >
+                {monogramFinishLabels[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <input
+            type="color"
+            value={style.monogramColor}
+            onChange={(e) => onStyleChange("Monogram color", { monogramColor: e.target.value })}
+            className="w-10 h-10 rounded border border-gray-600 cursor-pointer"
+            aria-label="Monogram color"
+          />
+          <span className="text-xs text-gray-400">
+            {finish === 'foil' ? 'Foil color' : 'Thread and dye color'}
+          </span>
+        </div>
       </div>
     </div>
   );
@@ -342,40 +534,156 @@ function Monogramming({
 
 /**
  * Save/Load Designs Component
+ *
+ * Designs are kept in the customer's account, or in this browser for guests.
  */
 function DesignManager({ 
-  onSave, 
+  config,
+  productId,
   onLoad, 
-  designs 
 }: { 
-  onSave: () => void; 
-  onLoad: (design: any) => void; 
-  designs: any[]; 
+  config: DesignConfig;
+  productId: string | null;
+  onLoad: (design: SavedDesign) => void; 
 }) {
+  const {
+    designs,
+    isGuest,
+    createMutation,
+    updateMutation,
+    duplicateMutation,
+    deleteMutation,
+    shareMutation,
+  } = useDesigns();
+  const [name, setName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: number; name: string } | null>(null);
+  const error = [createMutation, updateMutation, duplicateMutation, deleteMutation, shareMutation]
+    .map((mutation) => mutation.error)
+    .find(Boolean);
+
+  const handleSave = () => {
+    createMutation.mutate(
+      { name: name.trim() || `Design ${designs.length + 1}`, productId, config },
+      { onSuccess: () => setName('') }
+    );
+  };
+
+  // Account designs get a short link; guests' are shared as encoded links
+  const handleShare = (design: SavedDesign) => {
+    if (isGuest) {
+      copyLink(designLinkUrl(design));
+    } else if (design.shareSlug) {
+      copyLink(shortLinkUrl(design.shareSlug));
+    } else {
+      shareMutation.mutate(design.id, { onSuccess: (shared) => copyLink(shortLinkUrl(shared.slug)) });
+    }
+  };
+
+  const handleRename = (design: SavedDesign) => {
+    const newName = renaming?.name.trim();
+    if (newName && newName !== design.name) {
+      updateMutation.mutate({ id: design.id, name: newName });
+    }
+    setRenaming(null);
+  };
+
   return (
     <div className="space-y-3">
       <label className="text-sm font-semibold text-luxsole-emerald">Designs</label>
       
       <div className="space-y-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={MAX_DESIGN_NAME_LENGTH}
+          placeholder={`Design ${designs.length + 1}`}
+          aria-label="Design name"
+          className="w-full px-3 py-2 bg-luxsole-dark-green border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:border-luxsole-emerald focus:outline-none"
+        />
         <button
-          onClick={onSave}
-          className="w-full py-2 px-4 bg-luxsole-emerald text-white rounded-lg hover:bg-luxsole-emerald/80 transition-colors duration-200"
+          onClick={handleSave}
+          disabled={createMutation.isPending}
+          className="w-full py-2 px-4 bg-luxsole-emerald text-white rounded-lg hover:bg-luxsole-emerald/80 transition-colors duration-200 disabled:opacity-60"
         >
-          Save Current Design
+          {createMutation.isPending ? 'Saving…' : 'Save Current Design'}
         </button>
+        {isGuest && (
+          <p className="text-xs text-gray-400">
+            Saved in this browser only. Sign in to keep designs in your account.
+          </p>
+        )}
+        {error && (
+          <p className="text-sm text-red-400" role="alert">
+            {getErrorMessage(error)}
+          </p>
+        )}
         
         {designs.length > 0 && (
           <div className="space-y-2">
             <label className="text-xs text-gray-400">Load Saved Design</label>
-            {designs.map((design, index) => (
-              <button
-                key={index}
-                onClick={() => onLoad(design)}
-                className="w-full py-2 px-3 bg-luxsole-dark-green border border-gray-600 rounded-lg text-left hover:border-luxsole-emerald transition-colors duration-200"
+            {designs.map((design) => (
+              <div
+                key={design.id}
+                className="flex items-center gap-1 bg-luxsole-dark-green border border-gray-600 rounded-lg hover:border-luxsole-emerald transition-colors duration-200"
               >
-                <div className="text-sm text-white">{design.name}</div>
-                <div className="text-xs text-gray-400">{design.date}</div>
-              </button>
+                {renaming?.id === design.id ? (
+                  <input
+                    type="text"
+                    value={renaming.name}
+                    onChange={(e) => setRenaming({ id: design.id, name: e.target.value })}
+                    onBlur={() => handleRename(design)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(design);
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    maxLength={MAX_DESIGN_NAME_LENGTH}
+                    autoFocus
+                    aria-label={`Rename ${design.name}`}
+                    className="flex-1 min-w-0 mx-2 my-1 px-2 py-1 bg-luxsole-neutral border border-luxsole-emerald rounded text-sm text-white focus:outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={() => onLoad(design)}
+                    className="flex-1 min-w-0 py-2 px-3 text-left"
+                  >
+                    <div className="text-sm text-white truncate">{design.name}</div>
+                    <div className="text-xs text-gray-400">{new Date(design.updatedAt).toLocaleDateString()}</div>
+                  </button>
+                )}
+                <button
+                  onClick={() => setRenaming({ id: design.id, name: design.name })}
+                  className="p-2 rounded-lg hover:bg-luxsole-emerald/20 transition-colors group"
+                  aria-label={`Rename ${design.name}`}
+                  title="Rename"
+                >
+                  <Pencil className="w-4 h-4 text-gray-400 group-hover:text-luxsole-emerald" />
+                </button>
+                <button
+                  onClick={() => handleShare(design)}
+                  className="p-2 rounded-lg hover:bg-luxsole-emerald/20 transition-colors group"
+                  aria-label={`Copy a link to ${design.name}`}
+                  title="Share"
+                >
+                  <Link2 className="w-4 h-4 text-gray-400 group-hover:text-luxsole-emerald" />
+                </button>
+                <button
+                  onClick={() => duplicateMutation.mutate(design.id)}
+                  className="p-2 rounded-lg hover:bg-luxsole-emerald/20 transition-colors group"
+                  aria-label={`Duplicate ${design.name}`}
+                  title="Duplicate"
+                >
+                  <Copy className="w-4 h-4 text-gray-400 group-hover:text-luxsole-emerald" />
+                </button>
+                <button
+                  onClick={() => deleteMutation.mutate(design.id)}
+                  className="p-2 rounded-lg hover:bg-red-500/20 transition-colors group"
+                  aria-label={`Delete ${design.name}`}
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4 text-gray-400 group-hover:text-red-400" />
+                </button>
+              </div>
             ))}
           </div>
         )}
@@ -387,14 +695,45 @@ function DesignManager({
 /**
  * Main Customization Studio Component
  */
-export default function CustomizationStudio({ className }: CustomizationStudioProps) {
-  const [baseColor, setBaseColor] = useState('#0B1220');
-  const [accentColor, setAccentColor] = useState('#1FA07A');
-  const [material, setMaterial] = useState('leather');
-  const [pattern, setPattern] = useState('none');
-  const [monogram, setMonogram] = useState('');
-  const [savedDesigns, setSavedDesigns] = useState<any[]>([]);
+export default function CustomizationStudio({ designId, className }: CustomizationStudioProps) {
+  const [baseColor, setBaseColor] = useState(DEFAULT_DESIGN_CONFIG.baseColor);
+  const [accentColor, setAccentColor] = useState(DEFAULT_DESIGN_CONFIG.accentColor);
+  const [material, setMaterial] = useState<MaterialType>(DEFAULT_DESIGN_CONFIG.material);
+  const [pattern, setPattern] = useState<DesignPattern>(DEFAULT_DESIGN_CONFIG.pattern);
+  const [patternScale, setPatternScale] = useState(DEFAULT_DESIGN_CONFIG.patternScale);
+  const [patternRotation, setPatternRotation] = useState(DEFAULT_DESIGN_CONFIG.patternRotation);
+  const [patternColor, setPatternColor] = useState(DEFAULT_DESIGN_CONFIG.patternColor);
+  const [monogram, setMonogram] = useState(DEFAULT_DESIGN_CONFIG.monogram);
+  const [font, setFont] = useState<MonogramFont>(DEFAULT_DESIGN_CONFIG.font);
+  const [monogramPlacement, setMonogramPlacement] = useState<MonogramPlacement>(DEFAULT_DESIGN_CONFIG.monogramPlacement);
+  const [monogramColor, setMonogramColor] = useState(DEFAULT_DESIGN_CONFIG.monogramColor);
+  const [monogramFinish, setMonogramFinish] = useState<MonogramFinish>(DEFAULT_DESIGN_CONFIG.monogramFinish);
+  // Zones recolored in the customizer; carried through so saving keeps them
+  const [partColors, setPartColors] = useState<PartColors>(DEFAULT_DESIGN_CONFIG.partColors);
+  const [artwork, setArtwork] = useState<ArtworkPlacement | null>(DEFAULT_DESIGN_CONFIG.artwork);
   const containerRef = useRef<HTMLDivElement>(null);
+  const captureRef = useRef<PreviewCapture>(null);
+  const { selectedShoe } = useLuxSole();
+  const [shoeType, setShoeType] = useState<ShoeType>(selectedShoe?.shoeType ?? DEFAULT_DESIGN_CONFIG.shoeType);
+  const { design: linkedDesign } = useDesignLink();
+  const { designs, isLoading: isLoadingDesigns } = useDesigns();
+  const openedDesign = designId ? designs.find((design) => design.id === designId) : undefined;
+  const productId = openedDesign?.productId ?? selectedShoe?.id ?? null;
+  const [, navigate] = useLocation();
+  const shownDesignId = useRef<number | null>(null);
+
+  // Priced on the catalog entry of the shoe the design was made on, or the
+  // studio was opened from
+  const { data: product } = useQuery<Product>({
+    queryKey: productQueryKey(productId ?? ""),
+    enabled: !!productId,
+  });
+  const price = product
+    ? priceConfiguration(product.price, {
+        material,
+        personalization: { pattern, monogram },
+      }).total
+    : undefined;
 
   useEffect(() => {
     if (containerRef.current) {
@@ -405,25 +744,74 @@ export default function CustomizationStudio({ className }: CustomizationStudioPr
     }
   }, []);
 
-  const handleSaveDesign = () => {
-    const newDesign = {
-      name: `Design ${savedDesigns.length + 1}`,
-      date: new Date().toLocaleDateString(),
-      baseColor,
-      accentColor,
-      material,
-      pattern,
-      monogram
-    };
-    setSavedDesigns([...savedDesigns, newDesign]);
+  const overlay: PatternOverlay = { pattern, patternScale, patternRotation, patternColor };
+  const monogramStyle: MonogramStyle = { monogramPlacement, monogramColor, monogramFinish };
+  const config: DesignConfig = {
+    baseColor,
+    accentColor,
+    material,
+    shoeType,
+    ...overlay,
+    monogram,
+    font,
+    ...monogramStyle,
+    partColors,
+    artwork,
   };
+  const decal: MonogramDecal | null = monogram
+    ? {
+        text: monogram,
+        font,
+        placement: monogramPlacement,
+        color: monogramColor,
+        finish: resolveMonogramFinish(material, monogramFinish),
+      }
+    : null;
+
+  const applyConfig = (config: DesignConfig) => {
+    setBaseColor(config.baseColor);
+    setAccentColor(config.accentColor);
+    setMaterial(config.material);
+    setShoeType(config.shoeType);
+    setPattern(config.pattern);
+    setPatternScale(config.patternScale);
+    setPatternRotation(config.patternRotation);
+    setPatternColor(config.patternColor);
+    setMonogram(config.monogram);
+    setFont(config.font);
+    setMonogramPlacement(config.monogramPlacement);
+    setMonogramColor(config.monogramColor);
+    setMonogramFinish(config.monogramFinish);
+    setPartColors(config.partColors);
+    setArtwork(config.artwork);
+  };
+
+  const history = useEditHistory(config, applyConfig);
+
+  // Opened from a shared link, which starts a fresh history
+  useEffect(() => {
+    if (linkedDesign) {
+      applyConfig(linkedDesign.config);
+      history.clear();
+    }
+  }, [linkedDesign]);
+
+  // Likewise a saved design opened by its address, unless it was loaded
+  // here and the address only caught up
+  useEffect(() => {
+    if (openedDesign && openedDesign.id !== shownDesignId.current) {
+      shownDesignId.current = openedDesign.id;
+      applyConfig(repairDesignConfig(openedDesign.config).config);
+      history.clear();
+    }
+  }, [openedDesign?.id]);
 
-  const handleLoadDesign = (design: any) => {
-    setBaseColor(design.baseColor);
-    setAccentColor(design.accentColor);
-    setMaterial(design.material);
-    setPattern(design.pattern);
-    setMonogram(design.monogram);
+  // Loading is an edit that can be undone; the address follows it so a
+  // reload or a bookmark comes back to the same design
+  const loadDesign = (design: SavedDesign) => {
+    history.edit(`Load “${design.name}”`, repairDesignConfig(design.config).config);
+    shownDesignId.current = design.id;
+    navigate(studioPath(design.id), { replace: true });
   };
 
   return (
@@ -436,6 +824,11 @@ export default function CustomizationStudio({ className }: CustomizationStudioPr
             Create your perfect pair with our advanced customization tools. 
             See your changes in real-time with our 3D preview.
           </p>
+          {designId && !isLoadingDesigns && !openedDesign && (
+            <p className="mt-4 text-sm text-red-400" role="alert">
+              This design wasn't found. It may have been deleted, or saved in another browser or account.
+            </p>
+          )}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -445,26 +838,33 @@ export default function CustomizationStudio({ className }: CustomizationStudioPr
               baseColor={baseColor}
               accentColor={accentColor}
               material={material}
-              pattern={pattern}
-              monogram={monogram}
+              shoeType={shoeType}
+              pattern={overlay}
+              monogram={decal}
+              artwork={artwork}
+              captureRef={captureRef}
             />
             
             {/* Preview Controls */}
             <div className="mt-6 bg-luxsole-neutral/20 backdrop-blur-sm rounded-lg p-4">
               <h3 className="text-lg font-semibold text-luxsole-emerald mb-4">Preview Controls</h3>
-              <div className="grid grid-cols-2 gap-4">
-                <button className="py-2 px-4 bg-luxsole-emerald/20 text-luxsole-emerald rounded-lg hover:bg-luxsole-emerald/30 transition-colors">
-                  Take Screenshot
-                </button>
-                <button className="py-2 px-4 bg-luxsole-gold/20 text-luxsole-gold rounded-lg hover:bg-luxsole-gold/30 transition-colors">
-                  Share Design
-                </button>
-              </div>
+              <PreviewExport capture={captureRef} fileName={`luxsole-${productId ?? shoeType}`} />
+              <button
+                onClick={() => copyLink(designLinkUrl({ productId, config }))}
+                className="mt-6 w-full py-2 px-4 bg-luxsole-gold/20 text-luxsole-gold rounded-lg hover:bg-luxsole-gold/30 transition-colors"
+              >
+                Share Design
+              </button>
             </div>
           </div>
 
           {/* Right Column - Customization Controls */}
           <div className="space-y-6">
+            {/* History */}
+            <div className="bg-luxsole-neutral/20 backdrop-blur-sm rounded-lg p-6">
+              <HistoryPanel history={history} />
+            </div>
+
             {/* Colors */}
             <div className="bg-luxsole-neutral/20 backdrop-blur-sm rounded-lg p-6">
               <h3 className="text-lg font-semibold text-luxsole-emerald mb-4">Colors</h3>
@@ -472,12 +872,12 @@ export default function CustomizationStudio({ className }: CustomizationStudioPr
                 <ColorPicker
                   label="Base Color"
                   color={baseColor}
-                  onChange={setBaseColor}
+                  onChange={(color) => history.edit("Base color", { baseColor: color }, { coalesce: "base" })}
                 />
                 <ColorPicker
                   label="Accent Color"
                   color={accentColor}
-                  onChange={setAccentColor}
+                  onChange={(color) => history.edit("Accent color", { accentColor: color }, { coalesce: "accent" })}
                 />
               </div>
             </div>
@@ -486,15 +886,23 @@ export default function CustomizationStudio({ className }: CustomizationStudioPr
             <div className="bg-luxsole-neutral/20 backdrop-blur-sm rounded-lg p-6">
               <MaterialSelector
                 material={material}
-                onChange={setMaterial}
+                onChange={(material) =>
+                  history.edit(`Material: ${MATERIALS.find((m) => m.id === material)?.name}`, { material })
+                }
               />
             </div>
 
             {/* Pattern */}
             <div className="bg-luxsole-neutral/20 backdrop-blur-sm rounded-lg p-6">
               <PatternSelector
-                pattern={pattern}
-                onChange={setPattern}
+                overlay={overlay}
+                onChange={(pattern) =>
+                  history.edit(`Pattern: ${PATTERNS.find((p) => p.id === pattern)?.name}`, { pattern })
+                }
+                onStyleChange={(change) => {
+                  const [field] = Object.keys(change) as (keyof PatternOverlay)[];
+                  history.edit(PATTERN_STYLE_LABELS[field], change, { coalesce: field });
+                }}
               />
             </div>
 
@@ -502,16 +910,35 @@ export default function CustomizationStudio({ className }: CustomizationStudioPr
             <div className="bg-luxsole-neutral/20 backdrop-blur-sm rounded-lg p-6">
               <Monogramming
                 monogram={monogram}
-                onChange={setMonogram}
+                font={font}
+                onChange={(monogram) =>
+                  history.edit(monogram ? `Monogram “${monogram}”` : "Remove monogram", { monogram }, {
+                    coalesce: "monogram",
+                  })
+                }
+                onFontChange={(font) => history.edit(`Font: ${font}`, { font })}
+                style={monogramStyle}
+                material={material}
+                onStyleChange={(label, change) =>
+                  history.edit(label, change, change.monogramColor ? { coalesce: "monogramColor" } : undefined)
+                }
+              />
+            </div>
+
+            {/* Artwork */}
+            <div className="bg-luxsole-neutral/20 backdrop-blur-sm rounded-lg p-6">
+              <ArtworkPanel
+                artwork={artwork}
+                onChange={(label, artwork, options) => history.edit(label, { artwork }, options)}
               />
             </div>
 
             {/* Design Management */}
             <div className="bg-luxsole-neutral/20 backdrop-blur-sm rounded-lg p-6">
               <DesignManager
-                onSave={handleSaveDesign}
-                onLoad={handleLoadDesign}
-                designs={savedDesigns}
+                config={config}
+                productId={productId}
+                onLoad={loadDesign}
               />
             </div>
 
@@ -522,7 +949,7 @@ export default function CustomizationStudio({ className }: CustomizationStudioPr
                 Your custom design will be handcrafted by our master artisans.
               </p>
               <button className="w-full py-3 px-6 bg-luxsole-gold text-luxsole-dark-green rounded-lg font-semibold hover:bg-luxsole-gold/80 transition-colors duration-300 hover:scale-105 transform">
-                Order Custom Design - $1,499
+                {price ? `Order Custom Design - $${price.toLocaleString()}` : "Order Custom Design"}
               </button>
             </div>
           </div>
@@ -4,12 +4,28 @@
  * Live material and color customization with smooth transitions
  */
 
-import { useEffect, useRef } from "react";
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useLuxSole, type MaterialType } from "@/lib/stores/useLuxSole";
+import { productQueryKey } from "@/lib/products";
+import type { Product } from "@shared/schema";
 import { X, Check } from "lucide-react";
 import { Canvas } from "@react-three/fiber";
 import { OrbitControls, PerspectiveCamera, Environment } from "@react-three/drei";
 import ShoeModel from "@/models/ShoeModel";
+import ShoeDracoModel from "@/models/ShoeDracoModel";
+import QualityMonitor from "@/scene/QualityMonitor";
+import { personalizationPattern } from "@/utils/three/patterns";
+import { personalizationMonogram } from "@/utils/three/monogram";
+import { personalizationArtwork } from "@shared/artwork";
+import SizeSelector, { resolveFit } from "@/components/luxsole/SizeSelector";
+import { useProductStock, stockBySize } from "@/hooks/use-stock";
+import { useRenderQuality } from "@/hooks/use-render-quality";
+import { findStockLevel, stockNote, stockStatus } from "@shared/inventory";
+import { MATERIAL_SURCHARGES, priceAdjustments, priceConfiguration } from "@shared/pricing";
+import { resolvePartColors, shoePartLabels, shoeParts, type PartColors, type ShoePart } from "@shared/parts";
+import { useEditHistory } from "@/hooks/use-edit-history";
+import HistoryPanel from "@/components/luxsole/HistoryPanel";
 import gsap from "gsap";
 
 const MATERIALS: { type: MaterialType; label: string; description: string }[] = [
@@ -28,6 +44,14 @@ const COLOR_PRESETS = [
   { name: "Shadow", base: "#1a1a1a", accent: "#E1B75A" },
 ];
 
+// What undo and redo step through
+interface Finish {
+  material: MaterialType;
+  baseColor: string;
+  accentColor: string;
+  partColors: PartColors;
+}
+
 export default function Customizer() {
   const {
     isCustomizerOpen,
@@ -38,15 +62,83 @@ export default function Customizer() {
     setCustomBaseColor,
     customAccentColor,
     setCustomAccentColor,
+    customPartColors,
+    setCustomPartColors,
+    customSize,
+    setCustomSize,
+    customWidth,
+    setCustomWidth,
     selectedShoe,
     addToCart,
-    useAdvancedShaders,
+    editingLineKey,
+    replaceCartLine,
   } = useLuxSole();
+  const quality = useRenderQuality();
   
   const modalRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
+  // Zones are picked on the detailed model, which has one mesh per zone
+  const [zoneView, setZoneView] = useState(false);
+  const [selectedPart, setSelectedPart] = useState<ShoePart | null>(null);
+  const partColors = resolvePartColors({
+    baseColor: customBaseColor,
+    accentColor: customAccentColor,
+    partColors: customPartColors,
+  });
+  const recoloredZones = Object.keys(customPartColors).length;
+  
+  const history = useEditHistory<Finish>(
+    {
+      material: customMaterial,
+      baseColor: customBaseColor,
+      accentColor: customAccentColor,
+      partColors: customPartColors,
+    },
+    (finish) => {
+      setCustomMaterial(finish.material);
+      setCustomBaseColor(finish.baseColor);
+      setCustomAccentColor(finish.accentColor);
+      setCustomPartColors(finish.partColors);
+    },
+    { enabled: isCustomizerOpen },
+  );
+  
+  const setPartColor = (part: ShoePart, color: string | null) => {
+    const { [part]: _previous, ...others } = customPartColors;
+    history.edit(
+      color ? `${shoePartLabels[part]} color` : `Reset ${shoePartLabels[part]}`,
+      { partColors: color ? { ...others, [part]: color } : others },
+      { coalesce: color ? `part-${part}` : undefined },
+    );
+  };
   
+  // Re-read the product so the price reflects the current catalog
+  const { data: product } = useQuery<Product>({
+    queryKey: productQueryKey(selectedShoe?.id ?? ""),
+    enabled: isCustomizerOpen && !!selectedShoe,
+  });
+  const fit = resolveFit(product, customSize, customWidth);
+  const breakdown = product
+    ? priceConfiguration(product.price, {
+        material: customMaterial,
+        size: fit.size,
+        width: fit.width,
+        personalization: selectedShoe?.personalization,
+      })
+    : undefined;
+  const price = breakdown?.total ?? selectedShoe?.price ?? 0;
+  const stock = useProductStock(isCustomizerOpen ? selectedShoe?.id : undefined);
+  const selectedLevel = fit.size ? findStockLevel(stock, fit.size, customMaterial) : undefined;
+  const soldOut = stockStatus(selectedLevel) === "sold_out";
+  // The material may have changed since the monogram's finish was picked
+  const monogram = personalizationMonogram(selectedShoe?.personalization, customMaterial);
+  
+  // Each opening starts a fresh history from the shoe being customized
   useEffect(() => {
+    if (isCustomizerOpen) {
+      setSelectedPart(null);
+      history.clear();
+    }
     if (isCustomizerOpen && contentRef.current) {
       gsap.fromTo(
         contentRef.current,
@@ -68,15 +160,31 @@ export default function Customizer() {
     }
   };
   
+  const selectPart = (part: ShoePart | null) => {
+    setSelectedPart(part);
+    if (part) setZoneView(true);
+  };
+  
   const handleAddToCart = () => {
-    if (selectedShoe) {
+    if (selectedShoe && fit.size && !soldOut) {
       const customShoe = {
         ...selectedShoe,
+        price,
         baseColor: customBaseColor,
         accentColor: customAccentColor,
         material: customMaterial,
+        partColors: recoloredZones > 0 ? customPartColors : null,
+        personalization: monogram
+          ? { ...selectedShoe.personalization, monogramFinish: monogram.finish }
+          : selectedShoe.personalization,
+        size: fit.size,
+        width: fit.width,
       };
-      addToCart(customShoe);
+      if (editingLineKey) {
+        replaceCartLine(editingLineKey, customShoe);
+      } else {
+        addToCart(customShoe);
+      }
       
       // Success animation
       gsap.to(contentRef.current, {
@@ -129,27 +237,72 @@ export default function Customizer() {
         
         {/* Content */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-6">
-          {/* 3D Preview */}
-          <div className="h-[400px] lg:h-[500px] rounded-xl overflow-hidden bg-gradient-to-br from-luxsole-dark-green to-luxsole-neutral">
-            <Canvas shadows dpr={[1, 2]}>
-              <PerspectiveCamera makeDefault position={[0, 1, 5]} fov={50} />
-              <ambientLight intensity={0.5} />
-              <spotLight position={[5, 5, 5]} angle={0.3} intensity={2} castShadow />
-              <spotLight position={[-5, 3, -3]} angle={0.4} intensity={1} color="#1FA07A" />
+          <div className="space-y-4">
+            {/* 3D Preview */}
+            <div className="relative h-[400px] lg:h-[500px] rounded-xl overflow-hidden bg-gradient-to-br from-luxsole-dark-green to-luxsole-neutral">
+              <div className="absolute top-3 left-3 z-10 flex gap-1 p-1 bg-luxsole-neutral/70 backdrop-blur-sm rounded-lg">
+                {[
+                  { zones: false, label: "Whole Shoe" },
+                  { zones: true, label: "By Zone" },
+                ].map((view) => (
+                  <button
+                    key={view.label}
+                    onClick={() => setZoneView(view.zones)}
+                    className={`px-3 py-1 rounded-md text-xs transition-colors ${
+                      zoneView === view.zones
+                        ? "bg-luxsole-gold text-luxsole-forest font-medium"
+                        : "text-gray-300 hover:text-white"
+                    }`}
+                    aria-pressed={zoneView === view.zones}
+                  >
+                    {view.label}
+                  </button>
+                ))}
+              </div>
+            
+              <Canvas shadows={quality.shadows} dpr={quality.dpr}>
+                <PerspectiveCamera makeDefault position={[0, 1, 5]} fov={50} />
+                <QualityMonitor />
+                <ambientLight intensity={0.5} />
+                <spotLight position={[5, 5, 5]} angle={0.3} intensity={2} castShadow />
+                <spotLight position={[-5, 3, -3]} angle={0.4} intensity={1} color="#1FA07A" />
               
-              <Environment preset="studio" />
+                <Environment preset="studio" />
               
-              <ShoeModel
-                baseColor={customBaseColor}
-                accentColor={customAccentColor}
-                material={customMaterial}
-                shoeType={selectedShoe?.shoeType || "low-top"}
-                scale={2.5}
-                useAdvancedShaders={useAdvancedShaders}
-              />
+                {zoneView ? (
+                  <Suspense fallback={null}>
+                    <ShoeDracoModel
+                      baseColor={customBaseColor}
+                      accentColor={customAccentColor}
+                      partColors={customPartColors}
+                      selectedPart={selectedPart}
+                      onSelectPart={selectPart}
+                      scale={1.4}
+                    />
+                  </Suspense>
+                ) : (
+                  <ShoeModel
+                    baseColor={customBaseColor}
+                    accentColor={customAccentColor}
+                    material={customMaterial}
+                    shoeType={selectedShoe?.shoeType || "low-top"}
+                    pattern={personalizationPattern(selectedShoe?.personalization)}
+                    monogram={monogram}
+                    artwork={personalizationArtwork(selectedShoe?.personalization)}
+                    scale={2.5}
+                    useAdvancedShaders={quality.advancedShaders}
+                    lodDistances={quality.lodDistances}
+                  />
+                )}
               
-              <OrbitControls autoRotate autoRotateSpeed={1} enableZoom={false} />
-            </Canvas>
+                {/* Holding still while zones are being picked */}
+                <OrbitControls autoRotate={!zoneView} autoRotateSpeed={1} enableZoom={false} />
+              </Canvas>
+            </div>
+            
+            <div className="p-4 rounded-xl bg-luxsole-neutral/40">
+              <HistoryPanel history={history} />
+            </div>
           </div>
           
           {/* Controls */}
@@ -163,7 +316,7 @@ export default function Customizer() {
                 {MATERIALS.map((mat) => (
                   <button
                     key={mat.type}
-                    onClick={() => setCustomMaterial(mat.type)}
+                    onClick={() => history.edit(`Material: ${mat.label}`, { material: mat.type })}
                     className={`p-4 rounded-lg border-2 transition-all duration-300 text-left ${
                       customMaterial === mat.type
                         ? "border-luxsole-gold bg-luxsole-gold/10"
@@ -174,7 +327,10 @@ export default function Customizer() {
                     <div className="flex items-start justify-between">
                       <div>
                         <div className="font-medium text-white text-sm">{mat.label}</div>
-                        <div className="text-xs text-gray-400 mt-1">{mat.description}</div>
+                        <div className="text-xs text-gray-400 mt-1">
+                          {mat.description}
+                          {MATERIAL_SURCHARGES[mat.type] > 0 && ` · +$${MATERIAL_SURCHARGES[mat.type]}`}
+                        </div>
                       </div>
                       {customMaterial === mat.type && (
                         <Check className="w-5 h-5 text-luxsole-gold flex-shrink-0" />
@@ -194,10 +350,9 @@ export default function Customizer() {
                 {COLOR_PRESETS.map((preset) => (
                   <button
                     key={preset.name}
-                    onClick={() => {
-                      setCustomBaseColor(preset.base);
-                      setCustomAccentColor(preset.accent);
-                    }}
+                    onClick={() =>
+                      history.edit(`${preset.name} preset`, { baseColor: preset.base, accentColor: preset.accent })
+                    }
                     className={`p-3 rounded-lg border-2 transition-all duration-300 hover:scale-105 active:scale-95 ${
                       customBaseColor === preset.base && customAccentColor === preset.accent
                         ? "border-luxsole-gold"
@@ -231,7 +386,7 @@ export default function Customizer() {
                   id="base-color"
                   type="color"
                   value={customBaseColor}
-                  onChange={(e) => setCustomBaseColor(e.target.value)}
+                  onChange={(e) => history.edit("Base color", { baseColor: e.target.value }, { coalesce: "base" })}
                   className="w-full h-12 rounded-lg cursor-pointer border-2 border-luxsole-forest hover:border-luxsole-emerald/50 transition-colors"
                 />
               </div>
@@ -243,18 +398,132 @@ export default function Customizer() {
                   id="accent-color"
                   type="color"
                   value={customAccentColor}
-                  onChange={(e) => setCustomAccentColor(e.target.value)}
+                  onChange={(e) =>
+                    history.edit("Accent color", { accentColor: e.target.value }, { coalesce: "accent" })
+                  }
                   className="w-full h-12 rounded-lg cursor-pointer border-2 border-luxsole-forest hover:border-luxsole-emerald/50 transition-colors"
                 />
               </div>
             </div>
             
+            {/* Zones */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <label className="text-sm font-medium text-luxsole-emerald">
+                  Zones
+                </label>
+                {recoloredZones > 0 && (
+                  <button
+                    onClick={() => history.edit("Reset all zones", { partColors: {} })}
+                    className="text-xs text-gray-400 hover:text-luxsole-gold transition-colors"
+                  >
+                    Reset all zones
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {shoeParts.map((part) => (
+                  <button
+                    key={part}
+                    onClick={() => selectPart(part)}
+                    className={`flex flex-col items-center gap-1 p-2 rounded-lg border-2 transition-all duration-300 ${
+                      selectedPart === part
+                        ? "border-luxsole-gold bg-luxsole-gold/10"
+                        : "border-transparent hover:border-luxsole-emerald/50 bg-luxsole-neutral"
+                    }`}
+                    aria-pressed={selectedPart === part}
+                  >
+                    <span
+                      className="w-6 h-6 rounded-full border border-white/20"
+                      style={{ backgroundColor: partColors[part] }}
+                    />
+                    <span className="text-[11px] leading-tight text-center text-gray-300">
+                      {shoePartLabels[part]}
+                    </span>
+                  </button>
+                ))}
+              </div>
+              {selectedPart ? (
+                <div className="flex items-center gap-4 mt-3">
+                  <input
+                    type="color"
+                    value={partColors[selectedPart]}
+                    onChange={(e) => setPartColor(selectedPart, e.target.value)}
+                    className="w-16 h-12 rounded-lg cursor-pointer border-2 border-luxsole-forest hover:border-luxsole-emerald/50 transition-colors"
+                    aria-label={`${shoePartLabels[selectedPart]} color`}
+                  />
+                  <div className="flex-1 text-sm">
+                    <div className="text-white">{shoePartLabels[selectedPart]}</div>
+                    <div className="text-xs text-gray-400">
+                      {customPartColors[selectedPart] ? "Recolored" : "Matches the shoe's colors"}
+                    </div>
+                  </div>
+                  {customPartColors[selectedPart] && (
+                    <button
+                      onClick={() => setPartColor(selectedPart, null)}
+                      className="text-xs text-gray-400 hover:text-luxsole-gold transition-colors"
+                    >
+                      Reset
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <p className="mt-3 text-xs text-gray-400">
+                  Click a part of the shoe or pick a zone to give it its own color.
+                </p>
+              )}
+            </div>
+            
+            {/* Size */}
+            {product && (
+              <div>
+                <label className="block text-sm font-medium text-luxsole-emerald mb-3">
+                  Size
+                </label>
+                <SizeSelector
+                  sizes={product.sizes}
+                  widths={product.widths}
+                  size={fit.size}
+                  width={fit.width}
+                  onSizeChange={setCustomSize}
+                  onWidthChange={setCustomWidth}
+                  stock={stockBySize(stock, product.sizes, customMaterial)}
+                />
+                {stockNote(selectedLevel) && (
+                  <p className={`mt-2 text-sm ${soldOut ? "text-red-400" : "text-luxsole-gold"}`} role="status">
+                    {stockNote(selectedLevel)}
+                  </p>
+                )}
+              </div>
+            )}
+            
+            {/* Price */}
+            {breakdown && priceAdjustments(breakdown).length > 0 && (
+              <dl className="space-y-1 text-sm">
+                <div className="flex justify-between text-gray-400">
+                  <dt>Base price</dt>
+                  <dd>${breakdown.base}</dd>
+                </div>
+                {priceAdjustments(breakdown).map((line) => (
+                  <div key={line.label} className="flex justify-between text-gray-400">
+                    <dt>{line.label}</dt>
+                    <dd>+${line.amount}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+            
             {/* Add to Cart Button */}
             <button
               onClick={handleAddToCart}
-              className="w-full py-4 bg-luxsole-gold hover:bg-luxsole-emerald text-luxsole-forest font-bold rounded-lg transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] animate-gold-pulse"
+              disabled={!fit.size || soldOut}
+              className="w-full py-4 bg-luxsole-gold hover:bg-luxsole-emerald text-luxsole-forest font-bold rounded-lg transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] animate-gold-pulse disabled:opacity-50 disabled:animate-none disabled:hover:scale-100 disabled:cursor-not-allowed"
             >
-              Add to Collection — ${selectedShoe.price}
+              {!fit.size
+                ? "Select a Size"
+                : soldOut
+                ? "Sold Out"
+                : `${editingLineKey ? "Update Design" : "Add to Collection"} — $${price}`}
             </button>
           </div>
         </div>
@@ -0,0 +1,33 @@
+/**
+ * Design Meta Tags
+ *
+ * Open Graph and Twitter tags for a page opened from a shared design link,
+ * pointing at the design's server-rendered preview card. The server writes
+ * the same tags into the page for crawlers, which don't run JavaScript (see
+ * server/prerender.ts).
+ */
+
+import { Helmet } from "react-helmet-async";
+import { designLinkSummary } from "@shared/sharing";
+import type { LinkedDesign } from "@/hooks/use-design-link";
+
+export default function DesignMeta({ design }: { design: LinkedDesign }) {
+  const { title, description } = designLinkSummary(design.name, design.config);
+
+  return (
+    <Helmet>
+      <title>{title}</title>
+      <meta property="og:type" content="website" />
+      <meta property="og:url" content={design.url} />
+      <meta property="og:title" content={title} />
+      <meta property="og:description" content={description} />
+      <meta property="og:image" content={design.cardUrl} />
+      <meta property="og:image:width" content="1200" />
+      <meta property="og:image:height" content="630" />
+      <meta property="twitter:card" content="summary_large_image" />
+      <meta property="twitter:title" content={title} />
+      <meta property="twitter:description" content={description} />
+      <meta property="twitter:image" content={design.cardUrl} />
+    </Helmet>
+  );
+}
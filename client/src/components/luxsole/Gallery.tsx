@@ -5,8 +5,18 @@
  * and animated reveals
  */
 
-import { useRef, useEffect } from "react";
-import { useLuxSole, DEFAULT_SHOES } from "@/lib/stores/useLuxSole";
+import { useRef, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useLuxSole, type ShoeType } from "@/lib/stores/useLuxSole";
+import { productsQueryKey, type ProductFilters } from "@/lib/products";
+import { productPath } from "@/lib/routes";
+import { useProductStock } from "@/hooks/use-stock";
+import { useRenderQuality } from "@/hooks/use-render-quality";
+import { capDpr } from "@/lib/quality";
+import { summarizeStock } from "@shared/inventory";
+import { priceConfiguration } from "@shared/pricing";
+import type { Product, ProductPage } from "@shared/schema";
 import { Canvas } from "@react-three/fiber";
 import { OrbitControls, PerspectiveCamera, Environment } from "@react-three/drei";
 import ShoeModel from "@/models/ShoeModel";
@@ -17,14 +27,17 @@ import * as THREE from "three";
 gsap.registerPlugin(ScrollTrigger);
 
 interface GalleryItemProps {
-  shoe: typeof DEFAULT_SHOES[0];
+  shoe: Product;
   index: number;
 }
 
 function GalleryItem({ shoe, index }: GalleryItemProps) {
-  const { setSelectedShoe, setCustomizerOpen, useAdvancedShaders } = useLuxSole();
+  const { setSelectedShoe, setCustomizerOpen } = useLuxSole();
+  const quality = useRenderQuality();
+  const [, navigate] = useLocation();
   const cardRef = useRef<HTMLDivElement>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
+  const availability = summarizeStock(useProductStock(shoe.id), shoe.sizes, shoe.material);
   
   useEffect(() => {
     if (cardRef.current) {
@@ -58,6 +71,8 @@ function GalleryItem({ shoe, index }: GalleryItemProps) {
     setCustomizerOpen(true);
   };
   
+  const handleView = () => navigate(productPath(shoe.id));
+  
   const handleHover = (isHovering: boolean) => {
     if (cardRef.current) {
       gsap.to(cardRef.current, {
@@ -82,13 +97,13 @@ function GalleryItem({ shoe, index }: GalleryItemProps) {
       className="glass-effect rounded-2xl overflow-hidden cursor-pointer group"
       onMouseEnter={() => handleHover(true)}
       onMouseLeave={() => handleHover(false)}
-      onClick={handleCustomize}
-      role="button"
+      onClick={handleView}
+      role="link"
       tabIndex={0}
       aria-label={`View ${shoe.name}`}
       onKeyPress={(e) => {
         if (e.key === "Enter" || e.key === " ") {
-          handleCustomize();
+          handleView();
         }
       }}
     >
@@ -97,9 +112,10 @@ function GalleryItem({ shoe, index }: GalleryItemProps) {
         ref={canvasContainerRef}
         className="w-full h-64 relative overflow-hidden bg-gradient-to-br from-luxsole-forest to-luxsole-dark-green"
       >
+        {/* The cards follow the tier the page's main scene measures */}
         <Canvas
-          shadows
-          dpr={[1, 1.5]}
+          shadows={quality.shadows}
+          dpr={capDpr(quality.dpr, 1.5)}
           gl={{ antialias: true }}
         >
           <PerspectiveCamera makeDefault position={[0, 1, 4]} fov={50} />
@@ -119,7 +135,8 @@ function GalleryItem({ shoe, index }: GalleryItemProps) {
             material={shoe.material}
             shoeType={shoe.shoeType}
             scale={2}
-            useAdvancedShaders={useAdvancedShaders}
+            useAdvancedShaders={quality.advancedShaders}
+            lodDistances={quality.lodDistances}
           />
           
           <OrbitControls
@@ -132,6 +149,18 @@ function GalleryItem({ shoe, index }: GalleryItemProps) {
         
         {/* Overlay gradient on hover */}
         <div className="absolute inset-0 bg-gradient-to-t from-luxsole-gold/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none" />
+
+        {availability !== "in_stock" && (
+          <span
+            className={`absolute top-4 left-4 px-3 py-1 rounded-full text-xs font-semibold pointer-events-none ${
+              availability === "sold_out"
+                ? "bg-luxsole-forest/90 text-gray-300"
+                : "bg-luxsole-gold text-luxsole-forest"
+            }`}
+          >
+            {availability === "sold_out" ? "Sold Out" : "Low Stock"}
+          </span>
+        )}
       </div>
       
       {/* Info Section */}
@@ -147,7 +176,7 @@ function GalleryItem({ shoe, index }: GalleryItemProps) {
         
         <div className="flex items-center justify-between">
           <span className="text-2xl font-bold text-luxsole-gold">
-            ${shoe.price}
+            ${priceConfiguration(shoe.price, { material: shoe.material }).total}
           </span>
           
           <button
@@ -166,8 +195,29 @@ function GalleryItem({ shoe, index }: GalleryItemProps) {
   );
 }
 
+const SHOE_TYPE_FILTERS: { value: ShoeType | undefined; label: string }[] = [
+  { value: undefined, label: "All" },
+  { value: "running", label: "Running" },
+  { value: "low-top", label: "Low-Top" },
+  { value: "high-top", label: "High-Top" },
+];
+
+const SORT_OPTIONS: { value: string; label: string; filters: ProductFilters }[] = [
+  { value: "featured", label: "Featured", filters: { sort: "featured" } },
+  { value: "newest", label: "Newest", filters: { sort: "newest" } },
+  { value: "price-asc", label: "Price: Low to High", filters: { sort: "price", order: "asc" } },
+  { value: "price-desc", label: "Price: High to Low", filters: { sort: "price", order: "desc" } },
+];
+
 export default function Gallery() {
   const sectionRef = useRef<HTMLDivElement>(null);
+  const [shoeType, setShoeType] = useState<ShoeType | undefined>(undefined);
+  const [sortValue, setSortValue] = useState("featured");
+  
+  const sortFilters = SORT_OPTIONS.find((option) => option.value === sortValue)?.filters;
+  const { data, isLoading, error } = useQuery<ProductPage>({
+    queryKey: productsQueryKey({ shoeType, ...sortFilters }),
+  });
   
   useEffect(() => {
     if (sectionRef.current) {
@@ -205,11 +255,52 @@ export default function Gallery() {
           </p>
         </div>
         
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
-          {DEFAULT_SHOES.map((shoe, index) => (
-            <GalleryItem key={shoe.id} shoe={shoe} index={index} />
-          ))}
+        {/* Filters */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-10">
+          <div className="flex flex-wrap gap-2">
+            {SHOE_TYPE_FILTERS.map((filter) => (
+              <button
+                key={filter.label}
+                onClick={() => setShoeType(filter.value)}
+                className={`px-4 py-2 rounded-full text-sm font-medium transition-colors duration-300 ${
+                  shoeType === filter.value
+                    ? "bg-luxsole-emerald text-luxsole-forest"
+                    : "bg-luxsole-forest text-gray-300 hover:bg-luxsole-emerald/20"
+                }`}
+                aria-pressed={shoeType === filter.value}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+          
+          <select
+            value={sortValue}
+            onChange={(e) => setSortValue(e.target.value)}
+            className="px-4 py-2 bg-luxsole-forest border border-luxsole-emerald/30 rounded-lg text-sm text-gray-300 focus:border-luxsole-emerald focus:outline-none"
+            aria-label="Sort collection"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
         </div>
+        
+        {error ? (
+          <p className="text-center text-gray-400">
+            The collection could not be loaded. Please try again shortly.
+          </p>
+        ) : isLoading ? (
+          <p className="text-center text-gray-400">Loading the collection…</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+            {data?.items.map((shoe, index) => (
+              <GalleryItem key={shoe.id} shoe={shoe} index={index} />
+            ))}
+          </div>
+        )}
       </div>
     </section>
   );
@@ -5,13 +5,17 @@
  */
 
 import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useLuxSole } from "@/lib/stores/useLuxSole";
+import { productsQueryKey } from "@/lib/products";
+import type { ProductPage } from "@shared/schema";
 import HeroScene from "@/scene/HeroScene";
 import { ChevronDown, Sparkles } from "lucide-react";
 import gsap from "gsap";
 
 export default function Hero() {
-  const { setCustomizerOpen, isDemoMode } = useLuxSole();
+  const { setCustomizerOpen, isDemoMode, selectedShoe, setSelectedShoe } = useLuxSole();
+  const { data: products } = useQuery<ProductPage>({ queryKey: productsQueryKey() });
   const heroRef = useRef<HTMLDivElement>(null);
   const headingRef = useRef<HTMLHeadingElement>(null);
   const subtitleRef = useRef<HTMLParagraphElement>(null);
@@ -48,6 +52,14 @@ export default function Hero() {
     }
   }, []);
   
+  const handleCustomize = () => {
+    // Start from the featured product when nothing has been picked yet
+    if (!selectedShoe && products?.items[0]) {
+      setSelectedShoe(products.items[0]);
+    }
+    setCustomizerOpen(true);
+  };
+  
   const scrollToGallery = () => {
     const gallerySection = document.getElementById("gallery");
     if (gallerySection) {
@@ -98,7 +110,7 @@ export default function Hero() {
           {/* CTA Buttons */}
           <div ref={ctaRef} className="flex flex-col sm:flex-row items-start gap-4">
             <button
-              onClick={() => setCustomizerOpen(true)}
+              onClick={handleCustomize}
               className="px-8 py-4 bg-luxsole-gold hover:bg-luxsole-emerald text-luxsole-forest font-bold rounded-lg transition-all duration-300 hover:scale-105 active:scale-95 shadow-lg hover:shadow-luxsole-gold/50 animate-gold-pulse"
             >
               Customize Finish
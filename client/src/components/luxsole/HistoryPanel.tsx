@@ -0,0 +1,84 @@
+/**
+ * History Panel
+ *
+ * Undo/redo buttons and the list of customization steps. Clicking a step
+ * goes back (or forward) to just after it; steps that were undone stay
+ * listed, dimmed, until a new edit replaces them.
+ */
+
+import { useEffect, useRef } from "react";
+import { Redo2, Undo2 } from "lucide-react";
+import type { EditHistory } from "@/hooks/use-edit-history";
+
+const isMac = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD = isMac ? "⌘" : "Ctrl+";
+
+export default function HistoryPanel<T>({ history }: { history: EditHistory<T> }) {
+  const { steps, index, canUndo, canRedo, undo, redo, goTo } = history;
+  const listRef = useRef<HTMLOListElement>(null);
+
+  // Follow new steps as the list grows
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [steps.length]);
+
+  const itemClassName = (position: number) =>
+    `w-full text-left px-2 py-1 rounded text-xs transition-colors ${
+      position === index
+        ? "bg-luxsole-emerald/20 text-white"
+        : position < index
+        ? "text-gray-300 hover:bg-white/5"
+        : "text-gray-500 line-through hover:bg-white/5"
+    }`;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-luxsole-emerald">History</span>
+        <div className="flex gap-1">
+          <button
+            onClick={undo}
+            disabled={!canUndo}
+            className="p-1.5 rounded-md text-gray-300 hover:bg-luxsole-emerald/20 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+            title={`Undo (${MOD}Z)`}
+            aria-label="Undo"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo}
+            className="p-1.5 rounded-md text-gray-300 hover:bg-luxsole-emerald/20 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+            title={`Redo (${MOD}Shift+Z)`}
+            aria-label="Redo"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {steps.length === 0 ? (
+        <p className="text-xs text-gray-500">Your changes will appear here.</p>
+      ) : (
+        <ol ref={listRef} className="max-h-32 overflow-y-auto space-y-0.5" aria-label="Edit history">
+          <li>
+            <button onClick={() => goTo(0)} className={itemClassName(0)} aria-current={index === 0 ? "step" : undefined}>
+              Start
+            </button>
+          </li>
+          {steps.map((step, i) => (
+            <li key={i}>
+              <button
+                onClick={() => goTo(i + 1)}
+                className={itemClassName(i + 1)}
+                aria-current={index === i + 1 ? "step" : undefined}
+              >
+                {step.label}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -4,8 +4,12 @@
  * Main navigation bar with animated transitions and micro-interactions
  */
 
+import { useLocation } from "wouter";
 import { useLuxSole, type AppView } from "@/lib/stores/useLuxSole";
-import { ShoppingCart, Menu, X } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { scrollToPage, VIEW_PATHS } from "@/lib/routes";
+import QualitySettings, { QualityOptions } from "./QualitySettings";
+import { ShoppingCart, Menu, X, User, LogOut, Package } from "lucide-react";
 import { useState, useEffect } from "react";
 import gsap from "gsap";
 
@@ -13,10 +17,13 @@ const NAV_ITEMS: { view: AppView; label: string }[] = [
   { view: "hero", label: "Home" },
   { view: "gallery", label: "Collection" },
   { view: "story", label: "Story" },
+  { view: "studio", label: "Studio" },
 ];
 
 export default function Navigation() {
-  const { currentView, setCurrentView, cart, setCartOpen, isDemoMode, setDemoMode } = useLuxSole();
+  const { currentView, cart, setCartOpen, isDemoMode, setDemoMode, setAuthOpen, setOrdersOpen } = useLuxSole();
+  const { user, logoutMutation } = useAuth();
+  const [location, navigate] = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
   
@@ -32,16 +39,14 @@ export default function Navigation() {
   }, []);
   
   const handleNavClick = (view: AppView) => {
-    setCurrentView(view);
+    const path = VIEW_PATHS[view]!;
     setIsMobileMenuOpen(false);
     
-    // Scroll to section
-    const sectionId = view === "hero" ? "top" : view;
-    const element = document.getElementById(sectionId);
-    if (element) {
-      element.scrollIntoView({ behavior: "smooth" });
-    } else if (view === "hero") {
-      window.scrollTo({ top: 0, behavior: "smooth" });
+    // Already there: scroll back to the section
+    if (path === location) {
+      scrollToPage(path);
+    } else {
+      navigate(path);
     }
   };
   
@@ -103,8 +108,39 @@ export default function Navigation() {
               >
                 {isDemoMode ? "Demo Active" : "Demo Mode"}
               </button>
+              
+              <QualitySettings />
             </div>
             
+            {/* Account */}
+            {user ? (
+              <div className="hidden md:flex items-center gap-2">
+                <span className="text-sm text-gray-300">{user.username}</span>
+                <button
+                  onClick={() => setOrdersOpen(true)}
+                  className="p-2 text-gray-300 hover:text-luxsole-emerald transition-colors duration-300"
+                  aria-label="My orders"
+                >
+                  <Package className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => logoutMutation.mutate()}
+                  className="p-2 text-gray-300 hover:text-luxsole-emerald transition-colors duration-300"
+                  aria-label="Sign out"
+                >
+                  <LogOut className="w-5 h-5" />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setAuthOpen(true)}
+                className="hidden md:block p-2 text-gray-300 hover:text-luxsole-emerald transition-colors duration-300 hover:scale-110 transform"
+                aria-label="Sign in"
+              >
+                <User className="w-6 h-6" />
+              </button>
+            )}
+            
             {/* Cart Button */}
             <button
               onClick={handleCartClick}
@@ -168,6 +204,37 @@ export default function Navigation() {
               >
                 {isDemoMode ? "Demo Active" : "Enable Demo Mode"}
               </button>
+              
+              <div className="px-4 py-2">
+                <p className="text-sm text-gray-300 mb-2">Graphics Quality</p>
+                <QualityOptions />
+              </div>
+              
+              {user && (
+                <button
+                  onClick={() => {
+                    setOrdersOpen(true);
+                    setIsMobileMenuOpen(false);
+                  }}
+                  className="block w-full text-left px-4 py-2 rounded-lg text-gray-300 hover:bg-luxsole-forest/50 transition-colors duration-300"
+                >
+                  My Orders
+                </button>
+              )}
+              
+              <button
+                onClick={() => {
+                  if (user) {
+                    logoutMutation.mutate();
+                  } else {
+                    setAuthOpen(true);
+                  }
+                  setIsMobileMenuOpen(false);
+                }}
+                className="block w-full text-left px-4 py-2 rounded-lg text-gray-300 hover:bg-luxsole-forest/50 transition-colors duration-300"
+              >
+                {user ? `Sign Out (${user.username})` : "Sign In"}
+              </button>
             </div>
           </div>
         )}
@@ -0,0 +1,55 @@
+/**
+ * Order Summary
+ *
+ * Subtotal, discounts, shipping, tax and total for a shipping estimate.
+ * Tax-inclusive regions show every amount with tax in and note the tax
+ * included; elsewhere tax is its own line.
+ */
+
+import type { OrderEstimate, ShippingOption } from "@shared/shipping";
+
+export default function OrderSummary({
+  estimate,
+  shipping,
+  totalLabel = "Total",
+}: {
+  estimate: OrderEstimate;
+  shipping: ShippingOption;
+  totalLabel?: string;
+}) {
+  const { shown } = estimate;
+  
+  return (
+    <dl className="space-y-2 text-sm">
+      <div className="flex justify-between">
+        <dt className="text-gray-400">Subtotal</dt>
+        <dd className="text-gray-300">${shown.subtotal}</dd>
+      </div>
+      {shown.discounts.map((discount) => (
+        <div key={discount.code} className="flex justify-between text-luxsole-emerald">
+          <dt>{discount.label} ({discount.code})</dt>
+          <dd>−${discount.amount}</dd>
+        </div>
+      ))}
+      <div className="flex justify-between">
+        <dt className="text-gray-400">{shipping.label} shipping</dt>
+        <dd className="text-gray-300">{shown.shipping === 0 ? "Free" : `$${shown.shipping}`}</dd>
+      </div>
+      {!estimate.taxInclusive && (
+        <div className="flex justify-between">
+          <dt className="text-gray-400">{estimate.taxLabel}</dt>
+          <dd className="text-gray-300">{estimate.tax > 0 ? `$${estimate.tax}` : "—"}</dd>
+        </div>
+      )}
+      <div className="flex justify-between items-baseline pt-2">
+        <dt className="text-gray-300 text-lg">{totalLabel}</dt>
+        <dd className="font-bold text-2xl text-luxsole-gold">${estimate.total}</dd>
+      </div>
+      {estimate.taxInclusive && estimate.tax > 0 && (
+        <p className="text-xs text-right text-gray-500">
+          Includes {estimate.taxLabel} of ${estimate.tax}
+        </p>
+      )}
+    </dl>
+  );
+}
@@ -0,0 +1,300 @@
+/**
+ * My Orders
+ *
+ * Order history for the signed-in customer, with each pair rendered as a
+ * small 3D thumbnail in the configuration that was ordered.
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Canvas, useThree } from "@react-three/fiber";
+import { PerspectiveCamera } from "@react-three/drei";
+import { Check, Package } from "lucide-react";
+import {
+  orderStatusLabels,
+  shippingMethods,
+  type OrderItem,
+  type OrderStatus,
+  type OrderWithItems,
+  type ShippingMethod,
+} from "@shared/schema";
+import { formatSize } from "@shared/sizing";
+import { partColorEntries, shoePartLabels } from "@shared/parts";
+import { useLuxSole } from "@/lib/stores/useLuxSole";
+import { useAuth, ORDERS_QUERY_KEY } from "@/hooks/use-auth";
+import { getErrorMessage } from "@/lib/queryClient";
+import ShoeModel from "@/models/ShoeModel";
+import { personalizationMonogram } from "@/utils/three/monogram";
+import { personalizationPattern } from "@/utils/three/patterns";
+import { personalizationArtwork } from "@shared/artwork";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// The happy path shown as a progress track; cancelled orders get a badge instead
+const TRACKED_STATUSES: OrderStatus[] = ["placed", "in_production", "shipped", "delivered"];
+
+const dateFormat = new Intl.DateTimeFormat(undefined, { dateStyle: "medium" });
+const dateTimeFormat = new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+// Browsers cap how many WebGL contexts a page may hold, so thumbnails aren't
+// canvases of their own: each configuration is drawn once on a shared
+// canvas and kept as an image for the rest of the visit
+const thumbnailImages = new Map<string, string>();
+
+function thumbnailKey(item: OrderItem): string {
+  const { shoeType, material, baseColor, accentColor, personalization } = item;
+  return [shoeType, material, baseColor, accentColor, JSON.stringify(personalization ?? {})].join(":");
+}
+
+function Capture({ onCapture }: { onCapture: (image: string) => void }) {
+  const { gl, scene, camera } = useThree();
+
+  // Effects run after the scene above has been built
+  useEffect(() => {
+    gl.render(scene, camera);
+    onCapture(gl.domElement.toDataURL("image/png"));
+  }, [gl, scene, camera]);
+
+  return null;
+}
+
+/**
+ * One ordered pair, captured once its artwork (if any) is on the shoe
+ */
+function ThumbnailShoe({ item, onCapture }: { item: OrderItem; onCapture: (image: string) => void }) {
+  const artwork = personalizationArtwork(item.personalization);
+  const [artworkSettled, setArtworkSettled] = useState(!artwork);
+
+  return (
+    <>
+      <ShoeModel
+        baseColor={item.baseColor}
+        accentColor={item.accentColor}
+        material={item.material}
+        shoeType={item.shoeType}
+        pattern={personalizationPattern(item.personalization)}
+        monogram={personalizationMonogram(item.personalization, item.material)}
+        artwork={artwork}
+        onArtworkSettled={() => setArtworkSettled(true)}
+        scale={1.8}
+        useAdvancedShaders={false}
+      />
+      {artworkSettled && <Capture onCapture={onCapture} />}
+    </>
+  );
+}
+
+/**
+ * Draws the thumbnails that aren't cached yet, one after another, on a
+ * single offscreen canvas. Unmounts once they are all done.
+ */
+function ThumbnailRenderer({ items, onRendered }: { items: OrderItem[]; onRendered: () => void }) {
+  const item = items.find((i) => !thumbnailImages.has(thumbnailKey(i)));
+  if (!item) return null;
+  const key = thumbnailKey(item);
+
+  return (
+    <div className="fixed top-0 -left-[200px] w-24 h-24 pointer-events-none" aria-hidden>
+      <Canvas frameloop="never" dpr={2} gl={{ antialias: true }}>
+        <PerspectiveCamera makeDefault position={[0, 1, 4]} fov={45} />
+        <ambientLight intensity={0.6} />
+        <directionalLight position={[5, 5, 5]} intensity={1.5} />
+        <ThumbnailShoe
+          key={key}
+          item={item}
+          onCapture={(image) => {
+            thumbnailImages.set(key, image);
+            onRendered();
+          }}
+        />
+      </Canvas>
+    </div>
+  );
+}
+
+/**
+ * Static 3D preview of one ordered configuration, or just the backdrop
+ * until it has been drawn
+ */
+function OrderItemThumbnail({ item }: { item: OrderItem }) {
+  const image = thumbnailImages.get(thumbnailKey(item));
+  return (
+    <div className="w-24 h-24 flex-shrink-0 rounded-lg overflow-hidden bg-gradient-to-br from-luxsole-forest to-luxsole-dark-green">
+      {image && <img src={image} alt="" className="w-full h-full" />}
+    </div>
+  );
+}
+
+/**
+ * Status track with the time each step was reached
+ */
+function StatusTrack({ order }: { order: OrderWithItems }) {
+  if (order.status === "cancelled") {
+    const cancelled = order.history.find((event) => event.status === "cancelled");
+    return (
+      <div className="text-sm text-red-400">
+        Cancelled{cancelled ? ` on ${dateTimeFormat.format(new Date(cancelled.createdAt))}` : ""}
+        {cancelled?.note ? ` — ${cancelled.note}` : ""}
+      </div>
+    );
+  }
+
+  const currentIndex = TRACKED_STATUSES.indexOf(order.status);
+
+  return (
+    <ol className="grid grid-cols-4 gap-2">
+      {TRACKED_STATUSES.map((status, index) => {
+        const event = order.history.find((e) => e.status === status);
+        const reached = index <= currentIndex;
+        return (
+          <li key={status} className="flex flex-col gap-1">
+            <span className={`h-1 rounded-full ${reached ? "bg-luxsole-emerald" : "bg-luxsole-neutral"}`} />
+            <span className={`flex items-center gap-1 text-xs ${reached ? "text-white" : "text-gray-500"}`}>
+              {reached && <Check className="w-3 h-3 text-luxsole-emerald" />}
+              {orderStatusLabels[status]}
+            </span>
+            {event && (
+              <span className="text-[10px] text-gray-500">
+                {dateTimeFormat.format(new Date(event.createdAt))}
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+/**
+ * One order with its items
+ */
+function OrderCard({ order }: { order: OrderWithItems }) {
+  return (
+    <article className="glass-effect rounded-lg p-4 space-y-4 border border-luxsole-emerald/20">
+      <header className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-bold text-white">Order #{order.id}</h3>
+          <p className="text-xs text-gray-400">
+            Placed {dateFormat.format(new Date(order.createdAt))} •{" "}
+            {shippingMethods[order.shippingMethod as ShippingMethod]?.label ?? order.shippingMethod} shipping
+          </p>
+        </div>
+        <div className="text-right">
+          <span className="font-bold text-luxsole-gold">${order.total}</span>
+          {order.discount > 0 && (
+            <div className="text-xs text-luxsole-emerald">
+              {order.promoCode} saved ${order.discount}
+            </div>
+          )}
+        </div>
+      </header>
+
+      <StatusTrack order={order} />
+
+      <ul className="space-y-3">
+        {order.items.map((item) => (
+          <li key={item.id} className="flex items-center gap-4">
+            <OrderItemThumbnail item={item} />
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-white truncate">{item.name}</div>
+              <div className="text-sm text-gray-400 capitalize">
+                {item.material} • {item.shoeType.replace("-", " ")}
+                {item.size ? ` • ${formatSize(item.size, item.width)}` : ""}
+              </div>
+              <div className="flex items-center gap-2 mt-1">
+                <span
+                  className="w-4 h-4 rounded-full border border-white/20"
+                  style={{ backgroundColor: item.baseColor }}
+                  title={`Base ${item.baseColor}`}
+                />
+                <span
+                  className="w-4 h-4 rounded-full border border-white/20"
+                  style={{ backgroundColor: item.accentColor }}
+                  title={`Accent ${item.accentColor}`}
+                />
+                {partColorEntries(item.partColors).map(([part, color]) => (
+                  <span
+                    key={part}
+                    className="w-3 h-3 rounded-full border border-white/20"
+                    style={{ backgroundColor: color }}
+                    title={`${shoePartLabels[part]} ${color}`}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="text-right text-sm">
+              <div className="text-gray-300">× {item.quantity}</div>
+              <div className="text-luxsole-gold">${item.unitPrice * item.quantity}</div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </article>
+  );
+}
+
+/**
+ * Main Orders Component
+ */
+export default function Orders() {
+  const { isOrdersOpen, setOrdersOpen } = useLuxSole();
+  const { user } = useAuth();
+  // Re-renders as each thumbnail image becomes available
+  const [, setThumbnailsDrawn] = useState(0);
+
+  const isOpen = isOrdersOpen && !!user;
+
+  const { data: orders, isLoading, error } = useQuery<OrderWithItems[]>({
+    queryKey: ORDERS_QUERY_KEY,
+    enabled: isOpen,
+  });
+
+  return (
+    <>
+      {isOpen && orders && (
+        <ThumbnailRenderer
+          items={orders.flatMap((order) => order.items)}
+          onRendered={() => setThumbnailsDrawn((n) => n + 1)}
+        />
+      )}
+      <Dialog open={isOpen} onOpenChange={setOrdersOpen}>
+        <DialogContent className="bg-luxsole-forest border-luxsole-emerald/30 text-white max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-bold text-luxsole-gradient">My Orders</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              Track your bespoke pairs from the atelier to your door.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading && <p className="text-gray-400 text-center py-8">Loading your orders…</p>}
+
+          {error && (
+            <p className="text-sm text-red-400 text-center py-8" role="alert">
+              {getErrorMessage(error)}
+            </p>
+          )}
+
+          {orders && orders.length === 0 && (
+            <div className="flex flex-col items-center text-center py-12">
+              <Package className="w-16 h-16 text-gray-600 mb-4" />
+              <p className="text-gray-400">You haven't placed any orders yet</p>
+            </div>
+          )}
+
+          {orders && orders.length > 0 && (
+            <div className="space-y-4">
+              {orders.map((order) => (
+                <OrderCard key={order.id} order={order} />
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
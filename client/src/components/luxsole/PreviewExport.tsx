@@ -0,0 +1,251 @@
+/**
+ * Preview Export
+ *
+ * High-resolution screenshots and turntable animations of the studio
+ * preview. CaptureController lives inside the preview's Canvas and renders
+ * offscreen; PreviewExport is the panel that drives it.
+ */
+
+import { forwardRef, useImperativeHandle, useState, type ReactNode, type RefObject } from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { toast } from "sonner";
+import { getErrorMessage } from "@/lib/queryClient";
+import {
+  SCREENSHOT_SIZES,
+  TURNTABLE_FORMATS,
+  TURNTABLE_FPS,
+  TURNTABLE_SIZES,
+  canvasToBlob,
+  createTurntableWriter,
+  downloadBlob,
+  renderShot,
+  type CaptureSize,
+  type TurntableFormat,
+} from "@/utils/three/capture";
+
+// The preview's preset angles, in the order of its angle buttons
+export const PREVIEW_ANGLES = [0, Math.PI / 2, Math.PI, (3 * Math.PI) / 2];
+
+const BACKGROUND = "#0F3F2B";
+const TURNTABLE_LENGTHS = [3, 5, 8]; // seconds per full turn
+
+interface CaptureOptions {
+  size: CaptureSize;
+  angle: number | null; // null keeps the shoe where it is
+  transparent: boolean;
+}
+
+export interface PreviewCapture {
+  screenshot(options: CaptureOptions): Promise<Blob>;
+  turntable(
+    options: CaptureOptions & { seconds: number; format: TurntableFormat },
+    onProgress: (progress: number) => void,
+  ): Promise<Blob>;
+}
+
+// Lets the browser paint between frames, so progress shows and the page
+// stays responsive
+const nextTick = () => new Promise((resolve) => setTimeout(resolve));
+
+export const CaptureController = forwardRef<PreviewCapture, { subject: RefObject<THREE.Object3D> }>(
+  function CaptureController({ subject }, ref) {
+    const { gl, scene, camera } = useThree();
+
+    useImperativeHandle(ref, () => {
+      const shoot = (angle: number, { size, transparent }: CaptureOptions) => {
+        const shoe = subject.current;
+        if (!shoe) throw new Error("The preview is still loading");
+
+        const rotation = shoe.rotation.y;
+        shoe.rotation.y = angle;
+        shoe.updateMatrixWorld();
+        try {
+          return renderShot(gl, scene, camera, { ...size, transparent, background: BACKGROUND });
+        } finally {
+          shoe.rotation.y = rotation;
+        }
+      };
+      const startAngle = (angle: number | null) => angle ?? subject.current?.rotation.y ?? 0;
+
+      return {
+        async screenshot(options) {
+          return canvasToBlob(shoot(startAngle(options.angle), options));
+        },
+        async turntable(options, onProgress) {
+          const start = startAngle(options.angle);
+          const frames = options.seconds * TURNTABLE_FPS;
+          const writer = createTurntableWriter(options.format, options);
+
+          for (let frame = 0; frame < frames; frame++) {
+            await writer.addFrame(shoot(start + (frame / frames) * Math.PI * 2, options));
+            onProgress((frame + 1) / frames);
+            await nextTick();
+          }
+          return writer.finish();
+        },
+      };
+    }, [gl, scene, camera, subject]);
+
+    return null;
+  },
+);
+
+const selectClassName =
+  "w-full px-3 py-2 bg-luxsole-neutral border border-gray-600 rounded-lg text-white text-sm focus:border-luxsole-emerald focus:outline-none";
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block text-sm">
+      <span className="block text-gray-400 mb-1">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+export default function PreviewExport({
+  capture,
+  fileName,
+}: {
+  capture: RefObject<PreviewCapture>;
+  fileName: string;
+}) {
+  const [sizeId, setSizeId] = useState(SCREENSHOT_SIZES[0].id);
+  const [angle, setAngle] = useState("current");
+  const [transparent, setTransparent] = useState(false);
+  const [turntableSizeId, setTurntableSizeId] = useState(TURNTABLE_SIZES[1].id);
+  const [seconds, setSeconds] = useState(TURNTABLE_LENGTHS[0]);
+  const [format, setFormat] = useState<TurntableFormat>("gif");
+  const [exporting, setExporting] = useState<"screenshot" | "turntable" | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const busy = exporting !== null;
+  const options = {
+    angle: angle === "current" ? null : PREVIEW_ANGLES[Number(angle)],
+    transparent,
+  };
+
+  const run = async (kind: "screenshot" | "turntable", task: (capture: PreviewCapture) => Promise<void>) => {
+    if (!capture.current || busy) return;
+    setExporting(kind);
+    setProgress(0);
+    try {
+      await task(capture.current);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleScreenshot = () =>
+    run("screenshot", async (capture) => {
+      const size = SCREENSHOT_SIZES.find((s) => s.id === sizeId)!;
+      const blob = await capture.screenshot({ ...options, size });
+      downloadBlob(blob, `${fileName}-${size.width}x${size.height}.png`);
+    });
+
+  const handleTurntable = () =>
+    run("turntable", async (capture) => {
+      const size = TURNTABLE_SIZES.find((s) => s.id === turntableSizeId)!;
+      const blob = await capture.turntable({ ...options, size, seconds, format }, setProgress);
+      downloadBlob(blob, `${fileName}-turntable.${format === "gif" ? "gif" : "zip"}`);
+    });
+
+  return (
+    <div className="space-y-6">
+      {/* Shared by both exports */}
+      <div className="grid grid-cols-2 gap-4 items-end">
+        <Field label="Angle">
+          <select value={angle} onChange={(e) => setAngle(e.target.value)} className={selectClassName}>
+            <option value="current">As shown</option>
+            {PREVIEW_ANGLES.map((_, index) => (
+              <option key={index} value={index}>
+                Angle {index + 1}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <label className="flex items-center gap-2 py-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={transparent}
+            onChange={(e) => setTransparent(e.target.checked)}
+            className="accent-luxsole-emerald"
+          />
+          Transparent background
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Screenshot */}
+        <div className="space-y-3">
+          <Field label="Resolution">
+            <select value={sizeId} onChange={(e) => setSizeId(e.target.value)} className={selectClassName}>
+              {SCREENSHOT_SIZES.map((size) => (
+                <option key={size.id} value={size.id}>
+                  {size.label}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <button
+            onClick={handleScreenshot}
+            disabled={busy}
+            className="w-full py-2 px-4 bg-luxsole-emerald/20 text-luxsole-emerald rounded-lg hover:bg-luxsole-emerald/30 transition-colors disabled:opacity-50"
+          >
+            Take Screenshot
+          </button>
+        </div>
+
+        {/* Turntable */}
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <Field label="Size">
+              <select
+                value={turntableSizeId}
+                onChange={(e) => setTurntableSizeId(e.target.value)}
+                className={selectClassName}
+              >
+                {TURNTABLE_SIZES.map((size) => (
+                  <option key={size.id} value={size.id}>
+                    {size.label}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Length">
+              <select value={seconds} onChange={(e) => setSeconds(Number(e.target.value))} className={selectClassName}>
+                {TURNTABLE_LENGTHS.map((length) => (
+                  <option key={length} value={length}>
+                    {length}s
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Format">
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as TurntableFormat)}
+                className={selectClassName}
+              >
+                {TURNTABLE_FORMATS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </Field>
+          </div>
+          <button
+            onClick={handleTurntable}
+            disabled={busy}
+            className="w-full py-2 px-4 bg-luxsole-emerald/20 text-luxsole-emerald rounded-lg hover:bg-luxsole-emerald/30 transition-colors disabled:opacity-50"
+          >
+            {exporting === "turntable" ? `Rendering… ${Math.round(progress * 100)}%` : "Export Turntable"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
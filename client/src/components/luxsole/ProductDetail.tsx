@@ -9,14 +9,25 @@
  * - Customer reviews with star ratings
  */
 
-import { useRef, useEffect, useState } from "react";
+import { useRef, useEffect, useState, Suspense } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
 import { OrbitControls, PerspectiveCamera, Environment, ContactShadows } from "@react-three/drei";
 import { EffectComposer, Bloom } from "@react-three/postprocessing";
 import * as THREE from "three";
 import { gsap } from "gsap";
 import ShoeModel from "@/models/ShoeModel";
-import { useLuxSole } from "@/lib/stores/useLuxSole";
+import QualityMonitor from "@/scene/QualityMonitor";
+import { useLuxSole, type ShoeType } from "@/lib/stores/useLuxSole";
+import { productQueryKey } from "@/lib/products";
+import { ROUTES } from "@/lib/routes";
+import SizeSelector, { resolveFit } from "@/components/luxsole/SizeSelector";
+import { useProductStock, stockBySize } from "@/hooks/use-stock";
+import { useRenderQuality } from "@/hooks/use-render-quality";
+import { findStockLevel, stockNote, stockStatus, type StockLevel } from "@shared/inventory";
+import { priceConfiguration } from "@shared/pricing";
+import type { Product } from "@shared/schema";
 
 interface ProductDetailProps {
   shoeId: string;
@@ -26,11 +37,12 @@ interface ProductDetailProps {
 /**
  * 360° Shoe Viewer Component
  */
-function ShoeViewer360({ shoeId }: { shoeId: string }) {
+function ShoeViewer360({ shoeType }: { shoeType: ShoeType }) {
   const shoeRef = useRef<THREE.Group>(null);
   const { customBaseColor, customAccentColor, customMaterial } = useLuxSole();
   const [isAutoRotating, setIsAutoRotating] = useState(true);
   const [zoomLevel, setZoomLevel] = useState(1);
+  const quality = useRenderQuality();
 
   useFrame((state) => {
     if (shoeRef.current && isAutoRotating) {
@@ -45,8 +57,8 @@ function ShoeViewer360({ shoeId }: { shoeId: string }) {
   return (
     <div className="w-full h-96 bg-luxsole-dark-green rounded-lg overflow-hidden">
       <Canvas
-        shadows
-        dpr={[1, 2]}
+        shadows={quality.shadows}
+        dpr={quality.dpr}
         gl={{
           antialias: true,
           toneMapping: THREE.ACESFilmicToneMapping,
@@ -54,6 +66,7 @@ function ShoeViewer360({ shoeId }: { shoeId: string }) {
         }}
       >
         <PerspectiveCamera makeDefault position={[0, 1, 5]} fov={50} />
+        <QualityMonitor />
         
         {/* Lighting */}
         <ambientLight intensity={0.4} />
@@ -83,9 +96,10 @@ function ShoeViewer360({ shoeId }: { shoeId: string }) {
             baseColor={customBaseColor}
             accentColor={customAccentColor}
             material={customMaterial}
-            shoeType="low-top"
+            shoeType={shoeType}
             scale={2 * zoomLevel}
-            useAdvancedShaders={true}
+            useAdvancedShaders={quality.advancedShaders}
+            lodDistances={quality.lodDistances}
           />
         </Suspense>
         
@@ -111,13 +125,15 @@ function ShoeViewer360({ shoeId }: { shoeId: string }) {
         />
         
         {/* Post-processing */}
-        <EffectComposer>
-          <Bloom
-            intensity={0.3}
-            luminanceThreshold={0.9}
-            luminanceSmoothing={0.9}
-          />
-        </EffectComposer>
+        {quality.bloom && (
+          <EffectComposer>
+            <Bloom
+              intensity={0.3}
+              luminanceThreshold={0.9}
+              luminanceSmoothing={0.9}
+            />
+          </EffectComposer>
+        )}
       </Canvas>
       
       {/* Controls */}
@@ -223,39 +239,26 @@ function MaterialDetail({ material, isActive }: { material: string; isActive: bo
 /**
  * Size Guide Component
  */
-function SizeGuide() {
-  const [selectedSize, setSelectedSize] = useState<string | null>(null);
-  const sizes = ['7', '7.5', '8', '8.5', '9', '9.5', '10', '10.5', '11', '11.5', '12'];
+function SizeGuide({ product, stock }: { product: Product; stock: StockLevel[] }) {
+  const { customSize, customWidth, setCustomSize, setCustomWidth } = useLuxSole();
+  const { size, width } = resolveFit(product, customSize, customWidth);
+  const note = size ? stockNote(findStockLevel(stock, size, product.material)) : undefined;
 
   return (
     <div className="bg-luxsole-neutral/20 backdrop-blur-sm rounded-lg p-6">
       <h3 className="text-xl font-bold text-luxsole-emerald mb-4">Size Guide</h3>
       <p className="text-gray-300 mb-6">Find your perfect fit with our comprehensive size guide.</p>
       
-      <div className="grid grid-cols-6 gap-2 mb-6">
-        {sizes.map((size) => (
-          <button
-            key={size}
-            onClick={() => setSelectedSize(selectedSize === size ? null : size)}
-            className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
-              selectedSize === size
-                ? 'bg-luxsole-emerald text-white'
-                : 'bg-luxsole-dark-green text-gray-300 hover:bg-luxsole-emerald/20'
-            }`}
-          >
-            {size}
-          </button>
-        ))}
-      </div>
-      
-      {selectedSize && (
-        <div className="bg-luxsole-emerald/10 rounded-lg p-4">
-          <h4 className="text-luxsole-emerald font-semibold mb-2">Size {selectedSize} Details</h4>
-          <p className="text-gray-300 text-sm">
-            Length: {parseFloat(selectedSize) + 9.5}cm | Width: Medium | Fit: True to size
-          </p>
-        </div>
-      )}
+      <SizeSelector
+        sizes={product.sizes}
+        widths={product.widths}
+        size={size}
+        width={width}
+        onSizeChange={setCustomSize}
+        onWidthChange={setCustomWidth}
+        stock={stockBySize(stock, product.sizes, product.material)}
+      />
+      {note && <p className="mt-3 text-sm text-luxsole-gold" role="status">{note}</p>}
     </div>
   );
 }
@@ -331,6 +334,19 @@ export default function ProductDetail({ shoeId, className }: ProductDetailProps)
   const [selectedMaterial, setSelectedMaterial] = useState('leather');
   const [showMaterialDetail, setShowMaterialDetail] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  const { setSelectedShoe, setCustomizerOpen, addToCart, customSize, customWidth } = useLuxSole();
+  const { data: product, isLoading, error } = useQuery<Product>({
+    queryKey: productQueryKey(shoeId),
+  });
+  const stock = useProductStock(shoeId);
+
+  // Preview the product's own finish until the customer picks another
+  useEffect(() => {
+    if (product) {
+      setSelectedShoe(product);
+      setSelectedMaterial(product.material);
+    }
+  }, [product, setSelectedShoe]);
 
   useEffect(() => {
     if (containerRef.current) {
@@ -341,24 +357,38 @@ export default function ProductDetail({ shoeId, className }: ProductDetailProps)
     }
   }, []);
 
+  if (isLoading || error || !product) {
+    return (
+      <div className={`min-h-screen bg-luxsole-dark-green flex items-center justify-center ${className}`}>
+        <p className="text-gray-400">
+          {isLoading ? "Loading product…" : "This product could not be found."}
+        </p>
+      </div>
+    );
+  }
+
+  const fit = resolveFit(product, customSize, customWidth);
+  const soldOut = !!fit.size && stockStatus(findStockLevel(stock, fit.size, product.material)) === "sold_out";
+  const price = priceConfiguration(product.price, { material: product.material, size: fit.size, width: fit.width }).total;
+
   return (
     <div ref={containerRef} className={`min-h-screen bg-luxsole-dark-green ${className}`}>
       <div className="max-w-7xl mx-auto px-4 py-8">
         {/* Breadcrumb */}
         <nav className="mb-8">
           <div className="flex items-center space-x-2 text-sm text-gray-400">
-            <a href="/" className="hover:text-luxsole-emerald transition-colors">Home</a>
+            <Link href={ROUTES.home} className="hover:text-luxsole-emerald transition-colors">Home</Link>
             <span>/</span>
-            <a href="/gallery" className="hover:text-luxsole-emerald transition-colors">Collection</a>
+            <Link href={ROUTES.collection} className="hover:text-luxsole-emerald transition-colors">Collection</Link>
             <span>/</span>
-            <span className="text-luxsole-emerald">LuxSole Emerald Runner</span>
+            <span className="text-luxsole-emerald">LuxSole {product.name}</span>
           </div>
         </nav>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
           {/* Left Column - 360° Viewer */}
           <div>
-            <ShoeViewer360 shoeId={shoeId} />
+            <ShoeViewer360 shoeType={product.shoeType} />
             
             {/* Material Selection */}
             <div className="mt-6">
@@ -393,13 +423,12 @@ export default function ProductDetail({ shoeId, className }: ProductDetailProps)
           {/* Right Column - Product Info */}
           <div className="space-y-8">
             <div>
-              <h1 className="text-4xl font-bold text-luxsole-gradient mb-4">LuxSole Emerald Runner</h1>
+              <h1 className="text-4xl font-bold text-luxsole-gradient mb-4">LuxSole {product.name}</h1>
               <p className="text-xl text-gray-300 mb-6">
-                A masterpiece of modern luxury, combining cutting-edge design with traditional craftsmanship.
+                {product.description}
               </p>
               <div className="flex items-center gap-4 mb-6">
-                <span className="text-3xl font-bold text-luxsole-gold">$1,299</span>
-                <span className="text-lg text-gray-400 line-through">$1,599</span>
+                <span className="text-3xl font-bold text-luxsole-gold">${price.toLocaleString()}</span>
                 <span className="bg-luxsole-emerald/20 text-luxsole-emerald px-3 py-1 rounded-full text-sm">
                   Limited Edition
                 </span>
@@ -407,14 +436,25 @@ export default function ProductDetail({ shoeId, className }: ProductDetailProps)
             </div>
 
             {/* Size Guide */}
-            <SizeGuide />
+            <SizeGuide product={product} stock={stock} />
 
             {/* Add to Cart */}
             <div className="space-y-4">
-              <button className="w-full bg-luxsole-emerald text-white py-4 px-6 rounded-lg font-semibold hover:bg-luxsole-emerald/80 transition-colors duration-300 hover:scale-105 transform">
-                Add to Cart - $1,299
+              <button
+                onClick={() => fit.size && !soldOut && addToCart({ ...product, price, size: fit.size, width: fit.width })}
+                disabled={!fit.size || soldOut}
+                className="w-full bg-luxsole-emerald text-white py-4 px-6 rounded-lg font-semibold hover:bg-luxsole-emerald/80 transition-colors duration-300 hover:scale-105 transform disabled:opacity-50 disabled:hover:scale-100 disabled:cursor-not-allowed"
+              >
+                {!fit.size
+                  ? "Select a Size"
+                  : soldOut
+                  ? "Sold Out"
+                  : `Add to Cart - $${price.toLocaleString()}`}
               </button>
-              <button className="w-full border border-luxsole-gold text-luxsole-gold py-4 px-6 rounded-lg font-semibold hover:bg-luxsole-gold hover:text-luxsole-dark-green transition-all duration-300 hover:scale-105 transform">
+              <button
+                onClick={() => setCustomizerOpen(true)}
+                className="w-full border border-luxsole-gold text-luxsole-gold py-4 px-6 rounded-lg font-semibold hover:bg-luxsole-gold hover:text-luxsole-dark-green transition-all duration-300 hover:scale-105 transform"
+              >
                 Customize & Order
               </button>
             </div>
@@ -0,0 +1,66 @@
+/**
+ * Graphics Quality Settings
+ *
+ * Lets the customer pin the 3D views to a quality tier, for devices where
+ * the automatic governor doesn't keep them smooth, or hand control back
+ * to it.
+ */
+
+import { Settings } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useLuxSole } from "@/lib/stores/useLuxSole";
+import { useQualityTier } from "@/hooks/use-render-quality";
+import { qualitySettingLabels, type QualitySetting } from "@/lib/quality";
+
+const QUALITY_OPTIONS: QualitySetting[] = ["auto", "high", "medium", "low"];
+
+export function QualityOptions() {
+  const { qualitySetting, setQualitySetting } = useLuxSole();
+  const tier = useQualityTier();
+
+  return (
+    <div>
+      <div className="grid grid-cols-4 gap-1" role="radiogroup" aria-label="Graphics quality">
+        {QUALITY_OPTIONS.map((setting) => (
+          <button
+            key={setting}
+            onClick={() => setQualitySetting(setting)}
+            className={`px-2 py-1.5 text-xs rounded-lg border transition-colors duration-300 ${
+              qualitySetting === setting
+                ? "border-luxsole-emerald bg-luxsole-emerald/20 text-luxsole-emerald"
+                : "border-gray-600 text-gray-300 hover:border-luxsole-emerald/50"
+            }`}
+            role="radio"
+            aria-checked={qualitySetting === setting}
+          >
+            {qualitySettingLabels[setting]}
+          </button>
+        ))}
+      </div>
+      {qualitySetting === "auto" && (
+        <p className="mt-2 text-xs text-gray-400">
+          Adjusts to keep the 3D views smooth; now on {qualitySettingLabels[tier]}.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function QualitySettings() {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="p-2 text-gray-300 hover:text-luxsole-emerald transition-colors duration-300"
+          aria-label="Graphics quality"
+        >
+          <Settings className="w-5 h-5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 glass-effect border-luxsole-emerald/20">
+        <p className="text-sm font-semibold text-luxsole-emerald mb-3">Graphics Quality</p>
+        <QualityOptions />
+      </PopoverContent>
+    </Popover>
+  );
+}
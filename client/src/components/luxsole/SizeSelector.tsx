@@ -0,0 +1,152 @@
+/**
+ * Size Selector
+ *
+ * Size and width picker shared by the product page and the customizer.
+ * Sizes are chosen in any system but always stored as the US size.
+ */
+
+import { useState } from "react";
+import {
+  DEFAULT_WIDTH,
+  SIZE_CHART,
+  convertSize,
+  shoeWidthLabels,
+  sizeSystems,
+  type ShoeWidth,
+  type SizeSystem,
+  type UsSize,
+} from "@shared/sizing";
+import type { StockStatus } from "@shared/inventory";
+
+interface SizeSelectorProps {
+  sizes: readonly UsSize[];
+  widths: readonly ShoeWidth[];
+  size: UsSize | null;
+  width: ShoeWidth;
+  onSizeChange: (size: UsSize | null) => void;
+  onWidthChange: (width: ShoeWidth) => void;
+  stock?: Record<string, StockStatus>; // per size, in the chosen material
+}
+
+/**
+ * The customer's size and width narrowed to what a product is made in. A
+ * size the product doesn't come in counts as no size; an unavailable width
+ * falls back to standard, or the product's first width.
+ */
+export function resolveFit(
+  product: { sizes: readonly UsSize[]; widths: readonly ShoeWidth[] } | undefined,
+  size: UsSize | null,
+  width: ShoeWidth,
+): { size: UsSize | null; width: ShoeWidth } {
+  if (!product) return { size, width };
+
+  return {
+    size: size && product.sizes.includes(size) ? size : null,
+    width: product.widths.includes(width)
+      ? width
+      : product.widths.includes(DEFAULT_WIDTH)
+      ? DEFAULT_WIDTH
+      : product.widths[0],
+  };
+}
+
+export default function SizeSelector({
+  sizes,
+  widths,
+  size,
+  width,
+  onSizeChange,
+  onWidthChange,
+  stock = {},
+}: SizeSelectorProps) {
+  const [system, setSystem] = useState<SizeSystem>("US");
+
+  return (
+    <div className="space-y-4">
+      {/* Size system */}
+      <div className="flex gap-2" role="radiogroup" aria-label="Size system">
+        {sizeSystems.map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={system === option}
+            onClick={() => setSystem(option)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors duration-200 ${
+              system === option
+                ? "bg-luxsole-gold text-luxsole-forest"
+                : "bg-luxsole-dark-green text-gray-300 hover:text-luxsole-gold"
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      {/* Sizes */}
+      <div className="grid grid-cols-5 sm:grid-cols-6 gap-2" role="radiogroup" aria-label="Size">
+        {sizes.map((option) => {
+          const soldOut = stock[option] === "sold_out";
+          const lowStock = stock[option] === "low_stock";
+          return (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={size === option}
+              aria-label={`US ${option}${soldOut ? ", sold out" : lowStock ? ", low stock" : ""}`}
+              disabled={soldOut && size !== option}
+              onClick={() => onSizeChange(size === option ? null : option)}
+              className={`relative px-2 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                size === option
+                  ? "bg-luxsole-emerald text-white"
+                  : soldOut
+                  ? "bg-luxsole-dark-green/50 text-gray-600 line-through cursor-not-allowed"
+                  : "bg-luxsole-dark-green text-gray-300 hover:bg-luxsole-emerald/20"
+              }`}
+            >
+              {convertSize(option, system)}
+              {lowStock && (
+                <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-luxsole-gold" aria-hidden="true" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Widths */}
+      {widths.length > 1 ? (
+        <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Width">
+          {widths.map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={width === option}
+              onClick={() => onWidthChange(option)}
+              className={`px-3 py-2 rounded-lg text-xs font-medium border transition-colors duration-200 ${
+                width === option
+                  ? "border-luxsole-gold text-luxsole-gold bg-luxsole-gold/10"
+                  : "border-gray-600 text-gray-300 hover:border-luxsole-gold/50"
+              }`}
+            >
+              {shoeWidthLabels[option]}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">Available in {shoeWidthLabels[widths[0]].toLowerCase()} width</p>
+      )}
+
+      {size && (
+        <div className="bg-luxsole-emerald/10 rounded-lg p-4">
+          <h4 className="text-luxsole-emerald font-semibold mb-2">US {size}</h4>
+          <p className="text-gray-300 text-sm">
+            EU {SIZE_CHART[size].eu} | UK {SIZE_CHART[size].uk} | Foot length {SIZE_CHART[size].cm.toFixed(1)} cm |
+            Width: {shoeWidthLabels[width]}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,10 +9,15 @@ import { useRef, useEffect, useState } from "react";
 import { Canvas, useFrame } from "@react-three/fiber";
 import { PerspectiveCamera, Environment, OrbitControls } from "@react-three/drei";
 import ShoeModel from "@/models/ShoeModel";
+import QualityMonitor from "@/scene/QualityMonitor";
 import * as THREE from "three";
 import gsap from "gsap";
 import { ScrollTrigger } from "gsap/ScrollTrigger";
-import { useLuxSole, DEFAULT_SHOES } from "@/lib/stores/useLuxSole";
+import { useQuery } from "@tanstack/react-query";
+import { useLuxSole } from "@/lib/stores/useLuxSole";
+import { useRenderQuality } from "@/hooks/use-render-quality";
+import { productsQueryKey } from "@/lib/products";
+import type { ProductPage } from "@shared/schema";
 
 gsap.registerPlugin(ScrollTrigger);
 
@@ -23,6 +28,9 @@ interface StorySceneProps {
 function StoryScene({ scrollProgress }: StorySceneProps) {
   const cameraRef = useRef<THREE.PerspectiveCamera>(null);
   const shoeRef = useRef<THREE.Group>(null);
+  const { data } = useQuery<ProductPage>({ queryKey: productsQueryKey() });
+  const featured = data?.items[0];
+  const quality = useRenderQuality();
   
   useFrame(() => {
     if (cameraRef.current && shoeRef.current) {
@@ -59,14 +67,18 @@ function StoryScene({ scrollProgress }: StorySceneProps) {
       
       <Environment preset={preset} background={false} />
       
-      <ShoeModel
-        ref={shoeRef}
-        baseColor={DEFAULT_SHOES[0].baseColor}
-        accentColor={DEFAULT_SHOES[0].accentColor}
-        material={DEFAULT_SHOES[0].material}
-        shoeType={DEFAULT_SHOES[0].shoeType}
-        scale={2.5}
-      />
+      {featured && (
+        <ShoeModel
+          ref={shoeRef}
+          baseColor={featured.baseColor}
+          accentColor={featured.accentColor}
+          material={featured.material}
+          shoeType={featured.shoeType}
+          scale={2.5}
+          useAdvancedShaders={quality.advancedShaders}
+          lodDistances={quality.lodDistances}
+        />
+      )}
       
       {/* Ground plane */}
       <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.5, 0]} receiveShadow>
@@ -105,7 +117,8 @@ export default function Story() {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const [scrollProgress, setScrollProgress] = useState(0);
-  
+  const quality = useRenderQuality();
+
   useEffect(() => {
     if (containerRef.current && canvasContainerRef.current) {
       const sections = containerRef.current.querySelectorAll(".story-section");
@@ -155,7 +168,8 @@ export default function Story() {
         ref={canvasContainerRef}
         className="sticky top-0 w-full h-screen z-10"
       >
-        <Canvas shadows dpr={[1, 2]}>
+        <Canvas shadows={quality.shadows} dpr={quality.dpr}>
+          <QualityMonitor />
           <StoryScene scrollProgress={scrollProgress} />
         </Canvas>
       </div>
@@ -0,0 +1,58 @@
+import { useMutation, useQuery } from "@tanstack/react-query"
+import type { Credentials, PublicUser } from "@shared/schema"
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient"
+
+export const AUTH_QUERY_KEY = ["/api/auth/me"]
+export const ORDERS_QUERY_KEY = ["/api/orders"]
+export const DESIGNS_QUERY_KEY = ["/api/designs"]
+export const UPLOADS_QUERY_KEY = ["/api/uploads"]
+
+export function useAuth() {
+  // Signed-out visitors get a 401 from /me, which we treat as "no user"
+  const { data: user, isLoading, error } = useQuery<PublicUser | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  })
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials)
+      return (await res.json()) as PublicUser
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, user)
+    },
+  })
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/auth/register", credentials)
+      return (await res.json()) as PublicUser
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, user)
+    },
+  })
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout")
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, null)
+      // Don't leave one account's orders, designs and artwork around for the next
+      queryClient.removeQueries({ queryKey: ORDERS_QUERY_KEY })
+      queryClient.removeQueries({ queryKey: DESIGNS_QUERY_KEY })
+      queryClient.removeQueries({ queryKey: UPLOADS_QUERY_KEY })
+    },
+  })
+
+  return {
+    user: user ?? null,
+    isLoading,
+    error,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  }
+}
@@ -0,0 +1,22 @@
+import * as React from "react"
+import { useAuth } from "@/hooks/use-auth"
+import { useLuxSole } from "@/lib/stores/useLuxSole"
+
+// Switches the cart between the guest's localStorage copy and the signed-in
+// account's server cart as the session changes
+export function useCartSync() {
+  const { user, isLoading } = useAuth()
+  const attachAccountCart = useLuxSole((state) => state.attachAccountCart)
+  const detachAccountCart = useLuxSole((state) => state.detachAccountCart)
+  const userId = user?.id ?? null
+
+  React.useEffect(() => {
+    if (isLoading) return
+
+    if (userId !== null) {
+      attachAccountCart()
+    } else {
+      detachAccountCart()
+    }
+  }, [userId, isLoading, attachAccountCart, detachAccountCart])
+}
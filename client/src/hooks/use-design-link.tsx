@@ -0,0 +1,171 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+import { toast } from "sonner"
+import type { Product, ProductPage, SharedDesign } from "@shared/schema"
+import { priceConfiguration } from "@shared/pricing"
+import {
+  DESIGN_LINK_PARAM,
+  SHORT_LINK_PARAM,
+  decodeDesignLink,
+  designPersonalization,
+  encodeDesignLink,
+  repairDesignConfig,
+  type DecodedDesignLink,
+  type DesignLink,
+} from "@shared/sharing"
+import { useLuxSole, type ShoeConfig } from "@/lib/stores/useLuxSole"
+import { productQueryKey, productsQueryKey } from "@/lib/products"
+import { getErrorMessage, queryClient } from "@/lib/queryClient"
+
+export interface LinkedDesign extends DecodedDesignLink {
+  name?: string // saved designs opened from a short link
+  url: string // the link the page was opened with
+  cardUrl: string // its Open Graph preview image
+}
+
+export function sharedDesignQueryKey(slug: string): [string] {
+  return [`/api/designs/${encodeURIComponent(slug)}/share`]
+}
+
+export function designLinkUrl(link: DesignLink): string {
+  const url = new URL("/", window.location.origin)
+  url.searchParams.set(DESIGN_LINK_PARAM, encodeDesignLink(link))
+  return url.toString()
+}
+
+export function shortLinkUrl(slug: string): string {
+  const url = new URL("/", window.location.origin)
+  url.searchParams.set(SHORT_LINK_PARAM, slug)
+  return url.toString()
+}
+
+// The preview card for a short link slug or an encoded design link
+export function designCardUrl(link: string): string {
+  return new URL(`/api/designs/${encodeURIComponent(link)}/og.png`, window.location.origin).toString()
+}
+
+// Copies a link, or shows it where the browser blocks the clipboard
+export async function copyLink(url: string) {
+  try {
+    await navigator.clipboard.writeText(url)
+    toast.success("Link copied")
+  } catch {
+    toast("Copy this link to share your design", { description: url })
+  }
+}
+
+function readLinkParams() {
+  const params = new URLSearchParams(window.location.search)
+  return { encoded: params.get(DESIGN_LINK_PARAM), slug: params.get(SHORT_LINK_PARAM) }
+}
+
+// Drops the link from the address bar so a reload doesn't open it again
+function clearLinkParams() {
+  const url = new URL(window.location.href)
+  url.searchParams.delete(DESIGN_LINK_PARAM)
+  url.searchParams.delete(SHORT_LINK_PARAM)
+  window.history.replaceState(window.history.state, "", url)
+}
+
+// The design the page was opened with, if any. Read once, when the
+// component mounts.
+export function useDesignLink(): { design?: LinkedDesign; error?: string } {
+  const [{ encoded, slug }] = React.useState(readLinkParams)
+  const { data: shared, error } = useQuery<SharedDesign>({
+    queryKey: sharedDesignQueryKey(slug ?? ""),
+    enabled: !!slug,
+  })
+
+  return React.useMemo(() => {
+    if (slug) {
+      if (error) return { error: getErrorMessage(error) }
+      if (!shared) return {}
+      // Saved before newer options existed, perhaps
+      const { config, repaired } = repairDesignConfig(shared.config)
+      return {
+        design: {
+          name: shared.name,
+          productId: shared.productId,
+          config,
+          repaired,
+          url: shortLinkUrl(slug),
+          cardUrl: designCardUrl(slug),
+        },
+      }
+    }
+    if (encoded) {
+      const design = decodeDesignLink(encoded)
+      if (!design) return { error: "This design link isn't valid" }
+
+      const url = new URL("/", window.location.origin)
+      url.searchParams.set(DESIGN_LINK_PARAM, encoded)
+      return { design: { ...design, url: url.toString(), cardUrl: designCardUrl(encoded) } }
+    }
+    return {}
+  }, [encoded, slug, shared, error])
+}
+
+// The catalog shoe to open a design on: the one it was made from, or else
+// any shoe of the same silhouette
+async function productForDesign({ productId, config }: DesignLink): Promise<Product | undefined> {
+  if (productId) {
+    const product = await queryClient
+      .fetchQuery<Product>({ queryKey: productQueryKey(productId) })
+      .catch(() => undefined)
+    if (product?.active) return product
+  }
+
+  const page = await queryClient
+    .fetchQuery<ProductPage>({ queryKey: productsQueryKey({ shoeType: config.shoeType, pageSize: 1 }) })
+    .catch(() => undefined)
+  return page?.items[0]
+}
+
+function shoeFromDesign(product: Product, { config }: DesignLink): ShoeConfig {
+  const personalization = designPersonalization(config)
+  return {
+    id: product.id,
+    name: product.name,
+    shoeType: product.shoeType,
+    baseColor: config.baseColor,
+    accentColor: config.accentColor,
+    material: config.material,
+    personalization,
+    partColors: config.partColors,
+    price: priceConfiguration(product.price, { material: config.material, personalization }).total,
+  }
+}
+
+// Opens the Customizer on the design in the page's link, and returns the
+// design for the page's meta tags
+export function useOpenDesignLink(): LinkedDesign | undefined {
+  const { design, error } = useDesignLink()
+  const setSelectedShoe = useLuxSole((state) => state.setSelectedShoe)
+  const setCustomizerOpen = useLuxSole((state) => state.setCustomizerOpen)
+  const handled = React.useRef(false)
+
+  React.useEffect(() => {
+    if (handled.current || (!design && !error)) return
+    handled.current = true
+    clearLinkParams()
+
+    if (!design) {
+      toast.error(error)
+      return
+    }
+    if (design.repaired) {
+      toast("Some options in this design are no longer available and were reset")
+    }
+
+    productForDesign(design).then((product) => {
+      if (!product) {
+        toast.error("The shoe in this design is no longer available")
+        return
+      }
+      setSelectedShoe(shoeFromDesign(product, design))
+      setCustomizerOpen(true)
+    })
+  }, [design, error, setSelectedShoe, setCustomizerOpen])
+
+  return design
+}
@@ -0,0 +1,149 @@
+import { useMutation, useQuery } from "@tanstack/react-query"
+import {
+  MAX_DESIGN_NAME_LENGTH,
+  type Design,
+  type InsertDesign,
+  type SharedDesign,
+  type UpdateDesign,
+} from "@shared/schema"
+import { useAuth, DESIGNS_QUERY_KEY } from "@/hooks/use-auth"
+import { apiRequest, queryClient } from "@/lib/queryClient"
+import { getLocalStorage, setLocalStorage } from "@/lib/utils"
+
+// Guests' designs never leave the browser
+const GUEST_DESIGNS_QUERY_KEY = ["guest-designs"]
+const GUEST_DESIGNS_KEY = "luxsole-guest-designs"
+
+// A design as the studio lists it, from the account or the browser.
+// Timestamps arrive as ISO strings.
+export type SavedDesign = Omit<Design, "userId" | "createdAt" | "updatedAt"> & {
+  createdAt: string
+  updatedAt: string
+}
+
+function readGuestDesigns(): SavedDesign[] {
+  return getLocalStorage(GUEST_DESIGNS_KEY) ?? []
+}
+
+// Applies a change to the guest's designs and returns the changed design
+function updateGuestDesigns(
+  change: (designs: SavedDesign[]) => { designs: SavedDesign[]; design?: SavedDesign },
+): SavedDesign | undefined {
+  const { designs, design } = change(readGuestDesigns())
+  setLocalStorage(GUEST_DESIGNS_KEY, designs)
+  return design
+}
+
+function newGuestDesign(designs: SavedDesign[], design: InsertDesign): SavedDesign {
+  const now = new Date().toISOString()
+  return {
+    ...design,
+    productId: design.productId ?? null,
+    shareSlug: null, // guests share by encoded link instead
+    id: designs.reduce((max, d) => Math.max(max, d.id), 0) + 1,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+function notFound(): never {
+  throw new Error("Design not found")
+}
+
+// Saved designs for the signed-in account, or the browser's for guests,
+// most recently changed first
+export function useDesigns() {
+  const { user } = useAuth()
+  const isGuest = !user
+  const queryKey = isGuest ? GUEST_DESIGNS_QUERY_KEY : DESIGNS_QUERY_KEY
+
+  const { data: designs = [], isLoading } = useQuery<SavedDesign[]>({
+    queryKey,
+    ...(isGuest && {
+      queryFn: async () =>
+        readGuestDesigns().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt) || b.id - a.id),
+    }),
+  })
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey })
+
+  const createMutation = useMutation({
+    mutationFn: async (design: InsertDesign): Promise<SavedDesign> => {
+      if (isGuest) {
+        return updateGuestDesigns((designs) => {
+          const created = newGuestDesign(designs, design)
+          return { designs: [...designs, created], design: created }
+        })!
+      }
+      const res = await apiRequest("POST", "/api/designs", design)
+      return res.json()
+    },
+    onSuccess,
+  })
+
+  // Renames a design or saves over it
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...changes }: UpdateDesign & { id: number }): Promise<SavedDesign> => {
+      if (isGuest) {
+        return updateGuestDesigns((designs) => {
+          const existing = designs.find((d) => d.id === id) ?? notFound()
+          const updated = { ...existing, ...changes, updatedAt: new Date().toISOString() }
+          return { designs: designs.map((d) => (d.id === id ? updated : d)), design: updated }
+        })!
+      }
+      const res = await apiRequest("PATCH", `/api/designs/${id}`, changes)
+      return res.json()
+    },
+    onSuccess,
+  })
+
+  const duplicateMutation = useMutation({
+    mutationFn: async (id: number): Promise<SavedDesign> => {
+      if (isGuest) {
+        return updateGuestDesigns((designs) => {
+          const { name, productId, config } = designs.find((d) => d.id === id) ?? notFound()
+          const copy = newGuestDesign(designs, {
+            name: `${name} (copy)`.slice(0, MAX_DESIGN_NAME_LENGTH),
+            productId,
+            config,
+          })
+          return { designs: [...designs, copy], design: copy }
+        })!
+      }
+      const res = await apiRequest("POST", `/api/designs/${id}/duplicate`)
+      return res.json()
+    },
+    onSuccess,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      if (isGuest) {
+        updateGuestDesigns((designs) => ({ designs: designs.filter((d) => d.id !== id) }))
+        return
+      }
+      await apiRequest("DELETE", `/api/designs/${id}`)
+    },
+    onSuccess,
+  })
+
+  // Short links are for account designs; guests share encoded links
+  const shareMutation = useMutation({
+    mutationFn: async (id: number): Promise<SharedDesign> => {
+      const res = await apiRequest("POST", `/api/designs/${id}/share`)
+      return res.json()
+    },
+    onSuccess,
+  })
+
+  return {
+    designs,
+    isLoading,
+    isGuest,
+    createMutation,
+    updateMutation,
+    duplicateMutation,
+    deleteMutation,
+    shareMutation,
+  }
+}
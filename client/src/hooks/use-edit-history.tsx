@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+// Edits with the same coalesce key that come closer together than this are
+// one step, so a color picker drag undoes in one go
+const COALESCE_MS = 1000
+const MAX_STEPS = 100
+
+export interface HistoryStep<T> {
+  label: string
+  before: T
+  after: T
+  key?: string // edits with the same key may merge into this step
+  at: number // when the step last changed
+}
+
+interface HistoryState<T> {
+  steps: HistoryStep<T>[]
+  index: number // how many steps are applied; the rest can be redone
+}
+
+export interface EditHistory<T> {
+  steps: HistoryStep<T>[]
+  index: number
+  canUndo: boolean
+  canRedo: boolean
+  edit: (label: string, change: Partial<T>, options?: { coalesce?: string }) => void
+  undo: () => void
+  redo: () => void
+  goTo: (index: number) => void
+  clear: () => void
+}
+
+// Typing in text fields keeps the browser's own undo
+function isTextField(target: EventTarget | null): boolean {
+  if (target instanceof HTMLTextAreaElement) return true
+  if (target instanceof HTMLInputElement) {
+    return !["button", "checkbox", "color", "radio", "range", "submit"].includes(target.type)
+  }
+  return target instanceof HTMLElement && target.isContentEditable
+}
+
+/**
+ * Undo/redo over a set of customization values. Every edit goes through
+ * edit(), which applies the change with restore() and records a labelled
+ * step; undo and redo restore the values on either side of a step.
+ * Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) work while enabled.
+ */
+export function useEditHistory<T extends object>(
+  current: T,
+  restore: (value: T) => void,
+  { enabled = true }: { enabled?: boolean } = {},
+): EditHistory<T> {
+  const [history, setHistory] = useState<HistoryState<T>>({ steps: [], index: 0 })
+
+  // Several edits can land before the next render (a picker drag), so the
+  // latest values and history are kept in refs as well
+  const historyRef = useRef(history)
+  const currentRef = useRef(current)
+  const restoreRef = useRef(restore)
+  const coalescingRef = useRef(false) // undo and redo end the current step
+  currentRef.current = current
+  restoreRef.current = restore
+
+  const update = useCallback((next: HistoryState<T>) => {
+    historyRef.current = next
+    setHistory(next)
+  }, [])
+
+  const apply = useCallback((value: T) => {
+    currentRef.current = value
+    restoreRef.current(value)
+  }, [])
+
+  const edit = useCallback(
+    (label: string, change: Partial<T>, { coalesce }: { coalesce?: string } = {}) => {
+      const before = currentRef.current
+      const after = { ...before, ...change }
+      if (JSON.stringify(after) === JSON.stringify(before)) return
+      apply(after)
+
+      const now = Date.now()
+      const { steps, index } = historyRef.current
+      const applied = steps.slice(0, index)
+      const last = applied[applied.length - 1]
+
+      if (coalesce && coalescingRef.current && last?.key === coalesce && now - last.at < COALESCE_MS) {
+        update({ steps: [...applied.slice(0, -1), { ...last, label, after, at: now }], index })
+      } else {
+        const kept = [...applied, { label, before, after, key: coalesce, at: now }].slice(-MAX_STEPS)
+        update({ steps: kept, index: kept.length })
+      }
+      coalescingRef.current = true
+    },
+    [apply, update],
+  )
+
+  const goTo = useCallback(
+    (target: number) => {
+      const { steps, index } = historyRef.current
+      if (target < 0 || target > steps.length || target === index) return
+      apply(target === 0 ? steps[0].before : steps[target - 1].after)
+      coalescingRef.current = false
+      update({ steps, index: target })
+    },
+    [apply, update],
+  )
+
+  const undo = useCallback(() => goTo(historyRef.current.index - 1), [goTo])
+  const redo = useCallback(() => goTo(historyRef.current.index + 1), [goTo])
+
+  const clear = useCallback(() => {
+    coalescingRef.current = false
+    update({ steps: [], index: 0 })
+  }, [update])
+
+  useEffect(() => {
+    if (!enabled) return
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== "z") return
+      if (isTextField(event.target)) return
+      event.preventDefault()
+      if (event.shiftKey) redo()
+      else undo()
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [enabled, undo, redo])
+
+  return {
+    steps: history.steps,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.steps.length,
+    edit,
+    undo,
+    redo,
+    goTo,
+    clear,
+  }
+}
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query"
+import { createFakeCardToken } from "@shared/fake-payments"
+
+export interface CardDetails {
+  number: string
+}
+
+// Turns card details into a one-time token in the browser, the way a
+// processor's own script does, so the card never reaches our server
+export type CardTokenizer = (card: CardDetails) => Promise<string>
+
+// One per provider in server/payments.ts
+const tokenizers: Record<string, CardTokenizer> = {
+  fake: async (card) => createFakeCardToken(card.number),
+}
+
+const unavailable: CardTokenizer = async () => {
+  throw new Error("Card payments aren't available right now")
+}
+
+// The tokenizer for the provider the server charges with; undefined until
+// that has loaded
+export function useCardTokenizer(): CardTokenizer | undefined {
+  const { data } = useQuery<{ provider: string }>({
+    queryKey: ["/api/payments/config"],
+    staleTime: Infinity,
+  })
+  return data ? tokenizers[data.provider] ?? unavailable : undefined
+}
@@ -0,0 +1,14 @@
+import { useLuxSole } from "@/lib/stores/useLuxSole"
+import { QUALITY_PROFILES, type QualityProfile, type QualityTier } from "@/lib/quality"
+
+// The tier canvases render at: the customer's choice, or in "auto" the one
+// the frame-time governor has settled on
+export function useQualityTier(): QualityTier {
+  return useLuxSole((state) =>
+    state.qualitySetting === "auto" ? state.measuredQuality : state.qualitySetting,
+  )
+}
+
+export function useRenderQuality(): QualityProfile {
+  return QUALITY_PROFILES[useQualityTier()]
+}
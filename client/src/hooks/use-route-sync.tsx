@@ -0,0 +1,58 @@
+import * as React from "react"
+import { useLocation } from "wouter"
+import { navigate, useHistoryState } from "wouter/use-browser-location"
+import { useLuxSole } from "@/lib/stores/useLuxSole"
+import { isOverlayPath, ROUTES, scrollToPage, viewForPath, type OverlayState } from "@/lib/routes"
+
+function openOverlay(state: { isCartOpen: boolean; isCheckoutOpen: boolean }): string | null {
+  if (state.isCheckoutOpen) return ROUTES.checkout
+  if (state.isCartOpen) return ROUTES.cart
+  return null
+}
+
+// Keeps the store's view in step with the URL, in both directions for the
+// cart and checkout, which the rest of the app still opens and closes
+// through the store. Returns the path of the page to show, which for the
+// cart and checkout is the page they were opened over.
+export function useRouteSync(): string {
+  const [location] = useLocation()
+  const background = useHistoryState<OverlayState | null>()?.background
+  const page = isOverlayPath(location) ? background ?? ROUTES.home : location
+
+  // URL → store, on every navigation including back and forward
+  React.useEffect(() => {
+    const { setCurrentView, setCartOpen, setCheckoutOpen } = useLuxSole.getState()
+    const view = viewForPath(location)
+    if (view) {
+      setCurrentView(view)
+    } else {
+      setCartOpen(false)
+      setCheckoutOpen(false)
+    }
+  }, [location])
+
+  // Store → URL, when the cart or checkout is opened or closed
+  React.useEffect(
+    () =>
+      useLuxSole.subscribe(openOverlay, (overlay) => {
+        const path = window.location.pathname
+        const current = isOverlayPath(path) ? path : null
+        if (overlay === current) return
+
+        const state: OverlayState | null = window.history.state
+        const behind = current ? state?.background ?? ROUTES.home : path
+        if (overlay) {
+          navigate(overlay, { state: { background: behind } satisfies OverlayState })
+        } else {
+          navigate(behind)
+        }
+      }),
+    [],
+  )
+
+  React.useEffect(() => {
+    scrollToPage(page)
+  }, [page])
+
+  return page
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query"
+import type { ShippingRateTable } from "@shared/shipping"
+
+export const SHIPPING_RATES_QUERY_KEY = ["/api/shipping/rates"]
+
+// The server's shipping and tax table; undefined until it has loaded
+export function useShippingRates(): ShippingRateTable | undefined {
+  const { data } = useQuery<ShippingRateTable>({ queryKey: SHIPPING_RATES_QUERY_KEY })
+  return data
+}
+
+// Every country with its own rates, named in the visitor's language
+export function shippingCountries(rates: ShippingRateTable): { code: string; name: string }[] {
+  const names = new Intl.DisplayNames(undefined, { type: "region" })
+  return rates.regions
+    .flatMap((region) => region.countries.filter((code) => code !== "*"))
+    .map((code) => ({ code, name: names.of(code) ?? code }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
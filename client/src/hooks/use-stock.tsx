@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query"
+import type { materialTypes } from "@shared/schema"
+import { findStockLevel, stockStatus, type ProductStock, type StockLevel, type StockStatus } from "@shared/inventory"
+import { productStockQueryKey } from "@/lib/products"
+
+// Tracked stock for a product; empty while loading or if nothing is tracked
+export function useProductStock(productId: string | undefined): StockLevel[] {
+  const { data } = useQuery<ProductStock>({
+    queryKey: productStockQueryKey(productId ?? ""),
+    enabled: !!productId,
+    staleTime: 30_000,
+  })
+  return data?.levels ?? []
+}
+
+export function stockBySize(
+  levels: readonly StockLevel[],
+  sizes: readonly string[],
+  material: (typeof materialTypes)[number],
+): Record<string, StockStatus> {
+  return Object.fromEntries(
+    sizes.map((size) => [size, stockStatus(findStockLevel(levels, size, material))]),
+  )
+}
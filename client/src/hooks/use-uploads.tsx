@@ -0,0 +1,51 @@
+import { useMutation, useQuery } from "@tanstack/react-query"
+import type { UploadInfo } from "@shared/schema"
+import { artworkUploadTypes, MAX_ARTWORK_BYTES, type ArtworkUploadType } from "@shared/artwork"
+import { useAuth, UPLOADS_QUERY_KEY } from "@/hooks/use-auth"
+import { queryClient } from "@/lib/queryClient"
+
+// Timestamps arrive as ISO strings
+export type ArtworkUpload = Omit<UploadInfo, "createdAt" | "reviewedAt"> & {
+  createdAt: string
+  reviewedAt: string | null
+}
+
+// Checked here too so a wrong file fails before it is sent
+function checkArtworkFile(file: File) {
+  if (!artworkUploadTypes.includes(file.type as ArtworkUploadType)) {
+    throw new Error("Upload a PNG or JPEG image")
+  }
+  if (file.size > MAX_ARTWORK_BYTES) {
+    throw new Error(`Images are up to ${MAX_ARTWORK_BYTES / (1024 * 1024)} MB`)
+  }
+}
+
+// The signed-in customer's artwork, newest first. Guests can't upload.
+export function useUploads() {
+  const { user } = useAuth()
+
+  const { data: uploads = [], isLoading } = useQuery<ArtworkUpload[]>({
+    queryKey: UPLOADS_QUERY_KEY,
+    enabled: !!user,
+  })
+
+  // The file is sent as-is; the server checks and re-encodes it
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File): Promise<ArtworkUpload> => {
+      checkArtworkFile(file)
+      const res = await fetch("/api/uploads", {
+        method: "POST",
+        headers: { "Content-Type": file.type },
+        body: file,
+        credentials: "include",
+      })
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`)
+      }
+      return res.json()
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: UPLOADS_QUERY_KEY }),
+  })
+
+  return { uploads, isLoading, canUpload: !!user, uploadMutation }
+}
@@ -0,0 +1,33 @@
+import type { ProductQuery } from "@shared/schema";
+
+export type ProductFilters = Partial<ProductQuery>;
+
+/**
+ * Query key for a catalog listing. getQueryFn fetches queryKey[0], so the
+ * filters are encoded into the URL itself.
+ */
+export function productsQueryKey(filters: ProductFilters = {}): [string] {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined) {
+      params.set(key, String(value));
+    }
+  });
+
+  const search = params.toString();
+  return [search ? `/api/products?${search}` : "/api/products"];
+}
+
+export function productQueryKey(id: string): [string] {
+  return [`/api/products/${encodeURIComponent(id)}`];
+}
+
+export function productStockQueryKey(id: string): [string] {
+  return [`/api/products/${encodeURIComponent(id)}/stock`];
+}
+
+// Stock changes whenever anyone's cart does, so these are refetched after
+// every cart update
+export function isStockQueryKey(queryKey: readonly unknown[]): boolean {
+  return typeof queryKey[0] === "string" && queryKey[0].endsWith("/stock");
+}
@@ -0,0 +1,60 @@
+// Rendering quality tiers, lowest first. In "auto" the app steps between
+// them as it measures frame times (see QualityMonitor); a setting of a tier
+// pins it there.
+export const qualityTiers = ["low", "medium", "high"] as const;
+export type QualityTier = (typeof qualityTiers)[number];
+export type QualitySetting = QualityTier | "auto";
+
+export interface QualityProfile {
+  dpr: [min: number, max: number];
+  shadows: boolean;
+  bloom: boolean;
+  advancedShaders: boolean;
+  particles: number; // share of each particle system's full count
+  lodDistances: [medium: number, low: number]; // camera distances where the shoe drops detail
+}
+
+export const QUALITY_PROFILES: Record<QualityTier, QualityProfile> = {
+  low: {
+    dpr: [1, 1],
+    shadows: false,
+    bloom: false,
+    advancedShaders: false,
+    particles: 0.25,
+    lodDistances: [2.5, 5],
+  },
+  medium: {
+    dpr: [1, 1.5],
+    shadows: true,
+    bloom: false,
+    advancedShaders: true,
+    particles: 0.5,
+    lodDistances: [4, 8],
+  },
+  high: {
+    dpr: [1, 2],
+    shadows: true,
+    bloom: true,
+    advancedShaders: true,
+    particles: 1,
+    lodDistances: [5, 10],
+  },
+};
+
+export const qualitySettingLabels: Record<QualitySetting, string> = {
+  auto: "Auto",
+  high: "High",
+  medium: "Balanced",
+  low: "Performance",
+};
+
+// The next tier up or down, staying at the ends
+export function stepTier(tier: QualityTier, direction: 1 | -1): QualityTier {
+  const index = qualityTiers.indexOf(tier) + direction;
+  return qualityTiers[Math.min(qualityTiers.length - 1, Math.max(0, index))];
+}
+
+// A canvas's own DPR cap, for views that never need the full tier's
+export function capDpr([min, max]: QualityProfile["dpr"], cap: number): QualityProfile["dpr"] {
+  return [Math.min(min, cap), Math.min(max, cap)];
+}
@@ -23,6 +23,21 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors read "<status>: <body>"; pull out the server's
+// { message } when there is one so it can be shown to the customer
+export function getErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return "Something went wrong";
+
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed?.message === "string") return parsed.message;
+  } catch {
+    // not JSON, fall through
+  }
+  return body;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -55,3 +70,15 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Query results embedded in a page the server rendered (see
+// server/prerender.ts), so the app starts from them instead of fetching
+// them again
+export function seedPrerenderedQueries() {
+  const script = document.getElementById("prerendered-data");
+  if (!script?.textContent) return;
+
+  const data: Record<string, unknown> = JSON.parse(script.textContent);
+  Object.entries(data).forEach(([key, value]) => queryClient.setQueryData<unknown>([key], value));
+  script.remove();
+}
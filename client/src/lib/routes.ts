@@ -0,0 +1,67 @@
+import type { AppView } from "@/lib/stores/useLuxSole";
+
+export const ROUTES = {
+  home: "/",
+  collection: "/collection",
+  story: "/story",
+  product: "/product/:id",
+  studio: "/studio",
+  // One route for both, so a design opened in the studio doesn't remount it
+  studioDesign: "/studio/:designId?",
+  cart: "/cart",
+  checkout: "/checkout",
+} as const;
+
+// The home page's sections each have a path of their own
+const SECTIONS: Record<string, string> = {
+  [ROUTES.home]: "hero",
+  [ROUTES.collection]: "gallery",
+  [ROUTES.story]: "story",
+};
+
+export const VIEW_PATHS: Partial<Record<AppView, string>> = {
+  hero: ROUTES.home,
+  gallery: ROUTES.collection,
+  story: ROUTES.story,
+  studio: ROUTES.studio,
+  cart: ROUTES.cart,
+  checkout: ROUTES.checkout,
+};
+
+// The cart and checkout open over the page they were opened from, which
+// the history entry keeps
+export interface OverlayState {
+  background?: string;
+}
+
+export function productPath(id: string): string {
+  return `/product/${encodeURIComponent(id)}`;
+}
+
+export function studioPath(designId?: number): string {
+  return designId ? `/studio/${designId}` : ROUTES.studio;
+}
+
+export function isOverlayPath(path: string): boolean {
+  return path === ROUTES.cart || path === ROUTES.checkout;
+}
+
+// undefined for paths the app doesn't know
+export function viewForPath(path: string): AppView | undefined {
+  const view = (Object.keys(VIEW_PATHS) as AppView[]).find((view) => VIEW_PATHS[view] === path);
+  if (view) return view;
+  if (/^\/product\/[^/]+$/.test(path)) return "product";
+  if (/^\/studio\/[^/]+$/.test(path)) return "studio";
+  return undefined;
+}
+
+// Home page sections scroll into view; other pages open at the top
+export function scrollToPage(path: string, behavior: ScrollBehavior = "smooth") {
+  const section = SECTIONS[path];
+  const element = section && section !== "hero" ? document.getElementById(section) : null;
+  if (element) {
+    element.scrollIntoView({ behavior });
+  } else {
+    window.scrollTo({ top: 0, behavior: section ? behavior : "auto" });
+  }
+}
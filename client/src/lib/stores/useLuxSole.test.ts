@@ -0,0 +1,134 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CartItem } from "./useLuxSole";
+
+const runner: Omit<CartItem, "lineKey"> = {
+  id: "luxsole-midnight-runner",
+  name: "Midnight Runner",
+  baseColor: "#072A1E",
+  accentColor: "#E1B75A",
+  material: "knit",
+  shoeType: "running",
+  price: 279,
+  size: "9",
+  width: "standard",
+  quantity: 2,
+};
+
+function saved(key: string) {
+  return JSON.parse(window.localStorage.getItem(key) ?? "null");
+}
+
+// The store reads what was saved as it is created, so each test gets a
+// fresh module after setting up localStorage
+async function loadStore() {
+  vi.resetModules();
+  return (await import("./useLuxSole")).useLuxSole;
+}
+
+beforeEach(() => {
+  window.localStorage.clear();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("useLuxSole persistence", () => {
+  it("imports a guest cart saved under the old key, giving its lines keys", async () => {
+    window.localStorage.setItem("luxsole-guest-cart", JSON.stringify([runner]));
+
+    const store = await loadStore();
+    const { toCartLineInput } = await import("./useLuxSole");
+    const { configurationKey } = await import("@shared/configuration");
+
+    expect(store.getState().cart).toEqual([{ ...runner, lineKey: configurationKey(toCartLineInput(runner)) }]);
+
+    store.getState().setSoundEnabled(false);
+    expect(window.localStorage.getItem("luxsole-guest-cart")).toBeNull();
+    expect(saved("luxsole-store")).toMatchObject({ version: 1, state: { cart: store.getState().cart } });
+  });
+
+  it("keeps preferences and the guest cart, but not dialogs or the account cart", async () => {
+    const store = await loadStore();
+    const line = { ...runner, lineKey: "line" };
+
+    store.setState({ cart: [line], environment: "dusk", isCartOpen: true });
+    expect(saved("luxsole-store").state).toMatchObject({ cart: [line], environment: "dusk" });
+    expect(saved("luxsole-store").state).not.toHaveProperty("isCartOpen");
+
+    store.setState({ isCartSynced: true });
+    expect(saved("luxsole-store").state.cart).toEqual([]);
+  });
+
+  it("keeps a signed-in tab's account cart when another tab saves", async () => {
+    const store = await loadStore();
+    const accountLine = { ...runner, lineKey: "account" };
+    store.setState({ cart: [accountLine], isCartSynced: true });
+
+    window.localStorage.setItem(
+      "luxsole-store",
+      JSON.stringify({ state: { cart: [{ ...runner, lineKey: "guest" }], environment: "runway" }, version: 1 }),
+    );
+    await store.persist.rehydrate();
+
+    expect(store.getState()).toMatchObject({ cart: [accountLine], environment: "runway" });
+  });
+
+  it("drops a save from a newer version of the app", async () => {
+    window.localStorage.setItem(
+      "luxsole-store",
+      JSON.stringify({ state: { cart: [{ ...runner, lineKey: "line" }], environment: "dusk" }, version: 2 }),
+    );
+
+    const store = await loadStore();
+
+    expect(store.getState()).toMatchObject({ cart: [], environment: "studio" });
+  });
+});
+
+describe("useLuxSole account cart", () => {
+  const first = { ...runner, lineKey: "first", quantity: 1 };
+  const second = { ...runner, lineKey: "second", size: "10", quantity: 1 };
+
+  // Answers each cart request with the given status and body, in order,
+  // after the given delay
+  function serve(...responses: [method: string, status: number, body: unknown, delay?: number][]) {
+    const requests: string[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (url, init) => {
+      requests.push(`${init?.method} ${url}`);
+      const [method, status, body, delay = 0] = responses.shift()!;
+      expect(init?.method).toBe(method);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+    });
+    return requests;
+  }
+
+  it("sends changes in order and keeps the later ones when an earlier one is rejected", async () => {
+    const store = await loadStore();
+    store.setState({ cart: [first, second], isCartSynced: true });
+    // Were the removal sent alongside, it would be answered first
+    const requests = serve(["PATCH", 409, { message: "Only 3 left" }, 50], ["DELETE", 200, [first]]);
+
+    store.getState().updateQuantity("first", 5);
+    store.getState().removeFromCart("second");
+
+    await vi.waitFor(() => expect(requests).toHaveLength(2));
+    expect(requests).toEqual(["PATCH /api/cart/items/first", "DELETE /api/cart/items/second"]);
+    await vi.waitFor(() => expect(store.getState().cart).toEqual([first]));
+    expect(store.getState().cartError).toBe("Only 3 left");
+  });
+
+  it("fetches the server's cart again when the last change is rejected", async () => {
+    const store = await loadStore();
+    store.setState({ cart: [first], isCartSynced: true });
+    const requests = serve(["PATCH", 409, { message: "Only 3 left" }], ["GET", 200, [{ ...first, quantity: 3 }]]);
+
+    store.getState().updateQuantity("first", 5);
+
+    await vi.waitFor(() => expect(store.getState().cart).toEqual([{ ...first, quantity: 3 }]));
+    expect(requests).toEqual(["PATCH /api/cart/items/first", "GET /api/cart"]);
+    expect(store.getState().cartError).toBe("Only 3 left");
+  });
+});
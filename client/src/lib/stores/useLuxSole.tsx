@@ -1,10 +1,19 @@
 import { create } from "zustand";
-import { subscribeWithSelector } from "zustand/middleware";
+import { persist, subscribeWithSelector, type PersistStorage } from "zustand/middleware";
+import type { AppliedPromotion, SavedCartLine, materialTypes, shoeTypes } from "@shared/schema";
+import type { PricedLine } from "@shared/pricing";
+import type { PartColors } from "@shared/parts";
+import { configurationKey } from "@shared/configuration";
+import { DEFAULT_WIDTH, isUsSize, type ShoeWidth, type UsSize } from "@shared/sizing";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import { isStockQueryKey } from "@/lib/products";
+import { stepTier, type QualitySetting, type QualityTier } from "@/lib/quality";
+import { getLocalStorage, setLocalStorage } from "@/lib/utils";
 
-export type AppView = "hero" | "gallery" | "story" | "cart";
+export type AppView = "hero" | "gallery" | "story" | "product" | "studio" | "cart" | "checkout";
 export type Environment = "studio" | "runway" | "dusk";
-export type MaterialType = "leather" | "nubuck" | "glint" | "knit";
-export type ShoeType = "high-top" | "low-top" | "running";
+export type MaterialType = (typeof materialTypes)[number];
+export type ShoeType = (typeof shoeTypes)[number];
 
 export interface ShoeConfig {
   id: string;
@@ -14,15 +23,20 @@ export interface ShoeConfig {
   material: MaterialType;
   shoeType: ShoeType;
   price: number;
+  size?: string | null; // US size
+  width?: ShoeWidth | null;
+  personalization?: Record<string, string> | null;
+  partColors?: PartColors | null; // zones recolored on their own
 }
 
 export interface CartItem extends ShoeConfig {
+  lineKey: string; // configurationKey() of the design; one line per distinct design
   quantity: number;
 }
 
 interface LuxSoleState {
   // App state
-  currentView: AppView;
+  currentView: AppView; // follows the URL; see useRouteSync
   isLoading: boolean;
   loadProgress: number;
   isCustomizerOpen: boolean;
@@ -34,16 +48,30 @@ interface LuxSoleState {
   customMaterial: MaterialType;
   customBaseColor: string;
   customAccentColor: string;
+  customPartColors: PartColors;
+  customSize: UsSize | null; // the customer's size, kept across products
+  customWidth: ShoeWidth;
+  editingLineKey: string | null; // cart line being re-customized, if any
   
   // Cart state
   cart: CartItem[];
   isCartOpen: boolean;
+  isCheckoutOpen: boolean;
+  isCartSynced: boolean; // true while the cart mirrors the signed-in account's
+  cartError: string | null;
+  promotion: AppliedPromotion | null; // applied promo code, re-checked at checkout
+  shippingCountry: string | null; // for shipping and tax estimates; null until chosen
+  
+  // Account state
+  isAuthOpen: boolean;
+  isOrdersOpen: boolean;
   
   // Camera state
   isCameraAnimating: boolean;
   
-  // Advanced rendering settings
-  useAdvancedShaders: boolean;
+  // Rendering settings
+  qualitySetting: QualitySetting;
+  measuredQuality: QualityTier; // where the governor has settled, for "auto"; per visit
   soundEnabled: boolean;
   
   // Actions
@@ -57,75 +85,160 @@ interface LuxSoleState {
   setCustomMaterial: (material: MaterialType) => void;
   setCustomBaseColor: (color: string) => void;
   setCustomAccentColor: (color: string) => void;
+  setCustomPartColors: (partColors: PartColors) => void;
+  setCustomSize: (size: UsSize | null) => void;
+  setCustomWidth: (width: ShoeWidth) => void;
   addToCart: (shoe: ShoeConfig) => void;
-  removeFromCart: (id: string) => void;
-  updateQuantity: (id: string, quantity: number) => void;
+  removeFromCart: (lineKey: string) => void;
+  updateQuantity: (lineKey: string, quantity: number) => void;
+  editCartLine: (lineKey: string) => void;
+  replaceCartLine: (lineKey: string, shoe: ShoeConfig) => void;
+  clearCart: () => void;
+  setPromotion: (promotion: AppliedPromotion | null) => void;
+  setShippingCountry: (country: string) => void;
+  attachAccountCart: () => Promise<void>;
+  detachAccountCart: () => void;
   setCartOpen: (open: boolean) => void;
+  setCheckoutOpen: (open: boolean) => void;
+  setAuthOpen: (open: boolean) => void;
+  setOrdersOpen: (open: boolean) => void;
   setCameraAnimating: (animating: boolean) => void;
-  setUseAdvancedShaders: (enabled: boolean) => void;
+  setQualitySetting: (setting: QualitySetting) => void;
+  stepQuality: (direction: 1 | -1) => void;
   setSoundEnabled: (enabled: boolean) => void;
 }
 
-// Default shoe configurations
-export const DEFAULT_SHOES: ShoeConfig[] = [
-  {
-    id: "luxsole-emerald-runner",
-    name: "Emerald Runner",
-    baseColor: "#1FA07A",
-    accentColor: "#E1B75A",
-    material: "leather",
-    shoeType: "running",
-    price: 299,
-  },
-  {
-    id: "luxsole-forest-elite",
-    name: "Forest Elite",
-    baseColor: "#0F3F2B",
-    accentColor: "#1FA07A",
-    material: "nubuck",
-    shoeType: "low-top",
-    price: 349,
-  },
-  {
-    id: "luxsole-gold-prestige",
-    name: "Gold Prestige",
-    baseColor: "#E1B75A",
-    accentColor: "#072A1E",
-    material: "glint",
-    shoeType: "high-top",
-    price: 399,
-  },
-  {
-    id: "luxsole-midnight-runner",
-    name: "Midnight Runner",
-    baseColor: "#072A1E",
-    accentColor: "#E1B75A",
-    material: "knit",
-    shoeType: "running",
-    price: 279,
-  },
-  {
-    id: "luxsole-forest-hightop",
-    name: "Forest High-Top",
-    baseColor: "#072A1E",
-    accentColor: "#1FA07A",
-    material: "leather",
-    shoeType: "high-top",
-    price: 379,
+const STORE_KEY = "luxsole-store";
+// Before the store was persisted, only a guest's cart was saved, under a
+// key of its own
+const LEGACY_CART_KEY = "luxsole-guest-cart";
+
+export function toCartLineInput(item: ShoeConfig, quantity = 1): SavedCartLine {
+  return {
+    productId: item.id,
+    baseColor: item.baseColor,
+    accentColor: item.accentColor,
+    material: item.material,
+    shoeType: item.shoeType,
+    size: item.size,
+    width: item.width,
+    personalization: item.personalization,
+    partColors: item.partColors,
+    quantity,
+  };
+}
+
+export function toPricedLine(item: CartItem): PricedLine {
+  return {
+    shoeType: item.shoeType,
+    unitPrice: item.price,
+    quantity: item.quantity,
+    personalization: item.personalization,
+  };
+}
+
+// True for lines saved before a size was required; they can't be ordered
+// until the customer picks one
+export function needsSize(item: ShoeConfig): boolean {
+  return !item.size || !isUsSize(item.size);
+}
+
+function lineKeyOf(item: ShoeConfig): string {
+  return configurationKey(toCartLineInput(item));
+}
+
+// What is kept across visits: preferences, the guest's cart and the last
+// customization. Nothing about dialogs, loading or the signed-in session.
+type PersistedState = Pick<
+  LuxSoleState,
+  | "environment"
+  | "soundEnabled"
+  | "qualitySetting"
+  | "cart"
+  | "promotion"
+  | "shippingCountry"
+  | "selectedShoe"
+  | "customMaterial"
+  | "customBaseColor"
+  | "customAccentColor"
+  | "customPartColors"
+  | "customSize"
+  | "customWidth"
+>;
+
+// Bump with a migration whenever PersistedState changes shape
+const STORE_VERSION = 1;
+
+// Version 0 is the guest cart saved on its own, before the store was
+// persisted; its lines didn't have keys yet
+type LegacyCart = { cart?: (Omit<CartItem, "lineKey"> & { lineKey?: string })[] };
+
+function importLegacyCart(state: LegacyCart): Partial<PersistedState> {
+  return {
+    cart: (state.cart ?? []).map((item) => ({ ...item, lineKey: item.lineKey ?? lineKeyOf(item) })),
+  };
+}
+
+// Every canvas on a page runs its own monitor, and they all see the same
+// frame rate, so a change only counts once the last one has settled
+const QUALITY_STEP_INTERVAL = 3000; // ms
+let lastQualityStep = -Infinity;
+
+// localStorage, reading a guest cart saved before the store was persisted
+// as version 0 and dropping it once the store has been saved
+const storeStorage: PersistStorage<PersistedState> = {
+  getItem: (name) => {
+    const saved = getLocalStorage(name);
+    if (saved) return saved;
+    const legacyCart = getLocalStorage(LEGACY_CART_KEY);
+    return legacyCart ? { state: { cart: legacyCart }, version: 0 } : null;
   },
-  {
-    id: "luxsole-gold-lowtop",
-    name: "Gold Classic",
-    baseColor: "#E1B75A",
-    accentColor: "#0F3F2B",
-    material: "nubuck",
-    shoeType: "low-top",
-    price: 329,
+  setItem: (name, value) => {
+    setLocalStorage(name, value);
+    window.localStorage.removeItem(LEGACY_CART_KEY);
   },
-];
+  removeItem: (name) => window.localStorage.removeItem(name),
+};
+
+// Cart changes are applied locally first and then replayed on the server,
+// one request at a time so they land in the order they were made. The
+// server's cart is only taken once nothing else is queued; an earlier answer
+// would undo the edits still waiting. After a failure the server's cart is
+// fetched again, since restoring an older copy would drop those edits too.
+let cartQueue = Promise.resolve();
+let queuedCartRequests = 0;
+let cartRequestFailed = false; // since the queue was last empty
+
+function syncCart(request: () => Promise<Response>) {
+  queuedCartRequests += 1;
+  cartQueue = cartQueue.then(async () => {
+    let cart: CartItem[] | undefined;
+    try {
+      cart = await (await request()).json();
+    } catch (error) {
+      cartRequestFailed = true;
+      useLuxSole.setState({ cartError: getErrorMessage(error) });
+    }
+
+    queuedCartRequests -= 1;
+    if (queuedCartRequests > 0) return;
+    const failed = cartRequestFailed;
+    cartRequestFailed = false;
+    try {
+      cart ??= await (await apiRequest("GET", "/api/cart")).json();
+      // Signed out while the requests were on their way
+      if (!useLuxSole.getState().isCartSynced) return;
+      useLuxSole.setState(failed ? { cart } : { cart, cartError: null });
+    } catch {
+      // The server can't be reached; the failed change's error stays up
+    } finally {
+      queryClient.invalidateQueries({ predicate: (query) => isStockQueryKey(query.queryKey) });
+    }
+  });
+}
 
 export const useLuxSole = create<LuxSoleState>()(
-  subscribeWithSelector((set, get) => ({
+  subscribeWithSelector(persist((set, get) => ({
     // Initial state
     currentView: "hero",
     isLoading: true,
@@ -133,24 +246,39 @@ export const useLuxSole = create<LuxSoleState>()(
     isCustomizerOpen: false,
     isDemoMode: false,
     environment: "studio",
-    selectedShoe: DEFAULT_SHOES[0],
+    selectedShoe: null,
     customMaterial: "leather",
     customBaseColor: "#1FA07A",
     customAccentColor: "#E1B75A",
+    customPartColors: {},
+    customSize: null,
+    customWidth: DEFAULT_WIDTH,
+    editingLineKey: null,
     cart: [],
     isCartOpen: false,
+    isCheckoutOpen: false,
+    isCartSynced: false,
+    cartError: null,
+    promotion: null,
+    shippingCountry: null,
+    isAuthOpen: false,
+    isOrdersOpen: false,
     isCameraAnimating: false,
-    useAdvancedShaders: true,
+    qualitySetting: "auto",
+    measuredQuality: "high",
     soundEnabled: false, // Muted by default
     
     // Actions
-    setCurrentView: (view) => set({ currentView: view }),
+    // The cart and checkout are views of their own, shown over a page
+    setCurrentView: (view) =>
+      set({ currentView: view, isCartOpen: view === "cart", isCheckoutOpen: view === "checkout" }),
     
     setLoading: (loading) => set({ isLoading: loading }),
     
     setLoadProgress: (progress) => set({ loadProgress: Math.min(100, Math.max(0, progress)) }),
     
-    setCustomizerOpen: (open) => set({ isCustomizerOpen: open }),
+    setCustomizerOpen: (open) =>
+      set(open ? { isCustomizerOpen: true } : { isCustomizerOpen: false, editingLineKey: null }),
     
     setDemoMode: (enabled) => set({ isDemoMode: enabled }),
     
@@ -163,6 +291,9 @@ export const useLuxSole = create<LuxSoleState>()(
           customMaterial: shoe.material,
           customBaseColor: shoe.baseColor,
           customAccentColor: shoe.accentColor,
+          customPartColors: shoe.partColors ?? {},
+          ...(shoe.size && isUsSize(shoe.size) ? { customSize: shoe.size } : {}),
+          ...(shoe.width ? { customWidth: shoe.width } : {}),
         });
       } else {
         set({ selectedShoe: shoe });
@@ -175,51 +306,212 @@ export const useLuxSole = create<LuxSoleState>()(
     
     setCustomAccentColor: (color) => set({ customAccentColor: color }),
     
+    setCustomPartColors: (partColors) => set({ customPartColors: partColors }),
+    
+    setCustomSize: (size) => set({ customSize: size }),
+    
+    setCustomWidth: (width) => set({ customWidth: width }),
+    
     addToCart: (shoe) => {
-      const { cart } = get();
-      const existingItem = cart.find((item) => item.id === shoe.id);
+      const { cart, isCartSynced } = get();
+      const lineKey = lineKeyOf(shoe);
+      const existingItem = cart.find((item) => item.lineKey === lineKey);
       
       if (existingItem) {
         set({
           cart: cart.map((item) =>
-            item.id === shoe.id
+            item.lineKey === lineKey
               ? { ...item, quantity: item.quantity + 1 }
               : item
           ),
         });
       } else {
         set({
-          cart: [...cart, { ...shoe, quantity: 1 }],
+          cart: [...cart, { ...shoe, lineKey, quantity: 1 }],
         });
       }
+      
+      if (isCartSynced) {
+        syncCart(() => apiRequest("POST", "/api/cart/items", toCartLineInput(shoe)));
+      }
     },
     
-    removeFromCart: (id) => {
-      const { cart } = get();
+    removeFromCart: (lineKey) => {
+      const { cart, isCartSynced } = get();
       set({
-        cart: cart.filter((item) => item.id !== id),
+        cart: cart.filter((item) => item.lineKey !== lineKey),
       });
+      
+      if (isCartSynced) {
+        syncCart(() => apiRequest("DELETE", `/api/cart/items/${encodeURIComponent(lineKey)}`));
+      }
     },
     
-    updateQuantity: (id, quantity) => {
-      const { cart } = get();
+    updateQuantity: (lineKey, quantity) => {
+      const { cart, isCartSynced } = get();
       if (quantity <= 0) {
-        get().removeFromCart(id);
+        get().removeFromCart(lineKey);
       } else {
         set({
           cart: cart.map((item) =>
-            item.id === id ? { ...item, quantity } : item
+            item.lineKey === lineKey ? { ...item, quantity } : item
           ),
         });
+        
+        if (isCartSynced) {
+          syncCart(() =>
+            apiRequest("PATCH", `/api/cart/items/${encodeURIComponent(lineKey)}`, { quantity })
+          );
+        }
       }
     },
     
+    // Reopens the customizer pre-filled with a cart line's design
+    editCartLine: (lineKey) => {
+      const item = get().cart.find((i) => i.lineKey === lineKey);
+      if (!item) return;
+      
+      const { lineKey: _lineKey, quantity: _quantity, ...shoe } = item;
+      set({
+        selectedShoe: shoe,
+        customMaterial: shoe.material,
+        customBaseColor: shoe.baseColor,
+        customAccentColor: shoe.accentColor,
+        customPartColors: shoe.partColors ?? {},
+        // Lines saved before sizes were required come back without one
+        customSize: shoe.size && isUsSize(shoe.size) ? shoe.size : null,
+        customWidth: shoe.width ?? DEFAULT_WIDTH,
+        editingLineKey: lineKey,
+        isCartOpen: false,
+        isCustomizerOpen: true,
+      });
+    },
+    
+    // Saves an edited design over its line; if the edit now matches another
+    // line, the two are combined
+    replaceCartLine: (lineKey, shoe) => {
+      const { cart, isCartSynced } = get();
+      const original = cart.find((item) => item.lineKey === lineKey);
+      if (!original) return;
+      
+      const newKey = lineKeyOf(shoe);
+      const duplicate = cart.find((item) => item.lineKey === newKey && item.lineKey !== lineKey);
+      const edited: CartItem = { ...shoe, lineKey: newKey, quantity: original.quantity };
+      
+      set({
+        cart: duplicate
+          ? cart
+              .filter((item) => item.lineKey !== lineKey)
+              .map((item) =>
+                item.lineKey === newKey
+                  ? { ...item, quantity: item.quantity + original.quantity }
+                  : item
+              )
+          : cart.map((item) => (item.lineKey === lineKey ? edited : item)),
+      });
+      
+      if (isCartSynced) {
+        syncCart(() =>
+          apiRequest(
+            "PUT",
+            `/api/cart/items/${encodeURIComponent(lineKey)}`,
+            toCartLineInput(shoe, original.quantity)
+          )
+        );
+      }
+    },
+    
+    clearCart: () => {
+      set({ cart: [], promotion: null });
+      
+      if (get().isCartSynced) {
+        syncCart(() => apiRequest("DELETE", "/api/cart"));
+      }
+    },
+    
+    setPromotion: (promotion) => set({ promotion }),
+    
+    setShippingCountry: (country) => set({ shippingCountry: country.toUpperCase() }),
+    
+    // On sign-in the guest cart is folded into the account cart
+    attachAccountCart: async () => {
+      const guestCart = get().cart;
+      try {
+        const res = await apiRequest("POST", "/api/cart/merge", {
+          items: guestCart.map((item) => toCartLineInput(item, item.quantity)),
+        });
+        set({ cart: await res.json(), isCartSynced: true, cartError: null });
+      } catch (error) {
+        set({ cartError: getErrorMessage(error) });
+      }
+    },
+    
+    // After sign-out the account cart stays with the account, not the device
+    detachAccountCart: () => {
+      if (!get().isCartSynced) return;
+      set({ cart: [], isCartSynced: false, cartError: null });
+    },
+    
     setCartOpen: (open) => set({ isCartOpen: open }),
     
+    setCheckoutOpen: (open) => set(open ? { isCheckoutOpen: true, isCartOpen: false } : { isCheckoutOpen: false }),
+    
+    setAuthOpen: (open) => set({ isAuthOpen: open }),
+    
+    setOrdersOpen: (open) => set({ isOrdersOpen: open }),
+    
     setCameraAnimating: (animating) => set({ isCameraAnimating: animating }),
     
-    setUseAdvancedShaders: (enabled) => set({ useAdvancedShaders: enabled }),
+    setQualitySetting: (setting) => set({ qualitySetting: setting }),
+    
+    stepQuality: (direction) => {
+      const now = performance.now();
+      if (now - lastQualityStep < QUALITY_STEP_INTERVAL) return;
+      
+      const measuredQuality = stepTier(get().measuredQuality, direction);
+      if (measuredQuality === get().measuredQuality) return;
+      lastQualityStep = now;
+      set({ measuredQuality });
+    },
     
     setSoundEnabled: (enabled) => set({ soundEnabled: enabled }),
+  }), {
+    name: STORE_KEY,
+    version: STORE_VERSION,
+    storage: storeStorage,
+    partialize: (state): PersistedState => ({
+      environment: state.environment,
+      soundEnabled: state.soundEnabled,
+      qualitySetting: state.qualitySetting,
+      // An account's cart is kept on the server, not the device
+      cart: state.isCartSynced ? [] : state.cart,
+      promotion: state.promotion,
+      shippingCountry: state.shippingCountry,
+      selectedShoe: state.selectedShoe,
+      customMaterial: state.customMaterial,
+      customBaseColor: state.customBaseColor,
+      customAccentColor: state.customAccentColor,
+      customPartColors: state.customPartColors,
+      customSize: state.customSize,
+      customWidth: state.customWidth,
+    }),
+    // Only the legacy cart is carried over; anything saved by a newer
+    // version of the app than this tab's is dropped rather than misread
+    migrate: (persisted, version) =>
+      (version === 0 ? importLegacyCart(persisted as LegacyCart) : {}) as PersistedState,
+    merge: (persisted, current) => ({
+      ...current,
+      ...(persisted as Partial<PersistedState>),
+      // A signed-in tab keeps its account cart when another tab saves
+      ...(current.isCartSynced && { cart: current.cart }),
+    }),
   }))
 );
+
+// Other tabs' changes arrive through the storage event, which only fires
+// in the tabs that didn't make them
+window.addEventListener("storage", (event) => {
+  if (event.key === STORE_KEY && event.storageArea === window.localStorage) {
+    useLuxSole.persist.rehydrate();
+  }
+});
@@ -1,5 +1,20 @@
 import { createRoot } from "react-dom/client";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { HelmetProvider } from "react-helmet-async";
 import App from "./App";
+import { queryClient, seedPrerenderedQueries } from "./lib/queryClient";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Product and collection pages arrive with markup rendered on the server
+// for crawlers and link previews. It isn't React's markup, so it is removed
+// rather than hydrated; the app starts from the data it was rendered with.
+seedPrerenderedQueries();
+document.getElementById("prerendered")?.remove();
+
+createRoot(document.getElementById("root")!).render(
+  <QueryClientProvider client={queryClient}>
+    <HelmetProvider>
+      <App />
+    </HelmetProvider>
+  </QueryClientProvider>
+);
@@ -1,114 +1,133 @@
 /**
- * Simple White Shoe Model Component
- * 
- * Just loads and displays the shoe-draco.glb model in white
+ * Draco Shoe Model Component
+ *
+ * Loads the shoe-draco.glb model, whose eight materials are the zones a
+ * customer can recolor. Zones without a color of their own follow the base
+ * and accent colors (see shared/parts.ts).
+ *
+ * With onSelectPart, zones highlight on hover and are selected on click.
  */
 
-import { forwardRef } from "react";
+import { forwardRef, useEffect, useMemo, useState } from "react";
 import { useGLTF } from "@react-three/drei";
+import type { ThreeEvent } from "@react-three/fiber";
+import * as THREE from "three";
+import { resolvePartColors, shoeParts, type PartColors, type ShoePart } from "@shared/parts";
 
 interface ShoeDracoModelProps {
   scale?: number;
+  baseColor?: string;
+  accentColor?: string;
+  partColors?: PartColors | null;
+  selectedPart?: ShoePart | null;
+  onSelectPart?: (part: ShoePart | null) => void;
 }
 
+// Node of each zone in the GLB, and how its surface catches the light
+const PART_MESHES: Record<ShoePart, { node: string; roughness: number; metalness: number; glow: number }> = {
+  laces: { node: "shoe", roughness: 0.3, metalness: 0.1, glow: 0 },
+  mesh: { node: "shoe_1", roughness: 0.4, metalness: 0, glow: 0 },
+  caps: { node: "shoe_2", roughness: 0.3, metalness: 0, glow: 0 },
+  inner: { node: "shoe_3", roughness: 0.5, metalness: 0, glow: 0 },
+  sole: { node: "shoe_4", roughness: 0.7, metalness: 0, glow: 0 },
+  // Stripes and patch are metallic and glow faintly in their own color
+  stripes: { node: "shoe_5", roughness: 0.2, metalness: 0.8, glow: 0.3 },
+  band: { node: "shoe_6", roughness: 0.4, metalness: 0, glow: 0 },
+  patch: { node: "shoe_7", roughness: 0.1, metalness: 0.9, glow: 0.4 },
+};
+
+const HOVER_GLOW = 0.25;
+const SELECTED_GLOW = 0.4;
+const HIGHLIGHT_COLOR = "#ffffff";
+
 const ShoeDracoModel = forwardRef<THREE.Group, ShoeDracoModelProps>(({
   scale = 1,
+  baseColor = "#6b7280",
+  accentColor = "#E1B75A",
+  partColors,
+  selectedPart = null,
+  onSelectPart,
 }, ref) => {
   const { nodes, materials } = useGLTF("/shoe-draco.glb");
+  const [hoveredPart, setHoveredPart] = useState<ShoePart | null>(null);
+  const pickable = !!onSelectPart;
+  const colors = resolvePartColors({ baseColor, accentColor, partColors });
+
+  // The GLTF cache shares materials between every instance of the model, so
+  // each instance colors its own copies
+  const partMaterials = useMemo(() => {
+    const copies = {} as Record<ShoePart, THREE.MeshStandardMaterial>;
+    for (const part of shoeParts) {
+      copies[part] = (materials[part] as THREE.MeshStandardMaterial).clone();
+    }
+    return copies;
+  }, [materials]);
+
+  useEffect(() => () => Object.values(partMaterials).forEach((material) => material.dispose()), [partMaterials]);
+
+  useEffect(() => {
+    for (const part of shoeParts) {
+      const { roughness, metalness, glow } = PART_MESHES[part];
+      const material = partMaterials[part];
+      const highlight = part === selectedPart ? SELECTED_GLOW : part === hoveredPart ? HOVER_GLOW : 0;
+
+      material.color.set(colors[part]);
+      material.roughness = roughness;
+      material.metalness = metalness;
+      if (highlight > 0) {
+        material.emissive.set(HIGHLIGHT_COLOR);
+        material.emissiveIntensity = highlight;
+      } else {
+        material.emissive.set(glow > 0 ? colors[part] : "#000000");
+        material.emissiveIntensity = glow;
+      }
+    }
+  });
+
+  useEffect(() => {
+    if (!pickable) return;
+    document.body.style.cursor = hoveredPart ? "pointer" : "auto";
+  }, [pickable, hoveredPart]);
+
+  // Reset the cursor if the model goes away mid-hover
+  useEffect(() => {
+    if (!pickable) return;
+    return () => {
+      document.body.style.cursor = "auto";
+    };
+  }, [pickable]);
+
+  const partOf = (event: ThreeEvent<PointerEvent | MouseEvent>) =>
+    shoeParts.find((part) => part === event.object.name);
 
   return (
-    <group ref={ref} scale={scale} dispose={null}>
-      {/* Laces - Soft charcoal that complements green */}
-      <mesh
-        geometry={(nodes as any).shoe?.geometry}
-        material={materials.laces}
-        material-color="#374151"
-        material-emissive="#000000"
-        material-emissiveIntensity={0.05}
-        material-roughness={0.3}
-        material-metalness={0.1}
-      />
-      
-      {/* Main upper mesh - Light gray-blue that complements green */}
-      <mesh
-        geometry={(nodes as any).shoe_1?.geometry}
-        material={materials.mesh}
-        material-color="#6b7280"
-        material-emissive="#000000"
-        material-emissiveIntensity={0.02}
-        material-roughness={0.4}
-        material-metalness={0.0}
-        material-clearcoat={0.3}
-        material-clearcoatRoughness={0.2}
-      />
-      
-      {/* Caps/Toe cap - Matching light gray-blue */}
-      <mesh
-        geometry={(nodes as any).shoe_2?.geometry}
-        material={materials.caps}
-        material-color="#6b7280"
-        material-emissive="#000000"
-        material-emissiveIntensity={0.02}
-        material-roughness={0.3}
-        material-metalness={0.0}
-      />
-      
-      {/* Inner lining - Soft gray */}
-      <mesh
-        geometry={(nodes as any).shoe_3?.geometry}
-        material={materials.inner}
-        material-color="#9ca3af"
-        material-emissive="#000000"
-        material-emissiveIntensity={0.01}
-        material-roughness={0.5}
-        material-metalness={0.0}
-      />
-      
-      {/* Sole - Warm white that complements green theme */}
-      <mesh
-        geometry={(nodes as any).shoe_4?.geometry}
-        material={materials.sole}
-        material-color="#f7f7f7"
-        material-emissive="#000000"
-        material-emissiveIntensity={0.0}
-        material-roughness={0.7}
-        material-metalness={0.0}
-      />
-      
-      {/* Stripes - LuxSole gold with metallic finish */}
-      <mesh
-        geometry={(nodes as any).shoe_5?.geometry}
-        material={materials.stripes}
-        material-color="#E1B75A"
-        material-emissive="#E1B75A"
-        material-emissiveIntensity={0.3}
-        material-roughness={0.2}
-        material-metalness={0.8}
-      />
-      
-      {/* Band - Matching light gray-blue */}
-      <mesh
-        geometry={(nodes as any).shoe_6?.geometry}
-        material={materials.band}
-        material-color="#6b7280"
-        material-emissive="#000000"
-        material-emissiveIntensity={0.02}
-        material-roughness={0.4}
-        material-metalness={0.0}
-        material-clearcoat={0.3}
-        material-clearcoatRoughness={0.2}
-      />
-      
-      {/* Patch/Logo - LuxSole gold with high shine */}
-      <mesh
-        geometry={(nodes as any).shoe_7?.geometry}
-        material={materials.patch}
-        material-color="#E1B75A"
-        material-emissive="#E1B75A"
-        material-emissiveIntensity={0.4}
-        material-roughness={0.1}
-        material-metalness={0.9}
-      />
+    <group
+      ref={ref}
+      scale={scale}
+      dispose={null}
+      {...(pickable && {
+        onPointerOver: (e: ThreeEvent<PointerEvent>) => {
+          e.stopPropagation();
+          setHoveredPart(partOf(e) ?? null);
+        },
+        onPointerOut: (e: ThreeEvent<PointerEvent>) => {
+          if (e.intersections.length === 0) setHoveredPart(null);
+        },
+        onClick: (e: ThreeEvent<MouseEvent>) => {
+          e.stopPropagation();
+          onSelectPart(partOf(e) ?? null);
+        },
+        onPointerMissed: () => onSelectPart(null),
+      })}
+    >
+      {shoeParts.map((part) => (
+        <mesh
+          key={part}
+          name={part}
+          geometry={(nodes[PART_MESHES[part].node] as THREE.Mesh | undefined)?.geometry}
+          material={partMaterials[part]}
+        />
+      ))}
     </group>
   );
 });
@@ -116,4 +135,3 @@ const ShoeDracoModel = forwardRef<THREE.Group, ShoeDracoModelProps>(({
 ShoeDracoModel.displayName = "ShoeDracoModel";
 
 export default ShoeDracoModel;
-
@@ -9,7 +9,7 @@
  * - low-top: Classic sneaker profile  
  * - running: Streamlined athletic design
  * 
- * LOD LEVELS:
+ * LOD LEVELS (default distances; lower quality tiers move them closer):
  * - LOD 0 (High): Full detail for close viewing (< 5 units)
  * - LOD 1 (Medium): Reduced detail for medium distance (5-10 units)
  * - LOD 2 (Low): Simplified geometry for far viewing (> 10 units)
@@ -29,7 +29,26 @@ import * as THREE from "three";
 import type { MaterialType, ShoeType } from "@/lib/stores/useLuxSole";
 import { createShoeMaterial } from "@/utils/three/materials";
 import { createAdvancedShoeMaterial } from "@/utils/three/advancedMaterials";
-import { createShoeGeometries } from "@/utils/three/shoeGeometries";
+import { createShoeGeometries, type ShoeGeometries } from "@/utils/three/shoeGeometries";
+import {
+  PATTERNED_PANELS,
+  createPatternUniforms,
+  patternShaderHooks,
+  updatePatternUniforms,
+  withPatternOverlay,
+  type PatternOverlay,
+} from "@/utils/three/patterns";
+import {
+  addMonogramDecal,
+  createMonogramMaterial,
+  createMonogramTexture,
+  drawMonogram,
+  updateMonogramMaterial,
+  type MonogramDecal,
+} from "@/utils/three/monogram";
+import { addArtworkDecal, createArtworkMaterial, loadArtworkTexture } from "@/utils/three/artwork";
+import { removeDecal } from "@/utils/three/decals";
+import type { ArtworkPlacement } from "@shared/artwork";
 
 interface ShoeModelProps {
   baseColor: string;
@@ -39,8 +58,15 @@ interface ShoeModelProps {
   envMap?: THREE.Texture | null;
   scale?: number;
   useAdvancedShaders?: boolean;
+  lodDistances?: [medium: number, low: number];
+  pattern?: PatternOverlay | null; // drawn over the side panels
+  monogram?: MonogramDecal | null;
+  artwork?: ArtworkPlacement | null;
+  onArtworkSettled?: () => void; // the artwork decal is on, or its image couldn't load
 }
 
+const DEFAULT_LOD_DISTANCES: [number, number] = [5, 10];
+
 const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
   baseColor,
   accentColor,
@@ -49,6 +75,11 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
   envMap = null,
   scale = 1,
   useAdvancedShaders = true,
+  lodDistances = DEFAULT_LOD_DISTANCES,
+  pattern = null,
+  monogram = null,
+  artwork = null,
+  onArtworkSettled,
 }, ref) => {
   const groupRef = useRef<THREE.Group>(null!);
   const lodRef = useRef<THREE.LOD>(null);
@@ -67,6 +98,27 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
     [material, baseColor, envMap, useAdvancedShaders]
   );
   
+  // Shared by every patterned material, so restyling the pattern is a
+  // uniform update rather than new materials
+  const patternUniforms = useMemo(() => createPatternUniforms(pattern), []);
+  
+  useEffect(() => {
+    updatePatternUniforms(patternUniforms, pattern);
+  }, [patternUniforms, pattern?.pattern, pattern?.patternScale, pattern?.patternRotation, pattern?.patternColor]);
+  
+  // Base material with the pattern, for the side panels
+  const panelMaterial = useMemo(
+    () => {
+      if (useAdvancedShaders) {
+        return withPatternOverlay(createAdvancedShoeMaterial(material, baseColor, envMap, true), patternUniforms);
+      }
+      return withPatternOverlay(createShoeMaterial(material, baseColor, envMap), patternUniforms);
+    },
+    [material, baseColor, envMap, useAdvancedShaders, patternUniforms]
+  );
+  
+  const devPanelPattern = useMemo(() => patternShaderHooks(patternUniforms), [patternUniforms]);
+  
   const accentMaterial = useMemo(
     () => {
       if (useAdvancedShaders) {
@@ -128,24 +180,32 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
     const buildLODLevel = (lodLevel: "high" | "medium" | "low", addDetails: boolean) => {
       const group = new THREE.Group();
       const geoms = createShoeGeometries(currentShoeType, lodLevel);
+      const upperMaterial = (panel: keyof ShoeGeometries) =>
+        PATTERNED_PANELS.includes(panel) ? panelMaterial : baseMaterial;
+      // Parts are named after their geometry so decals can find them
+      const addPart = (panel: keyof ShoeGeometries, geometry: THREE.BufferGeometry, partMaterial: THREE.Material) => {
+        const mesh = new THREE.Mesh(geometry, partMaterial);
+        mesh.name = panel;
+        group.add(mesh);
+        return mesh;
+      };
       
       // Main shoe parts
-      group.add(new THREE.Mesh(geoms.body, baseMaterial));
-      group.add(new THREE.Mesh(geoms.toe, baseMaterial));
-      group.add(new THREE.Mesh(geoms.heel, baseMaterial));
-      group.add(new THREE.Mesh(geoms.sole, soleMaterial));
-      group.add(new THREE.Mesh(geoms.midsole, accentMaterial));
-      group.add(new THREE.Mesh(geoms.laceArea, accentMaterial));
-      group.add(new THREE.Mesh(geoms.tongue, baseMaterial));
-      group.add(new THREE.Mesh(geoms.heelTab, accentMaterial));
+      addPart("body", geoms.body, upperMaterial("body"));
+      addPart("toe", geoms.toe, upperMaterial("toe"));
+      addPart("heel", geoms.heel, upperMaterial("heel"));
+      addPart("sole", geoms.sole, soleMaterial);
+      addPart("midsole", geoms.midsole, accentMaterial);
+      addPart("laceArea", geoms.laceArea, accentMaterial);
+      addPart("tongue", geoms.tongue, upperMaterial("tongue"));
+      addPart("heelTab", geoms.heelTab, accentMaterial);
       
       // Optional parts (high-top collar, side panels)
       if (geoms.collar) {
-        group.add(new THREE.Mesh(geoms.collar, accentMaterial));
+        addPart("collar", geoms.collar, accentMaterial);
       }
       if (geoms.sidePanel) {
-        const sidePanelL = new THREE.Mesh(geoms.sidePanel, baseMaterial);
-        group.add(sidePanelL);
+        const sidePanelL = addPart("sidePanel", geoms.sidePanel, upperMaterial("sidePanel"));
         
         // Mirror for right side
         const sidePanelR = sidePanelL.clone();
@@ -191,11 +251,98 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
     
     // Build LOD levels
     lod.addLevel(buildLODLevel("high", true), 0);
-    lod.addLevel(buildLODLevel("medium", false), 5);
-    lod.addLevel(buildLODLevel("low", false), 10);
+    lod.addLevel(buildLODLevel("medium", false), DEFAULT_LOD_DISTANCES[0]);
+    lod.addLevel(buildLODLevel("low", false), DEFAULT_LOD_DISTANCES[1]);
     
     return lod;
-  }, [currentShoeType, baseMaterial, accentMaterial, soleMaterial, laceMaterial, logoMaterial]);
+  }, [currentShoeType, baseMaterial, panelMaterial, accentMaterial, soleMaterial, laceMaterial, logoMaterial]);
+  
+  // Moved in place, so a quality change doesn't rebuild the levels
+  useEffect(() => {
+    lodGroup.levels[1].distance = lodDistances[0];
+    lodGroup.levels[2].distance = lodDistances[1];
+  }, [lodGroup, lodDistances[0], lodDistances[1]]);
+  
+  // Monogram decal. The texture and material are redrawn in place; only a
+  // new placement or model projects the decal again.
+  const monogramTexture = useMemo(() => createMonogramTexture(), []);
+  const monogramMaterial = useMemo(() => createMonogramMaterial(monogramTexture), [monogramTexture]);
+  
+  useEffect(() => () => {
+    monogramTexture.dispose();
+    monogramMaterial.dispose();
+  }, [monogramTexture, monogramMaterial]);
+  
+  useEffect(() => {
+    if (monogram) drawMonogram(monogramTexture, monogram.text, monogram.font);
+  }, [monogramTexture, monogram?.text, monogram?.font]);
+  
+  useEffect(() => {
+    if (monogram) updateMonogramMaterial(monogramMaterial, monogram, material);
+  }, [monogramMaterial, monogram?.color, monogram?.finish, material]);
+  
+  // Decals go on the near LOD levels; the far one is too small to show them
+  const decalParents = (): THREE.Object3D[] =>
+    process.env.NODE_ENV === 'development'
+      ? [groupRef.current]
+      : lodGroup.levels.slice(0, 2).map((level) => level.object);
+  
+  const monogramPlacement = monogram?.text ? monogram.placement : null;
+  useEffect(() => {
+    if (!monogramPlacement) return;
+    const decals = decalParents().map((parent) => addMonogramDecal(parent, monogramPlacement, monogramMaterial));
+    return () => decals.forEach(removeDecal);
+  }, [lodGroup, monogramPlacement, monogramMaterial]);
+  
+  // Customer artwork. The decal waits for the image, whose proportions it takes.
+  const artworkMaterial = useMemo(() => createArtworkMaterial(), []);
+  const [artworkAspect, setArtworkAspect] = useState<number | null>(null);
+  const artworkId = artwork?.uploadId;
+  const onArtworkSettledRef = useRef(onArtworkSettled);
+  onArtworkSettledRef.current = onArtworkSettled;
+  
+  useEffect(() => () => {
+    artworkMaterial.map?.dispose();
+    artworkMaterial.dispose();
+  }, [artworkMaterial]);
+  
+  useEffect(() => {
+    setArtworkAspect(null);
+    if (!artworkId) return;
+  
+    let cancelled = false;
+    loadArtworkTexture(artworkId)
+      .then((texture) => {
+        if (cancelled) return texture.dispose();
+        artworkMaterial.map?.dispose();
+        artworkMaterial.map = texture;
+        artworkMaterial.needsUpdate = true;
+        setArtworkAspect(texture.image.height / texture.image.width);
+      })
+      // Someone else's or deleted artwork: the shoe is shown without it
+      .catch(() => {
+        if (!cancelled) onArtworkSettledRef.current?.();
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [artworkId, artworkMaterial]);
+  
+  useEffect(() => {
+    if (!artwork || !artworkAspect) return;
+    const decals = decalParents().map((parent) => addArtworkDecal(parent, artwork, artworkMaterial, artworkAspect));
+    onArtworkSettledRef.current?.();
+    return () => decals.forEach(removeDecal);
+  }, [
+    lodGroup,
+    artworkMaterial,
+    artworkAspect,
+    artwork?.zone,
+    artwork?.scale,
+    artwork?.rotation,
+    artwork?.offsetX,
+    artwork?.offsetY,
+  ]);
   
   // Update LOD, handle transitions, and update dynamic lighting
   const lightPosRef = useRef(new THREE.Vector3(5, 8, 5));
@@ -250,7 +397,7 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
       }
       
       // Update shader uniforms
-      [baseMaterial, accentMaterial].forEach((mat) => {
+      [baseMaterial, panelMaterial, accentMaterial].forEach((mat) => {
         if (mat instanceof THREE.ShaderMaterial && mat.uniforms) {
           if (mat.uniforms.lightPosition) {
             mat.uniforms.lightPosition.value.copy(lightPosRef.current);
@@ -278,9 +425,10 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
     return (
       <group ref={combinedRef} scale={scale}>
         {/* Main sneaker body - athletic silhouette */}
-        <mesh position={[0, 0, 0]} rotation={[0, 0, Math.PI / 2]}>
+        <mesh name="body" position={[0, 0, 0]} rotation={[0, 0, Math.PI / 2]}>
           <capsuleGeometry args={[0.3, 0.8, 10, 16]} />
           <meshStandardMaterial 
+            {...devPanelPattern}
             color={baseColor} 
             roughness={material === 'leather' ? 0.4 : material === 'nubuck' ? 0.9 : 0.3}
             metalness={material === 'glint' ? 0.8 : 0.1}
@@ -290,7 +438,7 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
         </mesh>
         
         {/* Toe cap - classic sneaker front */}
-        <mesh position={[0.4, 0, 0]}>
+        <mesh name="toe" position={[0.4, 0, 0]}>
           <sphereGeometry args={[0.25, 12, 8, 0, Math.PI]} />
           <meshStandardMaterial 
             color={baseColor}
@@ -300,7 +448,7 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
         </mesh>
         
         {/* Heel counter - athletic back support */}
-        <mesh position={[-0.4, 0.1, 0]}>
+        <mesh name="heel" position={[-0.4, 0.1, 0]}>
           <sphereGeometry args={[0.2, 10, 6, Math.PI, Math.PI]} />
           <meshStandardMaterial 
             color={baseColor}
@@ -324,6 +472,7 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
         <mesh position={[0.2, 0, 0]}>
           <boxGeometry args={[0.06, 0.3, 0.2]} />
           <meshStandardMaterial 
+            {...devPanelPattern}
             color={accentColor}
             roughness={material === 'leather' ? 0.4 : material === 'nubuck' ? 0.9 : 0.3}
             metalness={material === 'glint' ? 0.8 : 0.1}
@@ -332,6 +481,7 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
         <mesh position={[-0.2, 0, 0]}>
           <boxGeometry args={[0.06, 0.3, 0.2]} />
           <meshStandardMaterial 
+            {...devPanelPattern}
             color={accentColor}
             roughness={material === 'leather' ? 0.4 : material === 'nubuck' ? 0.9 : 0.3}
             metalness={material === 'glint' ? 0.8 : 0.1}
@@ -339,7 +489,7 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
         </mesh>
         
         {/* Tongue - sneaker tongue */}
-        <mesh position={[0, 0.35, 0]}>
+        <mesh name="tongue" position={[0, 0.35, 0]}>
           <boxGeometry args={[0.3, 0.2, 0.06]} />
           <meshStandardMaterial 
             color={accentColor}
@@ -405,7 +555,7 @@ const ShoeModel = forwardRef<THREE.Group, ShoeModelProps>(({
         </mesh>
         
         {/* Heel tab - sneaker heel tab */}
-        <mesh position={[-0.3, 0.35, 0]}>
+        <mesh name="heelTab" position={[-0.3, 0.35, 0]}>
           <boxGeometry args={[0.1, 0.1, 0.04]} />
           <meshStandardMaterial 
             color={accentColor}
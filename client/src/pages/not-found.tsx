@@ -1,5 +1,7 @@
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { AlertCircle } from "lucide-react";
+import { ROUTES } from "@/lib/routes";
 
 export default function NotFound() {
   return (
@@ -12,7 +14,7 @@ export default function NotFound() {
           </div>
 
           <p className="mt-4 text-sm text-gray-600">
-            Did you forget to add the page to the router?
+            This page doesn't exist. <Link href={ROUTES.home} className="underline">Back to LuxSole</Link>
           </p>
         </CardContent>
       </Card>
@@ -21,6 +21,8 @@ import { EffectComposer, Bloom } from "@react-three/postprocessing";
 import * as THREE from "three";
 import ShoeDracoModel from "@/models/ShoeDracoModel";
 import { useLuxSole } from "@/lib/stores/useLuxSole";
+import { useRenderQuality } from "@/hooks/use-render-quality";
+import QualityMonitor from "@/scene/QualityMonitor";
 
 /**
  * Scene Lighting Component
@@ -213,7 +215,8 @@ function Fog() {
  */
 function LuxuryParticles() {
   const particlesRef = useRef<THREE.Points>(null);
-  const particleCount = 150;
+  // 150 at full quality; lower tiers draw a share of them
+  const particleCount = Math.round(150 * useRenderQuality().particles);
   
   useFrame((state) => {
     if (particlesRef.current) {
@@ -269,7 +272,9 @@ function LuxuryParticles() {
     geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
     
     return geometry;
-  }, []);
+  }, [particleCount]);
+  
+  useEffect(() => () => particlesGeometry.dispose(), [particlesGeometry]);
   
   return (
     <points ref={particlesRef} geometry={particlesGeometry}>
@@ -658,7 +663,7 @@ function BeamVolumetricLayer() {
  */
 function BeamParticles() {
   const particlesRef = useRef<THREE.Points>(null);
-  const particleCount = 40;
+  const particleCount = Math.round(40 * useRenderQuality().particles);
   
   useFrame((state) => {
     if (particlesRef.current) {
@@ -706,7 +711,9 @@ function BeamParticles() {
     geometry.setAttribute('size', new THREE.BufferAttribute(sizes, 1));
     
     return geometry;
-  }, []);
+  }, [particleCount]);
+  
+  useEffect(() => () => particleGeometry.dispose(), [particleGeometry]);
   
   return (
     <points ref={particlesRef} geometry={particleGeometry}>
@@ -854,6 +861,7 @@ export default function HeroScene() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [useImageFallback, setUseImageFallback] = useState(false);
   const [threeError, setThreeError] = useState(false);
+  const quality = useRenderQuality();
   
   // Hero section background color (dark green)
   const heroBackgroundColor = '#234737';
@@ -1017,8 +1025,8 @@ export default function HeroScene() {
             console.warn('Error setting canvas ref:', error);
           }
         }}
-        shadows
-        dpr={[1, 2]} // Limit pixel ratio for performance
+        shadows={quality.shadows}
+        dpr={quality.dpr}
         gl={{
           antialias: true,
           toneMapping: THREE.ACESFilmicToneMapping,
@@ -1036,6 +1044,7 @@ export default function HeroScene() {
         
         {/* Camera */}
         <PerspectiveCamera makeDefault position={[0, 1, 5]} fov={50} />
+        <QualityMonitor />
         
         {/* Scene background color - dark green to match hero section */}
         <color attach="background" args={[heroBackgroundColor]} />
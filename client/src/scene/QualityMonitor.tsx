@@ -0,0 +1,54 @@
+/**
+ * Quality Monitor
+ *
+ * Samples a canvas's frame rate and moves the shared quality tier down when
+ * it falls short of the display's refresh rate, and back up when there is
+ * headroom. Renders nothing unless quality is on "auto".
+ */
+
+import { useEffect, useState } from "react";
+import { PerformanceMonitor } from "@react-three/drei";
+import { useLuxSole } from "@/lib/stores/useLuxSole";
+
+// Below 50fps on a 60Hz display steps down, above 57fps steps up
+const fpsBounds = (refreshRate: number): [number, number] =>
+  refreshRate > 90 ? [60, 100] : [50, 57];
+
+// How long to hold the cheapest tier after a fallback before sampling again
+const FALLBACK_HOLD = 30_000; // ms
+
+export default function QualityMonitor() {
+  const isAuto = useLuxSole((state) => state.qualitySetting === "auto");
+  const stepQuality = useLuxSole((state) => state.stepQuality);
+  // PerformanceMonitor stops sampling for good once it falls back, so it is
+  // remounted with a new key to start over
+  const [run, setRun] = useState(0);
+  const [fellBack, setFellBack] = useState(false);
+
+  useEffect(() => {
+    if (!fellBack) return;
+    const timer = setTimeout(() => {
+      setFellBack(false);
+      setRun((n) => n + 1);
+    }, FALLBACK_HOLD);
+    return () => clearTimeout(timer);
+  }, [fellBack]);
+
+  if (!isAuto) return null;
+
+  return (
+    <PerformanceMonitor
+      key={run}
+      bounds={fpsBounds}
+      flipflops={4}
+      onIncline={() => stepQuality(1)}
+      onDecline={() => stepQuality(-1)}
+      // Still swinging between tiers: settle on the cheapest for a while,
+      // then sample again in case whatever slowed the device has passed
+      onFallback={() => {
+        useLuxSole.setState({ measuredQuality: "low" });
+        setFellBack(true);
+      }}
+    />
+  );
+}
@@ -0,0 +1,34 @@
+// gifenc ships without types; this covers the parts the preview export uses
+declare module "gifenc" {
+  export type ColorFormat = "rgb565" | "rgb444" | "rgba4444";
+  export type Palette = number[][];
+
+  export interface QuantizeOptions {
+    format?: ColorFormat;
+    oneBitAlpha?: boolean | number;
+    clearAlpha?: boolean;
+    clearAlphaThreshold?: number;
+    clearAlphaColor?: number;
+  }
+
+  export interface FrameOptions {
+    palette?: Palette;
+    first?: boolean;
+    transparent?: boolean;
+    transparentIndex?: number;
+    delay?: number; // milliseconds
+    repeat?: number; // 0 loops forever
+    dispose?: number;
+  }
+
+  export interface Encoder {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: FrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+    reset(): void;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): Encoder;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: QuantizeOptions): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: ColorFormat): Uint8Array;
+}
@@ -0,0 +1,50 @@
+/**
+ * Artwork Decals
+ *
+ * A customer's uploaded image, projected onto one of the artwork zones with
+ * the scale, rotation and offset they chose. The image keeps its own
+ * proportions and transparency.
+ */
+
+import * as THREE from "three";
+import { artworkFileUrl, type ArtworkPlacement } from "@shared/artwork";
+import { addDecal } from "@/utils/three/decals";
+
+// A printed finish under the monogram, which is drawn over it
+export function createArtworkMaterial(): THREE.MeshStandardMaterial {
+  return new THREE.MeshStandardMaterial({
+    transparent: true,
+    alphaTest: 0.1,
+    depthWrite: false,
+    polygonOffset: true,
+    polygonOffsetFactor: -2,
+    roughness: 0.6,
+    metalness: 0,
+  });
+}
+
+// Rejects if the upload is gone or isn't the viewer's
+export async function loadArtworkTexture(uploadId: number): Promise<THREE.Texture> {
+  const texture = await new THREE.TextureLoader().loadAsync(artworkFileUrl(uploadId));
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.anisotropy = 4;
+  return texture;
+}
+
+// Returns null if the placement misses the model
+export function addArtworkDecal(
+  parent: THREE.Object3D,
+  artwork: ArtworkPlacement,
+  material: THREE.Material,
+  aspect: number,
+): THREE.Mesh | null {
+  const decal = addDecal(parent, artwork.zone, material, {
+    aspect,
+    scale: artwork.scale,
+    rotation: THREE.MathUtils.degToRad(artwork.rotation),
+    offsetX: artwork.offsetX,
+    offsetY: artwork.offsetY,
+  });
+  if (decal) decal.name = "artwork";
+  return decal;
+}
@@ -0,0 +1,197 @@
+import * as THREE from "three";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import { GIFEncoder, applyPalette, quantize } from "gifenc";
+import { zipSync } from "fflate";
+
+/**
+ * Offscreen capture for the 3D previews
+ *
+ * Shots are rendered into their own render target at the requested size, so
+ * they don't depend on the size of the canvas on screen, then tone mapped
+ * and converted to sRGB exactly as the canvas is. Screen-space effects such
+ * as Bloom are not part of the capture.
+ */
+
+export interface CaptureSize {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const SCREENSHOT_SIZES: CaptureSize[] = [
+  { id: "hd", label: "HD · 1920×1080", width: 1920, height: 1080 },
+  { id: "qhd", label: "QHD · 2560×1440", width: 2560, height: 1440 },
+  { id: "4k", label: "4K · 3840×2160", width: 3840, height: 2160 },
+  { id: "square", label: "Square · 2048×2048", width: 2048, height: 2048 },
+];
+
+// Animations are square, for social posts, and kept small enough to encode
+// in the browser
+export const TURNTABLE_SIZES: CaptureSize[] = [
+  { id: "480", label: "480×480", width: 480, height: 480 },
+  { id: "720", label: "720×720", width: 720, height: 720 },
+  { id: "1080", label: "1080×1080", width: 1080, height: 1080 },
+];
+
+export const TURNTABLE_FPS = 25;
+
+export type TurntableFormat = "gif" | "png-frames";
+
+export const TURNTABLE_FORMATS: { id: TurntableFormat; label: string }[] = [
+  { id: "gif", label: "Animated GIF" },
+  { id: "png-frames", label: "PNG frames (.zip)" },
+];
+
+export interface ShotOptions {
+  width: number;
+  height: number;
+  transparent: boolean;
+  background: string; // CSS color behind the shoe unless transparent
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Renders one frame of `scene` as seen from `camera`, scaled down if the
+ * GPU can't hold a texture of the requested size.
+ */
+export function renderShot(
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  sourceCamera: THREE.Camera,
+  options: ShotOptions,
+): HTMLCanvasElement {
+  const scale = Math.min(1, gl.capabilities.maxTextureSize / Math.max(options.width, options.height));
+  const width = Math.floor(options.width * scale);
+  const height = Math.floor(options.height * scale);
+
+  const camera = sourceCamera.clone();
+  if (camera instanceof THREE.PerspectiveCamera) {
+    camera.aspect = width / height;
+    camera.updateProjectionMatrix();
+  }
+
+  // Linear HDR first, then the same tone mapping and sRGB output as the canvas
+  const hdr = new THREE.WebGLRenderTarget(width, height, { type: THREE.HalfFloatType, samples: 4 });
+  const ldr = new THREE.WebGLRenderTarget(width, height);
+  const output = new OutputPass();
+  const pixels = new Uint8Array(width * height * 4);
+
+  const previousTarget = gl.getRenderTarget();
+  const previousClearColor = gl.getClearColor(new THREE.Color());
+  const previousClearAlpha = gl.getClearAlpha();
+  const previousBackground = scene.background;
+
+  try {
+    // Always rendered on transparent; the background is painted in below
+    scene.background = null;
+    gl.setClearColor(0x000000, 0);
+    gl.setRenderTarget(hdr);
+    gl.clear();
+    gl.render(scene, camera);
+    output.render(gl, ldr, hdr, 0, false);
+    gl.readRenderTargetPixels(ldr, 0, 0, width, height, pixels);
+  } finally {
+    scene.background = previousBackground;
+    gl.setClearColor(previousClearColor, previousClearAlpha);
+    gl.setRenderTarget(previousTarget);
+    hdr.dispose();
+    ldr.dispose();
+    output.dispose();
+  }
+
+  // WebGL rows run bottom to top, and edge pixels come back premultiplied
+  const image = new ImageData(width, height);
+  const rowLength = width * 4;
+  for (let y = 0; y < height; y++) {
+    const source = (height - 1 - y) * rowLength;
+    image.data.set(pixels.subarray(source, source + rowLength), y * rowLength);
+  }
+  for (let i = 0; i < image.data.length; i += 4) {
+    const alpha = image.data[i + 3];
+    if (alpha > 0 && alpha < 255) {
+      image.data[i] = Math.min(255, (image.data[i] * 255) / alpha);
+      image.data[i + 1] = Math.min(255, (image.data[i + 1] * 255) / alpha);
+      image.data[i + 2] = Math.min(255, (image.data[i + 2] * 255) / alpha);
+    }
+  }
+
+  const shot = createCanvas(width, height);
+  shot.getContext("2d")!.putImageData(image, 0, 0);
+  if (options.transparent) return shot;
+
+  const composed = createCanvas(width, height);
+  const context = composed.getContext("2d")!;
+  context.fillStyle = options.background;
+  context.fillRect(0, 0, width, height);
+  context.drawImage(shot, 0, 0);
+  return composed;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = "image/png"): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Couldn't encode the image"))), type);
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export interface TurntableWriter {
+  addFrame(frame: HTMLCanvasElement): Promise<void>;
+  finish(): Blob;
+}
+
+// Encodes frames as they are rendered, so a long turntable never holds
+// every frame's pixels at once
+export function createTurntableWriter(
+  format: TurntableFormat,
+  { transparent }: { transparent: boolean },
+): TurntableWriter {
+  if (format === "png-frames") {
+    const files: Record<string, [Uint8Array, { level: 0 }]> = {};
+    return {
+      async addFrame(frame) {
+        const bytes = new Uint8Array(await (await canvasToBlob(frame)).arrayBuffer());
+        const name = `frame-${String(Object.keys(files).length + 1).padStart(3, "0")}.png`;
+        // PNGs are already compressed
+        files[name] = [bytes, { level: 0 }];
+      },
+      finish: () => new Blob([zipSync(files)], { type: "application/zip" }),
+    };
+  }
+
+  const gif = GIFEncoder();
+  const colorFormat = transparent ? "rgba4444" : "rgb565";
+  return {
+    async addFrame(frame) {
+      const { data, width, height } = frame.getContext("2d")!.getImageData(0, 0, frame.width, frame.height);
+      const palette = quantize(data, 256, { format: colorFormat, oneBitAlpha: transparent });
+      const transparentIndex = transparent ? palette.findIndex((color) => color[3] === 0) : -1;
+      gif.writeFrame(applyPalette(data, palette, colorFormat), width, height, {
+        palette,
+        delay: 1000 / TURNTABLE_FPS,
+        transparent: transparentIndex >= 0,
+        transparentIndex: Math.max(transparentIndex, 0),
+        // Clear each frame, or transparent areas would show the last one
+        dispose: transparent ? 2 : -1,
+      });
+    },
+    finish() {
+      gif.finish();
+      return new Blob([gif.bytes()], { type: "image/gif" });
+    },
+  };
+}
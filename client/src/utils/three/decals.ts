@@ -0,0 +1,126 @@
+/**
+ * Decal Projection
+ *
+ * Monograms and customer artwork are projected onto the shoe as decals.
+ * Each placement is found by casting a ray at the model from outside, so
+ * the decal lands on whichever part of the upper is actually visible there,
+ * whatever the silhouette.
+ */
+
+import * as THREE from "three";
+import { DecalGeometry } from "three/examples/jsm/geometries/DecalGeometry.js";
+import type { MonogramPlacement } from "@shared/monogram";
+
+// Artwork zones are a subset of these
+export type DecalPlacement = MonogramPlacement;
+
+export interface DecalOptions {
+  aspect: number; // height over width
+  scale?: number; // of the placement's own width
+  rotation?: number; // radians, counterclockwise as seen from outside
+  // From the middle of the placement, as a share of its width
+  offsetX?: number;
+  offsetY?: number;
+}
+
+// Parts of the upper a decal can land on; laces, logo and sole are never hit
+const UPPER_PARTS = ["body", "toe", "heel", "tongue", "heelTab", "collar", "sidePanel", "laceArea"];
+
+interface PlacementRay {
+  // From the bounds of the upper to where the ray starts and which way it
+  // points, which way is up for the decal, and how wide it is
+  origin: (bounds: THREE.Box3, tongue: THREE.Box3 | null) => THREE.Vector3;
+  direction: THREE.Vector3;
+  up: THREE.Vector3;
+  width: (size: THREE.Vector3) => number;
+}
+
+// The model's length runs along x (toe at +x), height along y and the
+// outer side faces +z
+const PLACEMENTS: Record<DecalPlacement, PlacementRay> = {
+  "heel-tab": {
+    origin: (bounds) =>
+      new THREE.Vector3(bounds.min.x - 1, THREE.MathUtils.lerp(bounds.min.y, bounds.max.y, 0.65), 0),
+    direction: new THREE.Vector3(1, 0, 0),
+    up: new THREE.Vector3(0, 1, 0),
+    width: (size) => size.z * 0.5,
+  },
+  tongue: {
+    origin: (bounds, tongue) => {
+      const x = tongue ? tongue.getCenter(new THREE.Vector3()).x : bounds.getCenter(new THREE.Vector3()).x;
+      return new THREE.Vector3(x, bounds.max.y + 1, 0);
+    },
+    direction: new THREE.Vector3(0, -1, 0),
+    up: new THREE.Vector3(1, 0, 0), // read from above, toe at the top
+    width: (size) => size.z * 0.45,
+  },
+  side: {
+    origin: (bounds) =>
+      new THREE.Vector3(
+        THREE.MathUtils.lerp(bounds.min.x, bounds.max.x, 0.35),
+        THREE.MathUtils.lerp(bounds.min.y, bounds.max.y, 0.5),
+        bounds.max.z + 1,
+      ),
+    direction: new THREE.Vector3(0, 0, -1),
+    up: new THREE.Vector3(0, 1, 0),
+    width: (size) => size.x * 0.22,
+  },
+};
+
+/**
+ * Projects a decal onto the named upper parts among parent's children and
+ * adds it to parent. Works in parent's own space, so the decal moves with
+ * the model. Returns null if the placement misses the model.
+ */
+export function addDecal(
+  parent: THREE.Object3D,
+  placement: DecalPlacement,
+  material: THREE.Material,
+  { aspect, scale = 1, rotation = 0, offsetX = 0, offsetY = 0 }: DecalOptions,
+): THREE.Mesh | null {
+  // Stand-ins positioned relative to parent rather than the world
+  const targets = parent.children
+    .filter((child): child is THREE.Mesh => child instanceof THREE.Mesh && UPPER_PARTS.includes(child.name))
+    .map((child) => {
+      child.updateMatrix();
+      const target = new THREE.Mesh(child.geometry);
+      target.name = child.name;
+      target.applyMatrix4(child.matrix);
+      target.updateMatrixWorld(true);
+      return target;
+    });
+  if (targets.length === 0) return null;
+
+  const bounds = new THREE.Box3();
+  targets.forEach((target) => bounds.expandByObject(target));
+  const tongue = targets.find((target) => target.name === "tongue");
+  const ray = PLACEMENTS[placement];
+  const width = ray.width(bounds.getSize(new THREE.Vector3()));
+
+  // Projected straight along the ray, upright unless rotated
+  const normal = ray.direction.clone().negate();
+  const right = new THREE.Vector3().crossVectors(ray.up, normal).normalize();
+  const up = new THREE.Vector3().crossVectors(normal, right);
+
+  const origin = ray
+    .origin(bounds, tongue ? new THREE.Box3().setFromObject(tongue) : null)
+    .addScaledVector(right, offsetX * width)
+    .addScaledVector(up, offsetY * width);
+  const [hit] = new THREE.Raycaster(origin, ray.direction).intersectObjects(targets, false);
+  if (!hit) return null;
+
+  right.applyAxisAngle(normal, rotation);
+  up.applyAxisAngle(normal, rotation);
+  const orientation = new THREE.Euler().setFromRotationMatrix(new THREE.Matrix4().makeBasis(right, up, normal));
+  const size = new THREE.Vector3(width * scale, width * scale * aspect, width * scale * 0.6);
+
+  const decal = new THREE.Mesh(new DecalGeometry(hit.object as THREE.Mesh, hit.point, orientation, size), material);
+  parent.add(decal);
+  return decal;
+}
+
+export function removeDecal(decal: THREE.Mesh | null): void {
+  if (!decal) return;
+  decal.removeFromParent();
+  decal.geometry.dispose();
+}
@@ -0,0 +1,142 @@
+/**
+ * Monogram Decals
+ *
+ * The monogram is drawn into a canvas and projected onto the shoe as a
+ * decal at one of the placements in decals.ts.
+ *
+ * The canvas is white letters on black, which serves as both the decal's
+ * alpha and its height map. The finish decides what the material does with
+ * it: foil is a flat metallic print, emboss raises the letters and deboss
+ * presses them in.
+ */
+
+import * as THREE from "three";
+import { DEFAULT_DESIGN_CONFIG } from "@shared/sharing";
+import {
+  monogramFinishes,
+  monogramPlacements,
+  resolveMonogramFinish,
+  type MonogramFinish,
+  type MonogramPlacement,
+} from "@shared/monogram";
+import { monogramFonts, type MonogramFont } from "@shared/schema";
+import type { MaterialType } from "@/lib/stores/useLuxSole";
+import { MATERIAL_CONFIGS } from "@/utils/three/materials";
+import { addDecal } from "@/utils/three/decals";
+
+export interface MonogramDecal {
+  text: string;
+  font: MonogramFont;
+  placement: MonogramPlacement;
+  color: string;
+  finish: MonogramFinish;
+}
+
+const CANVAS_WIDTH = 512;
+const CANVAS_HEIGHT = 256; // decals are twice as wide as they are tall
+
+const FONT_STACKS: Record<MonogramFont, string> = {
+  serif: "Georgia, 'Times New Roman', serif",
+  "sans-serif": "'Helvetica Neue', Arial, sans-serif",
+  script: "'Brush Script MT', 'Segoe Script', cursive",
+  monospace: "'Courier New', monospace",
+};
+
+// The monogram on a cart line or order, from its personalization
+export function personalizationMonogram(
+  personalization: Record<string, string> | null | undefined,
+  material: MaterialType,
+): MonogramDecal | null {
+  const text = personalization?.monogram;
+  if (!text) return null;
+
+  const oneOf = <T extends string>(options: readonly T[], value: string | undefined, fallback: T): T =>
+    options.includes(value as T) ? (value as T) : fallback;
+  return {
+    text,
+    font: oneOf(monogramFonts, personalization.font, DEFAULT_DESIGN_CONFIG.font),
+    placement: oneOf(monogramPlacements, personalization.monogramPlacement, DEFAULT_DESIGN_CONFIG.monogramPlacement),
+    color: personalization.monogramColor ?? DEFAULT_DESIGN_CONFIG.monogramColor,
+    finish: resolveMonogramFinish(
+      material,
+      oneOf(monogramFinishes, personalization.monogramFinish, DEFAULT_DESIGN_CONFIG.monogramFinish),
+    ),
+  };
+}
+
+export function createMonogramTexture(): THREE.CanvasTexture {
+  const canvas = document.createElement("canvas");
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.anisotropy = 4;
+  return texture;
+}
+
+// Redraws the letters in place, sized to fill the decal
+export function drawMonogram(texture: THREE.CanvasTexture, text: string, font: MonogramFont): void {
+  const canvas = texture.image as HTMLCanvasElement;
+  const context = canvas.getContext("2d")!;
+  context.fillStyle = "#000000";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  let size = canvas.height * 0.8;
+  context.font = `bold ${size}px ${FONT_STACKS[font]}`;
+  const width = context.measureText(text).width;
+  if (width > canvas.width * 0.9) {
+    size *= (canvas.width * 0.9) / width;
+    context.font = `bold ${size}px ${FONT_STACKS[font]}`;
+  }
+
+  context.fillStyle = "#ffffff";
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.fillText(text, canvas.width / 2, canvas.height / 2);
+  texture.needsUpdate = true;
+}
+
+// Drawn over the shoe surface without z-fighting it. The alpha test keeps
+// the letters cut out even when a crossfade turns transparency off.
+export function createMonogramMaterial(texture: THREE.Texture): THREE.MeshStandardMaterial {
+  return new THREE.MeshStandardMaterial({
+    alphaMap: texture,
+    bumpMap: texture,
+    transparent: true,
+    alphaTest: 0.1,
+    depthWrite: false,
+    polygonOffset: true,
+    polygonOffsetFactor: -4,
+  });
+}
+
+export function updateMonogramMaterial(
+  decalMaterial: THREE.MeshStandardMaterial,
+  { color, finish }: Pick<MonogramDecal, "color" | "finish">,
+  material: MaterialType,
+): void {
+  const surface = MATERIAL_CONFIGS[material];
+  decalMaterial.color.set(color);
+
+  if (finish === "foil") {
+    decalMaterial.metalness = 1;
+    decalMaterial.roughness = 0.15;
+    decalMaterial.bumpScale = 0;
+  } else {
+    // Pressed letters keep the surface's texture and sit slightly in shadow
+    decalMaterial.metalness = surface.metalness;
+    decalMaterial.roughness = surface.roughness;
+    decalMaterial.bumpScale = finish === "emboss" ? 3 : -3;
+    if (finish === "deboss") decalMaterial.color.multiplyScalar(0.8);
+  }
+}
+
+// Returns null if the placement misses the model
+export function addMonogramDecal(
+  parent: THREE.Object3D,
+  placement: MonogramPlacement,
+  decalMaterial: THREE.Material,
+): THREE.Mesh | null {
+  const decal = addDecal(parent, placement, decalMaterial, { aspect: CANVAS_HEIGHT / CANVAS_WIDTH });
+  if (decal) decal.name = "monogram";
+  return decal;
+}
@@ -0,0 +1,161 @@
+/**
+ * Pattern Overlays
+ *
+ * Procedural patterns drawn over a material's base color. The pattern is
+ * projected from the side in the model's own space, so it lines up across
+ * panels and doesn't swim as the shoe turns. Which pattern is shown and how
+ * it looks are uniforms: changing them never recompiles a shader.
+ *
+ * Only the panels listed in PATTERNED_PANELS get a pattern; soles, laces and
+ * trims stay plain.
+ */
+
+import * as THREE from "three";
+import { DEFAULT_DESIGN_CONFIG } from "@shared/sharing";
+import { designPatterns, type DesignConfig, type DesignPattern } from "@shared/schema";
+import type { ShoeGeometries } from "@/utils/three/shoeGeometries";
+
+export type PatternOverlay = Pick<DesignConfig, "pattern" | "patternScale" | "patternRotation" | "patternColor">;
+
+// Side panels of the upper. Toe and heel caps, tongue, sole and trims curve
+// too sharply or are too small for a pattern to read.
+export const PATTERNED_PANELS: (keyof ShoeGeometries)[] = ["body", "sidePanel"];
+
+// Motif size in model units at scale 1
+const MOTIF_SIZE = 0.25;
+
+export interface PatternUniforms {
+  [uniform: string]: THREE.IUniform;
+  patternType: THREE.IUniform<number>;
+  patternFrequency: THREE.IUniform<number>;
+  patternRotation: THREE.IUniform<number>;
+  patternColor: THREE.IUniform<THREE.Color>;
+}
+
+export function createPatternUniforms(overlay?: PatternOverlay | null): PatternUniforms {
+  const uniforms: PatternUniforms = {
+    patternType: { value: 0 },
+    patternFrequency: { value: 1 / MOTIF_SIZE },
+    patternRotation: { value: 0 },
+    patternColor: { value: new THREE.Color() },
+  };
+  updatePatternUniforms(uniforms, overlay);
+  return uniforms;
+}
+
+export function updatePatternUniforms(uniforms: PatternUniforms, overlay?: PatternOverlay | null): void {
+  const { pattern, patternScale, patternRotation, patternColor } = overlay ?? DEFAULT_DESIGN_CONFIG;
+  uniforms.patternType.value = designPatterns.indexOf(pattern); // 0 is "none"
+  uniforms.patternFrequency.value = 1 / (MOTIF_SIZE * patternScale);
+  uniforms.patternRotation.value = THREE.MathUtils.degToRad(patternRotation);
+  uniforms.patternColor.value.set(patternColor);
+}
+
+// The pattern on a cart line or order, from its personalization
+export function personalizationPattern(personalization?: Record<string, string> | null): PatternOverlay | null {
+  const pattern = personalization?.pattern as DesignPattern | undefined;
+  if (!pattern || !designPatterns.includes(pattern)) return null;
+
+  const scale = Number(personalization?.patternScale);
+  const rotation = Number(personalization?.patternRotation);
+  return {
+    pattern,
+    patternScale: scale > 0 ? scale : DEFAULT_DESIGN_CONFIG.patternScale,
+    patternRotation: Number.isFinite(rotation) ? rotation : DEFAULT_DESIGN_CONFIG.patternRotation,
+    patternColor: personalization?.patternColor ?? DEFAULT_DESIGN_CONFIG.patternColor,
+  };
+}
+
+// Indexes match designPatterns: 1 stripes, 2 dots, 3 geometric, 4 floral,
+// 5 abstract. Each returns how much of the pattern color covers the point.
+const PATTERN_CHUNK = /* glsl */ `
+varying vec3 vPatternPosition;
+uniform int patternType;
+uniform float patternFrequency;
+uniform float patternRotation;
+uniform vec3 patternColor;
+
+float patternMask(vec2 p) {
+  vec2 cell = fract(p) - 0.5;
+
+  if (patternType == 1) {
+    float stripe = abs(fract(p.x) - 0.5);
+    return 1.0 - smoothstep(0.16, 0.2, stripe);
+  }
+  if (patternType == 2) {
+    return 1.0 - smoothstep(0.2, 0.24, length(cell));
+  }
+  if (patternType == 3) {
+    float diamond = abs(cell.x) + abs(cell.y);
+    return 1.0 - smoothstep(0.03, 0.06, abs(diamond - 0.32));
+  }
+  if (patternType == 4) {
+    float angle = atan(cell.y, cell.x);
+    float petals = 0.22 + 0.1 * cos(5.0 * angle);
+    float radius = length(cell);
+    return (1.0 - smoothstep(petals - 0.03, petals, radius)) * smoothstep(0.04, 0.07, radius);
+  }
+  if (patternType == 5) {
+    float wave = sin(p.x * 2.1 + sin(p.y * 1.7) * 1.8) + sin(p.y * 2.6 + sin(p.x * 1.3) * 1.4);
+    return smoothstep(0.55, 0.75, wave);
+  }
+  return 0.0;
+}
+
+vec3 applyPattern(vec3 color) {
+  if (patternType == 0) return color;
+  float c = cos(patternRotation);
+  float s = sin(patternRotation);
+  vec2 p = mat2(c, -s, s, c) * vPatternPosition.xy * patternFrequency;
+  return mix(color, patternColor, patternMask(p));
+}
+`;
+
+const PATTERN_VARYING = "varying vec3 vPatternPosition;";
+
+/**
+ * Shader hooks that add the pattern to a built-in material. Also usable as
+ * props on a JSX material.
+ */
+export function patternShaderHooks(uniforms: PatternUniforms) {
+  return {
+    onBeforeCompile(shader: THREE.WebGLProgramParametersWithUniforms) {
+      Object.assign(shader.uniforms, uniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace("#include <common>", `#include <common>\n${PATTERN_VARYING}`)
+        .replace("#include <begin_vertex>", "#include <begin_vertex>\nvPatternPosition = position;");
+      shader.fragmentShader = shader.fragmentShader
+        .replace("#include <common>", `#include <common>\n${PATTERN_CHUNK}`)
+        .replace("#include <color_fragment>", "#include <color_fragment>\ndiffuseColor.rgb = applyPattern(diffuseColor.rgb);");
+    },
+    customProgramCacheKey: () => "luxsole-pattern",
+  };
+}
+
+/**
+ * Adds the pattern to a material from createShoeMaterial or
+ * createAdvancedShoeMaterial. The material shares the uniforms, so updating
+ * them restyles it in place.
+ */
+export function withPatternOverlay<T extends THREE.Material>(material: T, uniforms: PatternUniforms): T {
+  if (material instanceof THREE.ShaderMaterial) {
+    // The custom shaders all shade from a baseColor uniform; the patterned
+    // color takes its place inside main()
+    const [fragmentHead, fragmentMain] = splitMain(material.fragmentShader);
+    const [vertexHead, vertexMain] = splitMain(material.vertexShader);
+    material.uniforms = { ...material.uniforms, ...uniforms };
+    material.vertexShader = `${vertexHead}${PATTERN_VARYING}\n\nvoid main() {\n  vPatternPosition = position;${vertexMain}`;
+    material.fragmentShader =
+      `${fragmentHead}${PATTERN_CHUNK}\n\nvoid main() {\n  vec3 patternedBase = applyPattern(baseColor);` +
+      fragmentMain.replace(/\bbaseColor\b/g, "patternedBase");
+  } else {
+    Object.assign(material, patternShaderHooks(uniforms));
+  }
+  material.needsUpdate = true;
+  return material;
+}
+
+function splitMain(source: string): [string, string] {
+  const index = source.indexOf("void main() {");
+  return [source.slice(0, index), source.slice(index + "void main() {".length)];
+}
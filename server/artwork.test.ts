@@ -0,0 +1,181 @@
+import { readFileSync } from "fs";
+import { crc32 } from "zlib";
+import { Resvg } from "@resvg/resvg-js";
+import { encode as encodeJpeg } from "jpeg-js";
+import { describe, expect, it } from "vitest";
+import { normalizeArtwork, readImageHeader } from "./artwork";
+
+// 32×32, with JFIF, EXIF, a comment and an ICC profile ahead of the image
+const sand = readFileSync(new URL("../client/public/textures/sand.jpg", import.meta.url));
+
+// A lime rectangle, drawn by resvg so it is a real PNG to decode
+function png(width: number, height: number): Buffer {
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect width="${width}" height="${height}" fill="#9ACD32"/></svg>`;
+  return new Resvg(svg).render().asPng();
+}
+
+function pngChunk(type: string, data: Buffer | string): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "latin1"), Buffer.from(data)]);
+  const chunk = Buffer.alloc(body.length + 8);
+  chunk.writeUInt32BE(body.length - 4, 0);
+  body.copy(chunk, 4);
+  chunk.writeUInt32BE(crc32(body), body.length + 4);
+  return chunk;
+}
+
+// Puts the chunks straight after IHDR, which is 8 + 25 bytes in
+function withPngChunks(image: Buffer, ...chunks: Buffer[]): Buffer {
+  return Buffer.concat([image.subarray(0, 33), ...chunks, image.subarray(33)]);
+}
+
+// Just the signature and IHDR, enough to declare a size
+function pngHeader(width: number, height: number): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+  return Buffer.concat([png(1, 1).subarray(0, 8), pngChunk("IHDR", ihdr)]);
+}
+
+function pngChunkTypes(image: Buffer): string[] {
+  const types: string[] = [];
+  for (let offset = 8; offset + 8 <= image.length; offset += 12 + image.readUInt32BE(offset)) {
+    types.push(image.toString("latin1", offset + 4, offset + 8));
+  }
+  return types;
+}
+
+// Flat grey, with any comments as COM segments
+function jpeg(width: number, height: number, comments: string[] = []): Buffer {
+  return encodeJpeg({ width, height, data: Buffer.alloc(width * height * 4, 0xc0), comments }, 90).data;
+}
+
+// Puts an APP1 segment straight after SOI
+function withApp1(image: Buffer, payload: string): Buffer {
+  const segment = Buffer.alloc(4);
+  segment.writeUInt16BE(0xffe1, 0);
+  segment.writeUInt16BE(2 + Buffer.byteLength(payload, "latin1"), 2);
+  return Buffer.concat([image.subarray(0, 2), segment, Buffer.from(payload, "latin1"), image.subarray(2)]);
+}
+
+function webp(fourcc: string, payload: number[]): Buffer {
+  const chunk = Buffer.alloc(Math.max(22, payload.length + 8));
+  chunk.write(fourcc, 0, "latin1");
+  chunk.writeUInt32LE(chunk.length - 8, 4);
+  Buffer.from(payload).copy(chunk, 8);
+
+  const riff = Buffer.alloc(12);
+  riff.write("RIFF", 0, "latin1");
+  riff.writeUInt32LE(4 + chunk.length, 4);
+  riff.write("WEBP", 8, "latin1");
+  return Buffer.concat([riff, chunk]);
+}
+
+// Width and height less one, in three little-endian bytes each
+function vp8x(flags: number, width: number, height: number): Buffer {
+  const size = (n: number) => [(n - 1) & 0xff, ((n - 1) >> 8) & 0xff, (n - 1) >> 16];
+  return webp("VP8X", [flags, 0, 0, 0, ...size(width), ...size(height)]);
+}
+
+describe("readImageHeader", () => {
+  it("goes by the signature, not the file's name or declared type", () => {
+    expect(readImageHeader(png(80, 80))?.type).toBe("image/png");
+    expect(readImageHeader(sand)?.type).toBe("image/jpeg");
+    expect(readImageHeader(vp8x(0, 80, 80))?.type).toBe("image/webp");
+    expect(readImageHeader(Buffer.from("GIF89a" + "\0".repeat(40), "latin1"))).toBeUndefined();
+    expect(readImageHeader(Buffer.from("<svg xmlns='http://www.w3.org/2000/svg'/>"))).toBeUndefined();
+  });
+
+  it("reads a PNG's size from IHDR", () => {
+    expect(readImageHeader(png(120, 80))).toEqual({ type: "image/png", width: 120, height: 80, animated: false });
+  });
+
+  it("reads a JPEG's size from its frame header, past the metadata ahead of it", () => {
+    expect(readImageHeader(sand)).toMatchObject({ width: 32, height: 32 });
+    expect(readImageHeader(withApp1(jpeg(120, 80), "Exif\0\0"))).toMatchObject({ width: 120, height: 80 });
+  });
+
+  it("reads each kind of WebP header", () => {
+    expect(readImageHeader(vp8x(0, 300, 200))).toMatchObject({ width: 300, height: 200 });
+    // Lossy: frame tag, start code, then 14-bit width and height
+    expect(readImageHeader(webp("VP8 ", [0, 0, 0, 0x9d, 0x01, 0x2a, 0x2c, 0x01, 0xc8, 0x00]))).toMatchObject({
+      width: 300,
+      height: 200,
+    });
+    // Lossless: 299 and 199 packed into 14 bits each
+    const bits = 299 | (199 << 14);
+    expect(
+      readImageHeader(webp("VP8L", [0x2f, bits & 0xff, (bits >> 8) & 0xff, (bits >> 16) & 0xff, bits >>> 24])),
+    ).toMatchObject({ width: 300, height: 200 });
+  });
+
+  it("gives up on a truncated header", () => {
+    expect(readImageHeader(png(80, 80).subarray(0, 20))).toBeUndefined();
+    expect(readImageHeader(vp8x(0, 80, 80).subarray(0, 24))).toBeUndefined();
+  });
+});
+
+describe("normalizeArtwork", () => {
+  it("turns away anything that isn't a PNG or JPEG", () => {
+    expect(normalizeArtwork(Buffer.from("not an image")).error).toBe("Upload a PNG or JPEG image");
+    expect(normalizeArtwork(vp8x(0, 80, 80)).error).toBe("WebP images can't be used yet; save it as PNG or JPEG");
+  });
+
+  it("turns away animated images", () => {
+    const animation = Buffer.alloc(8);
+    animation.writeUInt32BE(2, 0); // frames
+    const apng = withPngChunks(png(80, 80), pngChunk("acTL", animation));
+
+    expect(readImageHeader(apng)?.animated).toBe(true);
+    expect(normalizeArtwork(apng).error).toBe("Animated images can't be printed; upload a still image");
+    expect(normalizeArtwork(vp8x(0x02, 80, 80)).error).toBe("Animated images can't be printed; upload a still image");
+  });
+
+  it("holds images to the printable size range", () => {
+    expect(normalizeArtwork(sand).error).toBe("Images need to be at least 64×64 pixels to print sharply");
+    expect(normalizeArtwork(png(200, 40)).error).toBe("Images need to be at least 64×64 pixels to print sharply");
+    expect(normalizeArtwork(pngHeader(5000, 100)).error).toBe("Images can be at most 4096×4096 pixels");
+    expect(normalizeArtwork(png(64, 64)).artwork).toBeDefined();
+  });
+
+  it("re-encodes a PNG without its text and EXIF chunks", () => {
+    const image = withPngChunks(
+      png(96, 72),
+      pngChunk("tEXt", "Author\0Jane Doe"),
+      pngChunk("iTXt", "XML:com.adobe.xmp\0\0\0\0\0<x:xmpmeta xmlns:x='adobe:ns:meta/'/>"),
+      pngChunk("eXIf", "MM\0*GPS 51.5N 0.1W"),
+    );
+
+    const { artwork } = normalizeArtwork(image);
+
+    expect(artwork).toMatchObject({ contentType: "image/png", width: 96, height: 72 });
+    expect(pngChunkTypes(artwork!.data).filter((type) => ["tEXt", "iTXt", "zTXt", "eXIf"].includes(type))).toEqual([]);
+    for (const text of ["Jane Doe", "xmpmeta", "GPS"]) {
+      expect(artwork!.data.includes(text)).toBe(false);
+    }
+  });
+
+  it("re-encodes a JPEG as a PNG without its EXIF, XMP or comments", () => {
+    const image = withApp1(
+      withApp1(jpeg(120, 80, ["Shot on a phone"]), "Exif\0\0MM\0*GPS 51.5N 0.1W"),
+      "http://ns.adobe.com/xap/1.0/\0<x:xmpmeta xmlns:x='adobe:ns:meta/'/>",
+    );
+    expect(readImageHeader(image)?.type).toBe("image/jpeg");
+
+    const { artwork } = normalizeArtwork(image);
+
+    expect(artwork).toMatchObject({ contentType: "image/png", width: 120, height: 80 });
+    for (const text of ["Exif", "GPS", "ns.adobe.com", "xmpmeta", "Shot on a phone"]) {
+      expect(artwork!.data.includes(text)).toBe(false);
+    }
+  });
+
+  it("scales down large images to what is stored", () => {
+    const { artwork } = normalizeArtwork(jpeg(2560, 640));
+
+    expect(artwork).toMatchObject({ width: 2048, height: 512 });
+  });
+});
@@ -0,0 +1,162 @@
+import { Resvg } from "@resvg/resvg-js";
+import {
+  MAX_ARTWORK_DIMENSION,
+  MIN_ARTWORK_DIMENSION,
+  type ArtworkUploadType,
+} from "@shared/artwork";
+
+// Checks uploaded artwork by its content, whatever type the browser
+// declared, and re-encodes it so nothing but the image survives. PNGs and
+// JPEGs are decoded and written out as a fresh PNG, which drops EXIF, XMP,
+// ICC profiles, comments, text chunks and anything appended to the file.
+// resvg can't decode WebP, so WebP is recognised only to be turned away.
+
+export interface NormalizedArtwork {
+  data: Buffer;
+  contentType: "image/png";
+  width: number;
+  height: number;
+}
+
+export interface ImageHeader {
+  type: ArtworkUploadType | "image/webp";
+  width: number;
+  height: number;
+  animated: boolean;
+}
+
+// Larger PNGs and JPEGs are scaled down to this on their longest side
+const MAX_STORED_DIMENSION = 2048;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const VP8X_ANIMATION_FLAG = 0x02;
+
+function readPngHeader(data: Buffer): ImageHeader | undefined {
+  if (data.length < 24 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) return undefined;
+  if (data.toString("latin1", 12, 16) !== "IHDR") return undefined;
+  return {
+    type: "image/png",
+    width: data.readUInt32BE(16),
+    height: data.readUInt32BE(20),
+    animated: hasPngChunk(data, "acTL"),
+  };
+}
+
+// Looks for a chunk ahead of the image data, which is where an APNG's acTL must be
+function hasPngChunk(data: Buffer, type: string): boolean {
+  let offset = 8;
+  while (offset + 8 <= data.length) {
+    const chunk = data.toString("latin1", offset + 4, offset + 8);
+    if (chunk === type) return true;
+    if (chunk === "IDAT") return false;
+    offset += 12 + data.readUInt32BE(offset); // length, type, data, CRC
+  }
+  return false;
+}
+
+function readJpegHeader(data: Buffer): ImageHeader | undefined {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return undefined;
+
+  let offset = 2;
+  while (offset + 9 <= data.length) {
+    if (data[offset] !== 0xff) return undefined;
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset += 1; // fill byte
+      continue;
+    }
+    // SOF0–SOF15 hold the dimensions; C4, C8 and CC are other tables
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return {
+        type: "image/jpeg",
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+        animated: false,
+      };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+function readWebpHeader(data: Buffer): ImageHeader | undefined {
+  if (data.length < 30) return undefined;
+  if (data.toString("latin1", 0, 4) !== "RIFF" || data.toString("latin1", 8, 12) !== "WEBP") return undefined;
+
+  const type = "image/webp";
+  switch (data.toString("latin1", 12, 16)) {
+    case "VP8X":
+      return {
+        type,
+        width: 1 + data.readUIntLE(24, 3),
+        height: 1 + data.readUIntLE(27, 3),
+        animated: (data[20] & VP8X_ANIMATION_FLAG) !== 0,
+      };
+    case "VP8 ":
+      // Lossy: a key frame's start code, then 14-bit dimensions
+      if (data.readUIntBE(23, 3) !== 0x9d012a) return undefined;
+      return { type, width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff, animated: false };
+    case "VP8L": {
+      // Lossless: a signature byte, then width and height less one in 14 bits each
+      if (data[20] !== 0x2f) return undefined;
+      const bits = data.readUInt32LE(21);
+      return { type, width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, animated: false };
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Draws the image at its own size, or scaled to fit MAX_STORED_DIMENSION.
+// resvg draws nothing for an image it can't decode, so a fully transparent
+// result counts as unreadable.
+function rasterize(data: Buffer, header: ImageHeader): NormalizedArtwork | undefined {
+  const scale = Math.min(1, MAX_STORED_DIMENSION / Math.max(header.width, header.height));
+  const width = Math.max(1, Math.round(header.width * scale));
+  const height = Math.max(1, Math.round(header.height * scale));
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${header.width} ${header.height}">` +
+    `<image width="${header.width}" height="${header.height}" preserveAspectRatio="none" ` +
+    `href="data:${header.type};base64,${data.toString("base64")}"/></svg>`;
+  const rendered = new Resvg(svg).render();
+
+  let visible = false;
+  for (let i = 3; i < rendered.pixels.length && !visible; i += 4) {
+    visible = rendered.pixels[i] > 0;
+  }
+  if (!visible) return undefined;
+
+  return { data: rendered.asPng(), contentType: "image/png", width: rendered.width, height: rendered.height };
+}
+
+// The format and size an image declares, from its first bytes
+export function readImageHeader(data: Buffer): ImageHeader | undefined {
+  return readPngHeader(data) ?? readJpegHeader(data) ?? readWebpHeader(data);
+}
+
+// Validates and re-encodes an upload, or explains why it can't be used
+export function normalizeArtwork(
+  data: Buffer,
+): { artwork: NormalizedArtwork; error?: undefined } | { artwork?: undefined; error: string } {
+  const header = readImageHeader(data);
+  if (!header) {
+    return { error: "Upload a PNG or JPEG image" };
+  }
+  if (header.animated) {
+    return { error: "Animated images can't be printed; upload a still image" };
+  }
+  if (header.type === "image/webp") {
+    return { error: "WebP images can't be used yet; save it as PNG or JPEG" };
+  }
+  if (Math.min(header.width, header.height) < MIN_ARTWORK_DIMENSION) {
+    return { error: `Images need to be at least ${MIN_ARTWORK_DIMENSION}×${MIN_ARTWORK_DIMENSION} pixels to print sharply` };
+  }
+  if (Math.max(header.width, header.height) > MAX_ARTWORK_DIMENSION) {
+    return { error: `Images can be at most ${MAX_ARTWORK_DIMENSION}×${MAX_ARTWORK_DIMENSION} pixels` };
+  }
+
+  const artwork = rasterize(data, header);
+  return artwork ? { artwork } : { error: "This image couldn't be read; try saving it again as PNG" };
+}
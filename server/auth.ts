@@ -0,0 +1,177 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import { credentialsSchema, type User as SelectUser, type PublicUser } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+
+// Stored as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, hashedBuf.length)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser({ password: _password, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not signed in" });
+  }
+  next();
+}
+
+// Staff accounts are listed by username in ADMIN_USERNAMES (comma-separated)
+export function isAdmin(user: Express.User | undefined): boolean {
+  if (!user) return false;
+  const admins = (process.env.ADMIN_USERNAMES ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(user.username.toLowerCase());
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not signed in" });
+  }
+  if (!isAdmin(req.user)) {
+    return res.status(403).json({ message: "Not allowed" });
+  }
+  next();
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return "luxsole-development-secret";
+}
+
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted account just ends the session
+      done(null, user ?? false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    const parsed = credentialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const { username, password } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate(
+      "local",
+      (err: unknown, user: SelectUser | false, info?: { message?: string }) => {
+        if (err) return next(err);
+        if (!user) {
+          return res.status(401).json({ message: info?.message ?? "Invalid username or password" });
+        }
+
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.status(200).json(toPublicUser(user));
+        });
+      },
+    )(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.clearCookie("connect.sid");
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+}
@@ -0,0 +1,129 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express, { type Request } from "express";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { CartLine, User } from "@shared/schema";
+import { storage } from "./storage";
+import { setupCart } from "./cart";
+
+let server: Server;
+let baseUrl: string;
+let user: User;
+
+beforeAll(async () => {
+  user = await storage.createUser({ username: "cart-test", password: "unused" });
+  await storage.createProduct({
+    id: "luxsole-retired-runner",
+    name: "Retired Runner",
+    description: "Taken off sale",
+    baseColor: "#072A1E",
+    accentColor: "#E1B75A",
+    material: "leather",
+    shoeType: "running",
+    price: 249,
+    active: false,
+  });
+
+  const app = express();
+  app.use(express.json());
+  // Signed in as the test user, as passport would leave it
+  app.use((req, _res, next) => {
+    req.user = user;
+    req.isAuthenticated = (() => true) as Request["isAuthenticated"];
+    next();
+  });
+  setupCart(app);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(async () => {
+  await storage.clearCart(user.id);
+});
+
+// Forest Elite is made to order in every size, standard and wide
+const line = {
+  productId: "luxsole-forest-elite",
+  baseColor: "#0F3F2B",
+  accentColor: "#1FA07A",
+  material: "nubuck",
+  shoeType: "low-top",
+  size: "9",
+  width: "standard",
+  quantity: 1,
+} as const;
+
+function send(method: string, path: string, body?: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+async function cartProducts(res: Response) {
+  return ((await res.json()) as CartLine[]).map((cartLine) => `${cartLine.id} ${cartLine.size}`);
+}
+
+describe("POST /api/cart/items", () => {
+  it("adds a line in a size and width the product is made in", async () => {
+    const res = await send("POST", "/api/cart/items", line);
+
+    expect(res.status).toBe(201);
+    expect(await cartProducts(res)).toEqual(["luxsole-forest-elite 9"]);
+  });
+
+  it("refuses a product that has been taken off sale", async () => {
+    const res = await send("POST", "/api/cart/items", { ...line, productId: "luxsole-retired-runner" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).message).toBe("Retired Runner is no longer available");
+  });
+
+  it("refuses a width the product isn't made in", async () => {
+    const res = await send("POST", "/api/cart/items", { ...line, width: "narrow" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).message).toBe("Forest Elite is not made in Narrow (B) width");
+  });
+});
+
+describe("POST /api/cart/merge", () => {
+  it("skips retired products and sizes or widths the product isn't made in", async () => {
+    const res = await send("POST", "/api/cart/merge", {
+      items: [
+        line,
+        { ...line, productId: "luxsole-retired-runner", material: "leather", shoeType: "running" },
+        { ...line, baseColor: "#000000", width: "extra-wide" },
+        { ...line, productId: "luxsole-gold-prestige", material: "glint", shoeType: "high-top", size: "7.5" },
+      ],
+    });
+
+    expect(res.status).toBe(200);
+    expect(await cartProducts(res)).toEqual(["luxsole-forest-elite 9"]);
+  });
+
+  it("keeps lines saved before sizes were required, to be given one later", async () => {
+    const res = await send("POST", "/api/cart/merge", { items: [{ ...line, size: null, width: null }] });
+
+    expect(await cartProducts(res)).toEqual(["luxsole-forest-elite null"]);
+  });
+});
+
+describe("GET /api/cart", () => {
+  it("leaves out lines whose product has since been taken off sale", async () => {
+    await send("POST", "/api/cart/items", line);
+    await storage.updateProduct("luxsole-forest-elite", { active: false });
+
+    try {
+      expect(await cartProducts(await send("GET", "/api/cart"))).toEqual([]);
+    } finally {
+      await storage.updateProduct("luxsole-forest-elite", { active: true });
+    }
+  });
+});
@@ -0,0 +1,294 @@
+import type { Express } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  applyPromoSchema,
+  cartLineInputSchema,
+  cartMergeSchema,
+  cartQuantitySchema,
+  type CartLine,
+  type Product,
+  type SavedCartLine,
+  type StockLine,
+} from "@shared/schema";
+import { configurationKey } from "@shared/configuration";
+import { DEFAULT_WIDTH, isUsSize, sizeUnavailableReason } from "@shared/sizing";
+import { priceCart, priceConfiguration, type PricedLine, type PromoQuote } from "@shared/pricing";
+import { storage } from "./storage";
+import { requireAuth } from "./auth";
+import { availableTo, holdCart, outOfStockMessage } from "./inventory";
+import { checkPromotion, toAppliedPromotion } from "./promotions";
+import { asyncHandler } from "./http";
+
+// Joins stored lines with the catalog; lines whose product has since been
+// removed or taken off sale are dropped rather than shown at a stale price
+async function loadCart(userId: number): Promise<CartLine[]> {
+  const records = await storage.getCartItems(userId);
+  const lines = await Promise.all(
+    records.map(async (record): Promise<CartLine | null> => {
+      const product = await storage.getProduct(record.productId);
+      if (!product || !product.active) return null;
+
+      return {
+        id: record.productId,
+        lineKey: record.lineKey,
+        name: product.name,
+        baseColor: record.baseColor,
+        accentColor: record.accentColor,
+        material: record.material,
+        shoeType: record.shoeType,
+        size: record.size,
+        width: record.width,
+        personalization: record.personalization,
+        partColors: record.partColors,
+        price: priceConfiguration(product.price, record).total,
+        quantity: record.quantity,
+      };
+    }),
+  );
+  return lines.filter((line): line is CartLine => line !== null);
+}
+
+// Prices lines sent by a guest from the catalog, skipping unknown products
+async function priceGuestLines(items: SavedCartLine[]): Promise<PricedLine[]> {
+  const lines = await Promise.all(
+    items.map(async (item): Promise<PricedLine | null> => {
+      const product = await storage.getProduct(item.productId);
+      if (!product || !product.active) return null;
+
+      return {
+        shoeType: item.shoeType,
+        unitPrice: priceConfiguration(product.price, item).total,
+        quantity: item.quantity,
+        personalization: item.personalization,
+      };
+    }),
+  );
+  return lines.filter((line): line is PricedLine => line !== null);
+}
+
+// Units of the same stock (product, size and material) already in the
+// customer's cart, optionally leaving out one line
+async function heldInCart(
+  userId: number,
+  combo: Omit<StockLine, "quantity">,
+  exceptLineKey?: string,
+): Promise<number> {
+  const records = await storage.getCartItems(userId);
+  return records
+    .filter(
+      (record) =>
+        record.lineKey !== exceptLineKey &&
+        record.productId === combo.productId &&
+        record.size === combo.size &&
+        record.material === combo.material,
+    )
+    .reduce((sum, record) => sum + record.quantity, 0);
+}
+
+// Checks that the cart can hold `quantity` of this line on top of `held`
+async function checkStock(
+  userId: number,
+  product: Product,
+  line: Omit<StockLine, "quantity">,
+  quantity: number,
+  held: number,
+): Promise<string | undefined> {
+  const available = await availableTo(line, userId);
+  if (available !== undefined && held + quantity > available) {
+    return outOfStockMessage(product, line, available - held);
+  }
+  return undefined;
+}
+
+// Line keys are always derived here from the submitted configuration, never
+// taken from the client
+export function setupCart(app: Express) {
+  // The account cart; guests keep theirs in localStorage until they sign in
+  app.get("/api/cart", requireAuth, asyncHandler(async (req, res) => {
+    res.json(await loadCart(req.user!.id));
+  }));
+
+  app.post("/api/cart/items", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = cartLineInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const product = await storage.getProduct(parsed.data.productId);
+    if (!product) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    if (!product.active) {
+      return res.status(400).json({ message: `${product.name} is no longer available` });
+    }
+
+    const unavailable = sizeUnavailableReason(product, parsed.data.size, parsed.data.width);
+    if (unavailable) {
+      return res.status(400).json({ message: unavailable });
+    }
+
+    const held = await heldInCart(req.user!.id, parsed.data);
+    const outOfStock = await checkStock(req.user!.id, product, parsed.data, parsed.data.quantity, held);
+    if (outOfStock) {
+      return res.status(409).json({ message: outOfStock });
+    }
+
+    await storage.addCartItem(req.user!.id, configurationKey(parsed.data), parsed.data);
+    await holdCart(req.user!.id);
+    res.status(201).json(await loadCart(req.user!.id));
+  }));
+
+  app.patch("/api/cart/items/:lineKey", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = cartQuantitySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    // Only raising a quantity needs stock; lowering always goes through
+    const records = await storage.getCartItems(req.user!.id);
+    const current = records.find((record) => record.lineKey === req.params.lineKey);
+    if (current?.size && parsed.data.quantity > current.quantity) {
+      const product = await storage.getProduct(current.productId);
+      const combo = { productId: current.productId, size: current.size, material: current.material };
+      const held = await heldInCart(req.user!.id, combo, current.lineKey);
+      const outOfStock = product && (await checkStock(req.user!.id, product, combo, parsed.data.quantity, held));
+      if (outOfStock) {
+        return res.status(409).json({ message: outOfStock });
+      }
+    }
+
+    const item = await storage.setCartItemQuantity(
+      req.user!.id,
+      req.params.lineKey,
+      parsed.data.quantity,
+    );
+    if (!item && parsed.data.quantity > 0) {
+      return res.status(404).json({ message: "Item is not in the cart" });
+    }
+
+    await holdCart(req.user!.id);
+    res.json(await loadCart(req.user!.id));
+  }));
+
+  // Replaces a line with an edited design from the customizer
+  app.put("/api/cart/items/:lineKey", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = cartLineInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const product = await storage.getProduct(parsed.data.productId);
+    if (!product) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    if (!product.active) {
+      return res.status(400).json({ message: `${product.name} is no longer available` });
+    }
+
+    const unavailable = sizeUnavailableReason(product, parsed.data.size, parsed.data.width);
+    if (unavailable) {
+      return res.status(400).json({ message: unavailable });
+    }
+
+    const held = await heldInCart(req.user!.id, parsed.data, req.params.lineKey);
+    const outOfStock = await checkStock(req.user!.id, product, parsed.data, parsed.data.quantity, held);
+    if (outOfStock) {
+      return res.status(409).json({ message: outOfStock });
+    }
+
+    const item = await storage.replaceCartItem(
+      req.user!.id,
+      req.params.lineKey,
+      configurationKey(parsed.data),
+      parsed.data,
+    );
+    if (!item) {
+      return res.status(404).json({ message: "Item is not in the cart" });
+    }
+
+    await holdCart(req.user!.id);
+    res.json(await loadCart(req.user!.id));
+  }));
+
+  app.delete("/api/cart/items/:lineKey", requireAuth, asyncHandler(async (req, res) => {
+    if (!(await storage.removeCartItem(req.user!.id, req.params.lineKey))) {
+      return res.status(404).json({ message: "Item is not in the cart" });
+    }
+
+    res.json(await loadCart(req.user!.id));
+  }));
+
+  app.delete("/api/cart", requireAuth, asyncHandler(async (req, res) => {
+    await storage.clearCart(req.user!.id);
+    res.json([]);
+  }));
+
+  // Prices the cart with a promo code. Nothing is stored: the storefront
+  // keeps the applied code and sends it again with the order. Signed-in
+  // customers are priced on their saved cart, guests on the lines they send.
+  app.post("/api/cart/apply-promo", asyncHandler(async (req, res) => {
+    const parsed = applyPromoSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const lines: PricedLine[] = req.user
+      ? (await loadCart(req.user.id)).map((line) => ({
+          shoeType: line.shoeType,
+          unitPrice: line.price,
+          quantity: line.quantity,
+          personalization: line.personalization,
+        }))
+      : await priceGuestLines(parsed.data.items ?? []);
+    if (lines.length === 0) {
+      return res.status(400).json({ message: "Your cart is empty" });
+    }
+
+    const checked = await checkPromotion(parsed.data.code, lines);
+    if ("message" in checked) {
+      return res.status(checked.status).json({ message: checked.message });
+    }
+
+    const quote: PromoQuote = {
+      promotion: toAppliedPromotion(checked.promotion),
+      totals: priceCart(lines, checked.promotion),
+    };
+    res.json(quote);
+  }));
+
+  // Folds a guest cart into the account cart after sign-in. Lines for unknown
+  // or retired products, sizes and widths the product isn't made in, and
+  // sold-out stock are skipped, and quantities are cut to what is left, so
+  // one stale line can't block the rest. Lines without a US size are kept
+  // for the customer to pick one.
+  app.post("/api/cart/merge", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = cartMergeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    for (const line of parsed.data.items) {
+      const product = await storage.getProduct(line.productId);
+      if (!product || !product.active) continue;
+      if (line.size && isUsSize(line.size) && sizeUnavailableReason(product, line.size, line.width ?? DEFAULT_WIDTH)) {
+        continue;
+      }
+
+      let quantity = line.quantity;
+      if (line.size) {
+        const combo = { productId: line.productId, size: line.size, material: line.material };
+        const available = await availableTo(combo, req.user!.id);
+        if (available !== undefined) {
+          quantity = Math.min(quantity, available - (await heldInCart(req.user!.id, combo)));
+        }
+      }
+
+      if (quantity > 0) {
+        await storage.addCartItem(req.user!.id, configurationKey(line), { ...line, quantity });
+      }
+    }
+
+    await holdCart(req.user!.id);
+    res.json(await loadCart(req.user!.id));
+  }));
+}
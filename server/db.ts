@@ -0,0 +1,18 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export function createPool(connectionString: string) {
+  return new Pool({ connectionString });
+}
+
+export function createDb(pool: Pool) {
+  return drizzle(pool, { schema });
+}
+
+// Any Postgres driver will do; the tests run DbStorage on PGlite
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
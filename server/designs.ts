@@ -0,0 +1,172 @@
+import { randomBytes } from "crypto";
+import type { Express, Request } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertDesignSchema,
+  updateDesignSchema,
+  MAX_DESIGN_NAME_LENGTH,
+  type Design,
+  type SharedDesign,
+} from "@shared/schema";
+import { priceConfiguration } from "@shared/pricing";
+import { decodeDesignLink, designPersonalization, repairDesignConfig } from "@shared/sharing";
+import { storage } from "./storage";
+import { requireAuth } from "./auth";
+import { asyncHandler } from "./http";
+import { designCard } from "./og-image";
+
+function parseDesignId(param: string): number | undefined {
+  const id = Number(param);
+  return Number.isSafeInteger(id) && id > 0 ? id : undefined;
+}
+
+// The signed-in customer's design, or undefined if it doesn't exist or
+// belongs to someone else
+async function findOwnDesign(req: Request): Promise<Design | undefined> {
+  const id = parseDesignId(req.params.id);
+  const design = id ? await storage.getDesign(id) : undefined;
+  return design && design.userId === req.user!.id ? design : undefined;
+}
+
+function toSharedDesign({ name, productId, config, shareSlug }: Design): SharedDesign {
+  return { slug: shareSlug!, name, productId, config };
+}
+
+// A shared design: a short link slug, or a whole encoded design link for
+// designs that were never saved to an account (those always contain a dot)
+export async function findLinkedDesign(link: string): Promise<Pick<Design, "name" | "productId" | "config"> | undefined> {
+  if (link.includes(".")) {
+    const decoded = decodeDesignLink(link);
+    return decoded ? { name: "Custom design", productId: decoded.productId, config: decoded.config } : undefined;
+  }
+
+  const design = await storage.getDesignByShareSlug(link);
+  // Saved before newer options existed, perhaps
+  return design && { ...design, config: repairDesignConfig(design.config).config };
+}
+
+export function designCardPath(link: string): string {
+  return `/api/designs/${encodeURIComponent(link)}/og.png`;
+}
+
+export function setupDesigns(app: Express) {
+  app.get("/api/designs", requireAuth, asyncHandler(async (req, res) => {
+    res.json(await storage.getDesigns(req.user!.id));
+  }));
+
+  app.get("/api/designs/:id", requireAuth, asyncHandler(async (req, res) => {
+    const design = await findOwnDesign(req);
+    if (!design) {
+      return res.status(404).json({ message: "Design not found" });
+    }
+
+    res.json(design);
+  }));
+
+  app.post("/api/designs", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = insertDesignSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const { productId } = parsed.data;
+    if (productId && !(await storage.getProduct(productId))) {
+      return res.status(400).json({ message: `Unknown product ${productId}` });
+    }
+
+    res.status(201).json(await storage.createDesign(req.user!.id, parsed.data));
+  }));
+
+  // Renames a design, saves a new configuration over it, or both
+  app.patch("/api/designs/:id", requireAuth, asyncHandler(async (req, res) => {
+    const parsed = updateDesignSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const design = await findOwnDesign(req);
+    if (!design) {
+      return res.status(404).json({ message: "Design not found" });
+    }
+
+    res.json(await storage.updateDesign(design.id, parsed.data));
+  }));
+
+  app.post("/api/designs/:id/duplicate", requireAuth, asyncHandler(async (req, res) => {
+    const design = await findOwnDesign(req);
+    if (!design) {
+      return res.status(404).json({ message: "Design not found" });
+    }
+
+    const copy = await storage.createDesign(req.user!.id, {
+      name: `${design.name} (copy)`.slice(0, MAX_DESIGN_NAME_LENGTH),
+      productId: design.productId,
+      config: design.config,
+    });
+    res.status(201).json(copy);
+  }));
+
+  // Creates the design's short link, or returns the one it already has
+  app.post("/api/designs/:id/share", requireAuth, asyncHandler(async (req, res) => {
+    const design = await findOwnDesign(req);
+    if (!design) {
+      return res.status(404).json({ message: "Design not found" });
+    }
+
+    const shared = await storage.setDesignShareSlug(design.id, randomBytes(6).toString("base64url"));
+    if (!shared) {
+      return res.status(404).json({ message: "Design not found" });
+    }
+
+    res.json(toSharedDesign(shared));
+  }));
+
+  // Public: what a short link opens. Shows the design as last saved.
+  app.get("/api/designs/:slug/share", asyncHandler(async (req, res) => {
+    const design = await storage.getDesignByShareSlug(req.params.slug);
+    if (!design) {
+      return res.status(404).json({ message: "This design link doesn't exist or the design was deleted" });
+    }
+
+    res.json(toSharedDesign(design));
+  }));
+
+  // Public: the preview card chat apps show for a shared design link
+  app.get("/api/designs/:id/og.png", asyncHandler(async (req, res) => {
+    const design = await findLinkedDesign(req.params.id);
+    if (!design) {
+      return res.status(404).json({ message: "This design link doesn't exist or the design was deleted" });
+    }
+
+    const { config } = design;
+    const product = design.productId ? await storage.getProduct(design.productId) : undefined;
+    const { png, etag } = designCard({
+      name: design.name,
+      config,
+      productName: product?.name,
+      price: product?.active
+        ? priceConfiguration(product.price, {
+            material: config.material,
+            personalization: designPersonalization(config),
+          }).total
+        : undefined,
+    });
+
+    // Short links show the latest save, so caches check the ETag on every use
+    res.set({ "Content-Type": "image/png", "Cache-Control": "public, no-cache", ETag: etag });
+    if (req.fresh) {
+      return res.sendStatus(304);
+    }
+
+    res.send(png);
+  }));
+
+  app.delete("/api/designs/:id", requireAuth, asyncHandler(async (req, res) => {
+    const design = await findOwnDesign(req);
+    if (!design || !(await storage.deleteDesign(design.id))) {
+      return res.status(404).json({ message: "Design not found" });
+    }
+
+    res.sendStatus(204);
+  }));
+}
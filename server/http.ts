@@ -0,0 +1,11 @@
+import type { Request, Response, NextFunction } from "express";
+
+// Express 4 doesn't forward rejected promises, so storage failures would
+// otherwise never reach the error handler in index.ts
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>,
+) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, next).catch(next);
+  };
+}
@@ -0,0 +1,95 @@
+import type { Express } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  inventoryInputSchema,
+  type Product,
+  type StockLine,
+} from "@shared/schema";
+import type { ProductStock, StockLevel } from "@shared/inventory";
+import { storage } from "./storage";
+import { requireAdmin } from "./auth";
+import { asyncHandler } from "./http";
+
+// How long a cart line holds its stock after the customer last touched the cart
+export const RESERVATION_TTL_MS = 30 * 60 * 1000;
+
+// Tracked stock for a product after active cart reservations. Pass a user id
+// to leave that customer's own reservations out, i.e. what they may hold.
+export async function getStockLevels(productId: string, excludeUserId?: number): Promise<StockLevel[]> {
+  const [records, reservations] = await Promise.all([
+    storage.getInventory(productId),
+    storage.getReservations(productId, new Date(), excludeUserId),
+  ]);
+
+  return records.map((record) => {
+    const reserved = reservations.find(
+      (line) => line.size === record.size && line.material === record.material,
+    );
+    return {
+      size: record.size,
+      material: record.material,
+      available: Math.max(0, record.quantity - (reserved?.quantity ?? 0)),
+    };
+  });
+}
+
+// How many units of one combination a customer may hold in total, or
+// undefined if the combination is made to order
+export async function availableTo(
+  combo: Omit<StockLine, "quantity">,
+  userId?: number,
+): Promise<number | undefined> {
+  const levels = await getStockLevels(combo.productId, userId);
+  return levels.find((level) => level.size === combo.size && level.material === combo.material)?.available;
+}
+
+export function outOfStockMessage(product: Product, combo: Omit<StockLine, "quantity">, available: number) {
+  const variant = `US ${combo.size} ${combo.material}`;
+  return available <= 0
+    ? `${product.name} is sold out in ${variant}`
+    : `Only ${available} of ${product.name} left in ${variant}`;
+}
+
+// Adds up lines that draw on the same stock (same product, size and material)
+export function combineStockLines(lines: StockLine[]): StockLine[] {
+  const combined = new Map<string, StockLine>();
+  for (const line of lines) {
+    const key = `${line.productId}.${line.size}.${line.material}`;
+    const existing = combined.get(key);
+    combined.set(key, existing ? { ...existing, quantity: existing.quantity + line.quantity } : { ...line });
+  }
+  return Array.from(combined.values());
+}
+
+export async function holdCart(userId: number) {
+  await storage.holdCartItems(userId, new Date(Date.now() + RESERVATION_TTL_MS));
+}
+
+export function setupInventory(app: Express) {
+  // What is left for anyone to add to a cart right now
+  app.get("/api/products/:id/stock", asyncHandler(async (req, res) => {
+    if (!(await storage.getProduct(req.params.id))) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+
+    const stock: ProductStock = {
+      productId: req.params.id,
+      levels: await getStockLevels(req.params.id),
+    };
+    res.json(stock);
+  }));
+
+  // Sets the on-hand count for a combination, starting to track it if needed
+  app.put("/api/inventory", requireAdmin, asyncHandler(async (req, res) => {
+    const parsed = inventoryInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    if (!(await storage.getProduct(parsed.data.productId))) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+
+    res.json(await storage.setInventory(parsed.data));
+  }));
+}
@@ -0,0 +1,124 @@
+import { createHash } from "crypto";
+import { Resvg } from "@resvg/resvg-js";
+import type { DesignConfig } from "@shared/schema";
+
+// Open Graph preview cards for shared designs and catalog shoes: 1200×630,
+// the size chat apps and social networks crop to. Drawn as SVG and
+// rasterized with resvg, which uses the fonts installed on the server.
+
+export interface DesignCard {
+  name: string;
+  config: DesignConfig;
+  productName?: string;
+  price?: number; // omitted when the shoe can't be bought
+  caption?: string;
+}
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const FONT = "Inter, Helvetica, Arial, DejaVu Sans, sans-serif";
+const TEXT_LEFT = 640;
+const TEXT_WIDTH = 500;
+
+// Bump when the layout changes, so cached cards and ETags are replaced
+const LAYOUT_VERSION = 1;
+const MAX_CACHED_CARDS = 200;
+
+const MATERIAL_LABELS: Record<DesignConfig["material"], string> = {
+  leather: "Leather",
+  nubuck: "Nubuck",
+  glint: "Glint",
+  knit: "Knit",
+};
+
+const SHOE_TYPE_LABELS: Record<DesignConfig["shoeType"], string> = {
+  "high-top": "High-top",
+  "low-top": "Low-top",
+  running: "Running",
+};
+
+// A texture over the base swatch hinting at the material
+const MATERIAL_FINISHES: Record<DesignConfig["material"], string> = {
+  leather: `
+    <radialGradient id="finish" cx="35%" cy="30%" r="70%">
+      <stop offset="0" stop-color="#fff" stop-opacity="0.35"/>
+      <stop offset="1" stop-color="#fff" stop-opacity="0"/>
+    </radialGradient>`,
+  nubuck: `
+    <pattern id="finish" width="6" height="6" patternUnits="userSpaceOnUse">
+      <circle cx="3" cy="3" r="1" fill="#fff" fill-opacity="0.12"/>
+    </pattern>`,
+  glint: `
+    <pattern id="finish" width="40" height="40" patternUnits="userSpaceOnUse">
+      <path d="M10 4 L12 10 L18 12 L12 14 L10 20 L8 14 L2 12 L8 10 Z" fill="#fff" fill-opacity="0.55"/>
+      <circle cx="30" cy="30" r="1.5" fill="#fff" fill-opacity="0.7"/>
+    </pattern>`,
+  knit: `
+    <pattern id="finish" width="16" height="12" patternUnits="userSpaceOnUse">
+      <path d="M0 0 L8 6 L16 0 M0 6 L8 12 L16 6" stroke="#fff" stroke-opacity="0.18" stroke-width="2" fill="none"/>
+    </pattern>`,
+};
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length - 1).trimEnd()}…` : value;
+}
+
+function cardSvg({ name, config, productName, price, caption = "Designed in the LuxSole studio" }: DesignCard): string {
+  // Long names are set smaller, then cut short; the clip catches wide glyphs
+  const title = truncate(name, 22);
+  const titleSize = Math.round(Math.min(52, Math.max(32, TEXT_WIDTH / (title.length * 0.7))));
+  const details = [MATERIAL_LABELS[config.material], SHOE_TYPE_LABELS[config.shoeType]];
+  if (config.monogram) details.push(`“${config.monogram}”`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="#072A1E"/>
+      <stop offset="1" stop-color="#0F3F2B"/>
+    </linearGradient>
+    <clipPath id="text">
+      <rect x="${TEXT_LEFT}" y="0" width="${TEXT_WIDTH}" height="${HEIGHT}"/>
+    </clipPath>
+    ${MATERIAL_FINISHES[config.material]}
+  </defs>
+  <rect width="${WIDTH}" height="${HEIGHT}" fill="url(#background)"/>
+
+  <circle cx="300" cy="300" r="180" fill="${config.baseColor}"/>
+  <circle cx="300" cy="300" r="180" fill="url(#finish)"/>
+  <circle cx="450" cy="420" r="110" fill="${config.accentColor}" stroke="#0F3F2B" stroke-width="10"/>
+
+  <g font-family="${FONT}" clip-path="url(#text)">
+    <text x="${TEXT_LEFT}" y="150" font-size="26" font-weight="700" letter-spacing="8" fill="#E1B75A">LUXSOLE</text>
+    <text x="${TEXT_LEFT}" y="250" font-size="${titleSize}" font-weight="700" fill="#FFFFFF">${escapeXml(title)}</text>
+    ${productName ? `<text x="${TEXT_LEFT}" y="305" font-size="30" fill="#D1D5DB">${escapeXml(truncate(productName, 32))}</text>` : ""}
+    <text x="${TEXT_LEFT}" y="365" font-size="26" fill="#1FA07A">${escapeXml(details.join(" · "))}</text>
+    ${price !== undefined ? `<text x="${TEXT_LEFT}" y="470" font-size="64" font-weight="700" fill="#E1B75A">$${price}</text>` : ""}
+    <text x="${TEXT_LEFT}" y="560" font-size="22" fill="#9CA3AF">${escapeXml(caption)}</text>
+  </g>
+</svg>`;
+}
+
+// Recently rendered cards by content, oldest dropped first
+const cardCache = new Map<string, Buffer>();
+
+/**
+ * The PNG for a card, rendered once per distinct content. The ETag is the
+ * content hash, so clients revalidate instead of downloading it again.
+ */
+export function designCard(card: DesignCard): { png: Buffer; etag: string } {
+  const etag = `"${createHash("sha1").update(JSON.stringify([LAYOUT_VERSION, card])).digest("base64url")}"`;
+
+  let png = cardCache.get(etag);
+  if (!png) {
+    png = new Resvg(cardSvg(card), { font: { loadSystemFonts: true } }).render().asPng();
+    cardCache.set(etag, png);
+    if (cardCache.size > MAX_CACHED_CARDS) {
+      cardCache.delete(cardCache.keys().next().value!);
+    }
+  }
+  return { png, etag };
+}
@@ -0,0 +1,174 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { PlaceOrder } from "@shared/schema";
+import { createFakeCardToken } from "@shared/fake-payments";
+import { storage } from "./storage";
+import { paymentProvider } from "./payments";
+import { setupOrders } from "./orders";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  setupOrders(app);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// The Midnight Runner's knit upper is stock-tracked; size 7 starts with 6.
+// Each test takes from the same store, so they compare before and after.
+const line = {
+  productId: "luxsole-midnight-runner",
+  baseColor: "#072A1E",
+  accentColor: "#E1B75A",
+  material: "knit",
+  shoeType: "running",
+  size: "7",
+  width: "standard",
+  quantity: 1,
+} as const;
+
+function placeOrder(overrides: Partial<PlaceOrder> = {}) {
+  const body: PlaceOrder = {
+    items: [line],
+    shippingAddress: {
+      fullName: "Alice Smith",
+      email: "alice@example.com",
+      line1: "1 Main St",
+      city: "Springfield",
+      postalCode: "12345",
+      country: "US",
+    },
+    shippingMethod: "standard",
+    paymentToken: createFakeCardToken("4242424242424242"),
+    ...overrides,
+  };
+  return fetch(`${baseUrl}/api/orders`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+async function onHand() {
+  const records = await storage.getInventory(line.productId);
+  return records.find((record) => record.size === line.size && record.material === line.material)!.quantity;
+}
+
+async function timesUsed(code: string) {
+  return (await storage.getPromotion(code))!.timesUsed;
+}
+
+describe("POST /api/orders", () => {
+  it("takes the stock and a use of the code, charges the total and saves the order", async () => {
+    const charge = vi.spyOn(paymentProvider, "charge");
+    const stock = await onHand();
+    const uses = await timesUsed("WELCOME10");
+
+    const res = await placeOrder({ promoCode: "welcome10" });
+    const order = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(order).toMatchObject({ status: "placed", promoCode: "WELCOME10", discount: 28, paymentProvider: "fake" });
+    expect(charge).toHaveBeenCalledWith(expect.objectContaining({ amount: order.total, currency: "USD" }));
+    expect((await storage.getOrder(order.id))?.paymentReference).toBe(order.paymentReference);
+    expect(await onHand()).toBe(stock - 1);
+    expect(await timesUsed("WELCOME10")).toBe(uses + 1);
+  });
+
+  it("prices lines on the server, whatever the client thought they cost", async () => {
+    const res = await placeOrder({ items: [{ ...line, personalization: { monogram: "AB" } }] });
+
+    expect((await res.json()).items[0].unitPrice).toBe(279 + 35);
+  });
+
+  it("refuses more than is in stock without taking any", async () => {
+    const stock = await onHand();
+
+    const res = await placeOrder({ items: [{ ...line, quantity: stock + 1 }] });
+
+    expect(res.status).toBe(409);
+    expect(await onHand()).toBe(stock);
+  });
+
+  it("refuses a code that doesn't exist before taking stock", async () => {
+    const stock = await onHand();
+
+    const res = await placeOrder({ promoCode: "NOPE" });
+
+    expect(res.status).toBe(404);
+    expect((await res.json()).message).toBe("NOPE isn't a valid promo code");
+    expect(await onHand()).toBe(stock);
+  });
+
+  it("hands the stock and the code back when the card is declined", async () => {
+    const createOrder = vi.spyOn(storage, "createOrder");
+    const stock = await onHand();
+    const uses = await timesUsed("WELCOME10");
+
+    const res = await placeOrder({ promoCode: "WELCOME10", paymentToken: createFakeCardToken("4000000000000002") });
+
+    expect(res.status).toBe(402);
+    expect((await res.json()).message).toBe("Your card was declined");
+    expect(createOrder).not.toHaveBeenCalled();
+    expect(await onHand()).toBe(stock);
+    expect(await timesUsed("WELCOME10")).toBe(uses);
+  });
+
+  it("cancels the charge and hands everything back when the payment provider fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const charge = vi.spyOn(paymentProvider, "charge").mockRejectedValueOnce(new Error("timeout"));
+    const cancel = vi.spyOn(paymentProvider, "cancel");
+    const stock = await onHand();
+    const uses = await timesUsed("WELCOME10");
+
+    const res = await placeOrder({ promoCode: "WELCOME10" });
+
+    expect(res.status).toBe(502);
+    expect(cancel).toHaveBeenCalledWith(charge.mock.calls[0][0].idempotencyKey);
+    expect(await onHand()).toBe(stock);
+    expect(await timesUsed("WELCOME10")).toBe(uses);
+  });
+
+  it("refunds the charge and hands everything back when the order can't be saved", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(storage, "createOrder").mockRejectedValueOnce(new Error("connection lost"));
+    const charge = vi.spyOn(paymentProvider, "charge");
+    const cancel = vi.spyOn(paymentProvider, "cancel");
+    const stock = await onHand();
+    const uses = await timesUsed("WELCOME10");
+
+    const res = await placeOrder({ promoCode: "WELCOME10" });
+
+    expect(res.status).toBe(500);
+    expect(await charge.mock.results[0].value).toMatchObject({ status: "succeeded" });
+    expect(cancel).toHaveBeenCalledWith(charge.mock.calls[0][0].idempotencyKey);
+    expect(await onHand()).toBe(stock);
+    expect(await timesUsed("WELCOME10")).toBe(uses);
+  });
+
+  it("still hands back the stock when cancelling the charge fails too", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(storage, "createOrder").mockRejectedValueOnce(new Error("connection lost"));
+    vi.spyOn(paymentProvider, "cancel").mockRejectedValueOnce(new Error("timeout"));
+    const stock = await onHand();
+
+    const res = await placeOrder();
+
+    expect(res.status).toBe(500);
+    expect(await onHand()).toBe(stock);
+  });
+});
@@ -0,0 +1,258 @@
+import { randomUUID } from "crypto";
+import type { Express } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  canTransitionOrder,
+  orderStatusLabels,
+  placeOrderSchema,
+  updateOrderStatusSchema,
+  type InsertOrderItem,
+  type OrderWithItems,
+  type Product,
+  type Promotion,
+  type StockLine,
+} from "@shared/schema";
+import { configurationKey } from "@shared/configuration";
+import { sizeUnavailableReason } from "@shared/sizing";
+import { priceConfiguration } from "@shared/pricing";
+import { estimateOrder } from "@shared/shipping";
+import { storage } from "./storage";
+import { paymentProvider, type ChargeResult } from "./payments";
+import { isAdmin, requireAdmin, requireAuth } from "./auth";
+import { asyncHandler } from "./http";
+import { availableTo, combineStockLines, outOfStockMessage } from "./inventory";
+import { checkPromotion } from "./promotions";
+import { shippingRates } from "./shipping";
+import { artworkHold, checkOrderArtwork } from "./uploads";
+
+function parseOrderId(param: string): number | undefined {
+  const id = Number(param);
+  return Number.isSafeInteger(id) && id > 0 ? id : undefined;
+}
+
+// Hands back what a failed order took. Every step is tried even if one
+// before it fails; whatever couldn't be undone is left in the log for staff.
+async function undoOrder(cause: unknown, ...steps: (() => Promise<void>)[]) {
+  console.error("Order failed after taking stock", cause);
+  for (const step of steps) {
+    try {
+      await step();
+    } catch (error) {
+      console.error("Couldn't undo part of a failed order", error);
+    }
+  }
+}
+
+export function setupOrders(app: Express) {
+  app.get("/api/orders", requireAuth, asyncHandler(async (req, res) => {
+    res.json(await storage.getOrdersByUser(req.user!.id));
+  }));
+
+  // Customers only see their own orders; staff can see any
+  app.get("/api/orders/:id", requireAuth, asyncHandler(async (req, res) => {
+    const id = parseOrderId(req.params.id);
+    const order = id ? await storage.getOrder(id) : undefined;
+    if (!order || (order.userId !== req.user!.id && !isAdmin(req.user))) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    res.json(order);
+  }));
+
+  app.patch("/api/orders/:id/status", requireAdmin, asyncHandler(async (req, res) => {
+    const parsed = updateOrderStatusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const id = parseOrderId(req.params.id);
+    const order = id ? await storage.getOrder(id) : undefined;
+    if (!id || !order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    const { status, note } = parsed.data;
+    if (!canTransitionOrder(order.status, status)) {
+      return res.status(409).json({
+        message: `An order that is ${orderStatusLabels[order.status].toLowerCase()} cannot be marked ${orderStatusLabels[status].toLowerCase()}`,
+      });
+    }
+
+    // Nothing is made with customer artwork that staff haven't approved
+    if (status === "in_production") {
+      const held = await artworkHold(order.items);
+      if (held) {
+        return res.status(409).json({ message: held });
+      }
+    }
+
+    const updated = await storage.updateOrderStatus(id, order.status, status, note);
+    if (!updated) {
+      return res.status(409).json({ message: "The order was updated by someone else; reload and try again" });
+    }
+
+    // Cancelled pairs go back on the shelf
+    if (status === "cancelled") {
+      await storage.returnStock(
+        order.items.flatMap((item): StockLine[] =>
+          item.size
+            ? [{ productId: item.productId, size: item.size, material: item.material, quantity: item.quantity }]
+            : [],
+        ),
+      );
+    }
+
+    res.json(updated);
+  }));
+
+  // Places an order for the submitted lines. Each line is priced from the
+  // catalog and its configuration at this moment, and shipping and tax from
+  // the rate table; whatever the client displayed is ignored.
+  app.post("/api/orders", asyncHandler(async (req, res) => {
+    const parsed = placeOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const { items, shippingAddress, shippingMethod, promoCode, paymentToken } = parsed.data;
+
+    const orderItems: InsertOrderItem[] = [];
+    const productsById = new Map<string, Product>();
+    for (const line of items) {
+      const product = await storage.getProduct(line.productId);
+      if (!product || !product.active) {
+        return res.status(400).json({ message: `${line.productId} is no longer available` });
+      }
+
+      const unavailable = sizeUnavailableReason(product, line.size, line.width);
+      if (unavailable) {
+        return res.status(400).json({ message: unavailable });
+      }
+
+      productsById.set(product.id, product);
+      orderItems.push({
+        productId: product.id,
+        lineKey: configurationKey(line),
+        name: product.name,
+        baseColor: line.baseColor,
+        accentColor: line.accentColor,
+        material: line.material,
+        shoeType: line.shoeType,
+        size: line.size,
+        width: line.width,
+        personalization: line.personalization,
+        partColors: line.partColors,
+        unitPrice: priceConfiguration(product.price, line).total,
+        quantity: line.quantity,
+      });
+    }
+
+    const artworkProblem = await checkOrderArtwork(orderItems, req.user?.id);
+    if (artworkProblem) {
+      return res.status(400).json({ message: artworkProblem });
+    }
+
+    let promotion: Promotion | undefined;
+    if (promoCode) {
+      const checked = await checkPromotion(promoCode, orderItems);
+      if ("message" in checked) {
+        return res.status(checked.status).json({ message: checked.message });
+      }
+      promotion = checked.promotion;
+    }
+
+    // Shipping and tax depend on where the order is going
+    const { estimate, error } = estimateOrder(shippingRates, {
+      country: shippingAddress.country,
+      method: shippingMethod,
+      lines: orderItems,
+      promotion,
+    });
+    if (!estimate) {
+      return res.status(400).json({ message: error });
+    }
+    const [discount] = estimate.discounts;
+
+    // The customer's own cart reservations count towards what they may buy
+    const stockLines = combineStockLines(
+      items.map(({ productId, size, material, quantity }) => ({ productId, size, material, quantity })),
+    );
+    for (const line of stockLines) {
+      const available = await availableTo(line, req.user?.id);
+      if (available !== undefined && line.quantity > available) {
+        return res.status(409).json({
+          message: outOfStockMessage(productsById.get(line.productId)!, line, available),
+        });
+      }
+    }
+
+    // Stock is taken before charging so two buyers can't both pay for the last
+    // pair, and handed back if the payment fails
+    if (!(await storage.takeStock(stockLines))) {
+      return res.status(409).json({ message: "Part of your order has just sold out; please review your cart" });
+    }
+
+    // The last use of a limited code can be claimed by someone else meanwhile
+    if (discount && !(await storage.redeemPromotion(discount.code))) {
+      await storage.returnStock(stockLines);
+      return res.status(409).json({ message: `${discount.code} has reached its usage limit` });
+    }
+
+    // Whatever goes wrong from here on, the stock and the code go back
+    const release = async () => {
+      await storage.returnStock(stockLines);
+      if (discount) await storage.releasePromotion(discount.code);
+    };
+
+    const idempotencyKey = randomUUID();
+    let charge: ChargeResult;
+    try {
+      charge = await paymentProvider.charge({
+        amount: estimate.total,
+        currency: "USD",
+        token: paymentToken,
+        description: `LuxSole order for ${shippingAddress.email}`,
+        idempotencyKey,
+      });
+    } catch (error) {
+      // The charge may have gone through before the failure
+      await undoOrder(error, () => paymentProvider.cancel(idempotencyKey), release);
+      return res.status(502).json({ message: "We couldn't take your payment and anything charged has been cancelled; please try again" });
+    }
+    if (charge.status === "declined") {
+      await release();
+      return res.status(402).json({ message: charge.message });
+    }
+
+    let order: OrderWithItems;
+    try {
+      order = await storage.createOrder(
+        {
+          userId: req.user?.id ?? null,
+          email: shippingAddress.email,
+          shippingAddress,
+          shippingMethod,
+          subtotal: estimate.subtotal,
+          shippingCost: estimate.shipping,
+          promoCode: discount?.code ?? null,
+          discount: discount?.amount ?? 0,
+          tax: estimate.tax,
+          total: estimate.total,
+          paymentProvider: paymentProvider.name,
+          paymentReference: charge.reference,
+        },
+        orderItems,
+      );
+    } catch (error) {
+      // Charged with no order to show for it: the money goes back too
+      await undoOrder(error, () => paymentProvider.cancel(idempotencyKey), release);
+      return res.status(500).json({ message: "We couldn't save your order, so your payment has been refunded; please try again" });
+    }
+
+    if (req.user) {
+      await storage.clearCart(req.user.id);
+    }
+
+    res.status(201).json(order);
+  }));
+}
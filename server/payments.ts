@@ -0,0 +1,85 @@
+import { randomBytes } from "crypto";
+import type { Express } from "express";
+import { fakeCardOutcome } from "@shared/fake-payments";
+
+export interface ChargeRequest {
+  amount: number; // whole dollars, like every price in the catalog
+  currency: string;
+  token: string;
+  description: string;
+  // One per order attempt; a charge retried or cancelled under the same
+  // key is the same charge
+  idempotencyKey: string;
+}
+
+export type ChargeResult =
+  | { status: "succeeded"; reference: string }
+  | { status: "declined"; message: string };
+
+// Implemented once per payment processor; checkout only talks to this
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  // Voids or refunds whatever was charged under this key, if anything was.
+  // Also used when charge() failed and whether it went through is unknown.
+  cancel(idempotencyKey: string): Promise<void>;
+}
+
+// Local stand-in for development and tests. Its tokens come from
+// createFakeCardToken() in the browser and say whether to approve.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  private readonly charges = new Map<string, string>(); // idempotency key → reference
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    const previous = this.charges.get(request.idempotencyKey);
+    if (previous) {
+      return { status: "succeeded", reference: previous };
+    }
+
+    const outcome = fakeCardOutcome(request.token);
+    if (!outcome) {
+      return { status: "declined", message: "Your card details couldn't be read; enter them again" };
+    }
+    if (outcome === "decline") {
+      return { status: "declined", message: "Your card was declined" };
+    }
+    if (request.amount <= 0) {
+      return { status: "declined", message: "Nothing to charge" };
+    }
+
+    const reference = `fake_${randomBytes(8).toString("hex")}`;
+    this.charges.set(request.idempotencyKey, reference);
+    return { status: "succeeded", reference };
+  }
+
+  async cancel(idempotencyKey: string): Promise<void> {
+    this.charges.delete(idempotencyKey);
+  }
+}
+
+const providers: Record<string, () => PaymentProvider> = {
+  fake: () => new FakePaymentProvider(),
+};
+
+function createPaymentProvider(): PaymentProvider {
+  const name = process.env.PAYMENT_PROVIDER ?? "fake";
+  const create = providers[name];
+  if (!create) {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+  }
+  // Orders placed through it are fulfilled without anyone being charged
+  if (name === "fake" && process.env.NODE_ENV === "production") {
+    throw new Error("The fake payment provider can't be used in production; set PAYMENT_PROVIDER to a real one");
+  }
+  return create();
+}
+
+export const paymentProvider = createPaymentProvider();
+
+export function setupPayments(app: Express) {
+  // Which provider's browser code turns card details into a payment token
+  app.get("/api/payments/config", (_req, res) => {
+    res.json({ provider: paymentProvider.name });
+  });
+}
@@ -0,0 +1,121 @@
+import { readFileSync } from "fs";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_DESIGN_CONFIG, encodeDesignLink } from "@shared/sharing";
+import { storage } from "./storage";
+import { prerenderPage, renderIntoTemplate } from "./prerender";
+import { asyncHandler } from "./http";
+
+const template = readFileSync(new URL("../client/index.html", import.meta.url), "utf8");
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  await storage.createProduct({
+    id: "luxsole-script-runner",
+    name: "Break </script><script>alert(1)</script> Runner",
+    description: "Names come from staff, but are still only text",
+    baseColor: "#072A1E",
+    accentColor: "#E1B75A",
+    material: "leather",
+    shoeType: "running",
+    price: 299,
+  });
+
+  // As server/vite.ts serves index.html
+  const app = express();
+  app.use("*", asyncHandler(async (req, res) => {
+    const prerendered = await prerenderPage(req);
+    res
+      .status(prerendered?.status ?? 200)
+      .send(prerendered?.page ? renderIntoTemplate(template, prerendered.page, req) : template);
+  }));
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+async function page(path: string) {
+  const res = await fetch(baseUrl + path);
+  return { status: res.status, html: await res.text() };
+}
+
+function meta(html: string, property: string): string | undefined {
+  return new RegExp(`<meta property="${property}" content="([^"]*)"`).exec(html)?.[1];
+}
+
+function jsonLd(html: string) {
+  const scripts = Array.from(html.matchAll(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/g));
+  expect(scripts).toHaveLength(1);
+  return JSON.parse(scripts[0][1]);
+}
+
+describe("prerendered product pages", () => {
+  it("keeps a name with </script> inside the JSON-LD", async () => {
+    const { status, html } = await page("/product/luxsole-script-runner");
+
+    expect(status).toBe(200);
+    expect(jsonLd(html)).toMatchObject({
+      "@type": "Product",
+      name: "LuxSole Break </script><script>alert(1)</script> Runner",
+    });
+    expect(html).not.toContain("<script>alert(1)");
+    expect(html).toContain(">LuxSole Break &#60;/script&#62;&#60;script&#62;alert(1)&#60;/script&#62; Runner</h1>");
+  });
+
+  it("puts the markup beside the app's root, not in it", async () => {
+    const { html } = await page("/product/luxsole-emerald-runner");
+
+    expect(html).toMatch(/<div id="prerendered">[\s\S]*Emerald Runner[\s\S]*<\/div>\s*<div id="root"><\/div>/);
+  });
+
+  it("answers 404 for a product that doesn't exist", async () => {
+    const { status, html } = await page("/product/luxsole-nothing");
+
+    expect(status).toBe(404);
+    expect(html).not.toContain('id="prerendered"');
+  });
+});
+
+describe("shared design links", () => {
+  const config = { ...DEFAULT_DESIGN_CONFIG, material: "glint" as const, shoeType: "high-top" as const };
+  const link = encodeDesignLink({ productId: "luxsole-gold-prestige", config });
+
+  it("gives ?design= links the design's preview, over the page's own", async () => {
+    const { html } = await page(`/collection?design=${link}`);
+
+    expect(meta(html, "og:title")).toBe("Custom design — LuxSole");
+    expect(meta(html, "og:description")).toBe("A custom high-top in glint, designed in the LuxSole 3D studio.");
+    expect(meta(html, "og:image")).toBe(`${baseUrl}/api/designs/${encodeURIComponent(link)}/og.png`);
+    expect(meta(html, "og:url")).toBe(`${baseUrl}/collection?design=${encodeURIComponent(link)}`);
+    expect(meta(html, "twitter:title")).toBe("Custom design — LuxSole");
+    // The page itself is still the collection
+    expect(jsonLd(html)["@type"]).toBe("ItemList");
+  });
+
+  it("gives ?share= links the saved design's name", async () => {
+    const user = await storage.createUser({ username: "prerender-test", password: "unused" });
+    const design = await storage.createDesign(user.id, { name: "Night Out", productId: null, config });
+    await storage.setDesignShareSlug(design.id, "night-out-slug");
+
+    const { status, html } = await page("/?share=night-out-slug");
+
+    expect(status).toBe(200);
+    expect(meta(html, "og:title")).toBe("Night Out — LuxSole");
+    expect(meta(html, "og:image")).toBe(`${baseUrl}/api/designs/night-out-slug/og.png`);
+  });
+
+  it("leaves the page's own tags for a link that can't be read", async () => {
+    const { html } = await page("/product/luxsole-emerald-runner?design=garbage");
+
+    expect(meta(html, "og:title")).toBe("LuxSole Emerald Runner — LuxSole");
+    expect(meta(html, "og:image")).toBe(`${baseUrl}/api/products/luxsole-emerald-runner/card.png`);
+  });
+});
@@ -0,0 +1,317 @@
+import type { Express, Request } from "express";
+import type { Product } from "@shared/schema";
+import { summarizeStock, type StockStatus } from "@shared/inventory";
+import { priceConfiguration } from "@shared/pricing";
+import {
+  DEFAULT_DESIGN_CONFIG,
+  DESIGN_LINK_PARAM,
+  SHORT_LINK_PARAM,
+  designLinkSummary,
+} from "@shared/sharing";
+import { storage } from "./storage";
+import { getStockLevels } from "./inventory";
+import { designCard } from "./og-image";
+import { designCardPath, findLinkedDesign } from "./designs";
+import { asyncHandler } from "./http";
+
+// The collection and product pages are rendered into index.html on the
+// server, so crawlers and link previews get the name, description, price,
+// a picture and JSON-LD structured data without running any JavaScript.
+// That markup is for them alone: it sits beside the app's root rather than
+// in it, since it isn't what React would render, and the app removes it as
+// it mounts. The app does start from the product data embedded here instead
+// of fetching it again; the 3D views only ever render in the browser. A page opened from a shared design link
+// gets the design's preview tags, whatever page it is.
+
+export interface PrerenderedPage {
+  title: string;
+  description: string;
+  path: string; // canonical
+  image?: string;
+  jsonLd?: object;
+  body?: string;
+  // Query results for the client's cache, by query key
+  data?: Record<string, unknown>;
+}
+
+// Mirrors the paths in client/src/lib/routes.ts
+const COLLECTION_PATH = "/collection";
+const PRODUCT_PATH = /^\/product\/([^/]+)$/;
+
+const SITE_NAME = "LuxSole";
+const COLLECTION_SIZE = 100; // the most a products page holds
+
+const SHOE_TYPE_LABELS: Record<Product["shoeType"], string> = {
+  "high-top": "High-top",
+  "low-top": "Low-top",
+  running: "Running",
+};
+
+const AVAILABILITY: Record<StockStatus, string> = {
+  in_stock: "https://schema.org/InStock",
+  low_stock: "https://schema.org/LimitedAvailability",
+  sold_out: "https://schema.org/OutOfStock",
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// JSON inside a <script>, where "</script>" would end it early
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+function siteOrigin(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+function productPath(id: string): string {
+  return `/product/${encodeURIComponent(id)}`;
+}
+
+export function productCardPath(id: string): string {
+  return `/api/products/${encodeURIComponent(id)}/card.png`;
+}
+
+// As the collection lists it, before size, width or personalization
+function listPrice(product: Product): number {
+  return priceConfiguration(product.price, { material: product.material }).total;
+}
+
+function productLabel(product: Product): string {
+  return `${product.material} ${SHOE_TYPE_LABELS[product.shoeType].toLowerCase()}`;
+}
+
+function productJsonLd(product: Product, origin: string, availability: StockStatus) {
+  return {
+    "@type": "Product",
+    name: `${SITE_NAME} ${product.name}`,
+    description: product.description || undefined,
+    sku: product.id,
+    brand: { "@type": "Brand", name: SITE_NAME },
+    category: `${SHOE_TYPE_LABELS[product.shoeType]} shoes`,
+    material: product.material,
+    color: product.baseColor,
+    image: origin + productCardPath(product.id),
+    url: origin + productPath(product.id),
+    offers: {
+      "@type": "Offer",
+      price: listPrice(product).toFixed(2),
+      priceCurrency: "USD",
+      availability: AVAILABILITY[availability],
+      url: origin + productPath(product.id),
+    },
+  };
+}
+
+async function productAvailability(product: Product): Promise<StockStatus> {
+  return summarizeStock(await getStockLevels(product.id), product.sizes, product.material);
+}
+
+async function renderProduct(id: string, origin: string): Promise<PrerenderedPage | undefined> {
+  const product = await storage.getProduct(id);
+  if (!product?.active) return undefined;
+
+  const name = `${SITE_NAME} ${product.name}`;
+  const price = listPrice(product);
+  const availability = await productAvailability(product);
+
+  return {
+    title: `${name} — ${SITE_NAME}`,
+    description: product.description || `The ${name}, a ${productLabel(product)} from ${SITE_NAME}.`,
+    path: productPath(product.id),
+    image: productCardPath(product.id),
+    jsonLd: { "@context": "https://schema.org", ...productJsonLd(product, origin, availability) },
+    data: { [`/api/products/${encodeURIComponent(product.id)}`]: product },
+    body: `<div class="min-h-screen bg-luxsole-dark-green pt-16 md:pt-20">
+  <div class="max-w-7xl mx-auto px-4 py-8">
+    <nav class="mb-8">
+      <div class="flex items-center space-x-2 text-sm text-gray-400">
+        <a href="/" class="hover:text-luxsole-emerald transition-colors">Home</a>
+        <span>/</span>
+        <a href="${COLLECTION_PATH}" class="hover:text-luxsole-emerald transition-colors">Collection</a>
+        <span>/</span>
+        <span class="text-luxsole-emerald">${escapeHtml(name)}</span>
+      </div>
+    </nav>
+    <div class="grid grid-cols-1 lg:grid-cols-2 gap-12">
+      <img src="${productCardPath(product.id)}" alt="${escapeHtml(name)}" width="1200" height="630" class="w-full rounded-lg" />
+      <div>
+        <h1 class="text-4xl font-bold text-luxsole-gradient mb-4">${escapeHtml(name)}</h1>
+        <p class="text-xl text-gray-300 mb-6">${escapeHtml(product.description)}</p>
+        <p class="text-3xl font-bold text-luxsole-gold">$${price.toLocaleString("en-US")}</p>
+        ${availability === "sold_out" ? `<p class="mt-3 text-sm text-luxsole-gold">Sold out</p>` : ""}
+      </div>
+    </div>
+  </div>
+</div>`,
+  };
+}
+
+async function renderCollection(origin: string): Promise<PrerenderedPage> {
+  const { items } = await storage.getProducts({ sort: "featured", page: 1, pageSize: COLLECTION_SIZE });
+  const availability = await Promise.all(items.map(productAvailability));
+
+  const cards = items.map(
+    (product) => `<li>
+        <a href="${productPath(product.id)}" class="block glass-effect rounded-2xl overflow-hidden">
+          <img src="${productCardPath(product.id)}" alt="" width="1200" height="630" class="w-full" loading="lazy" />
+          <div class="p-6">
+            <h3 class="text-xl font-bold text-white">${escapeHtml(product.name)}</h3>
+            <p class="text-sm text-gray-400 capitalize mt-1">${escapeHtml(product.material)} Finish</p>
+            <p class="text-2xl font-bold text-luxsole-gold mt-4">$${listPrice(product)}</p>
+          </div>
+        </a>
+      </li>`,
+  );
+
+  return {
+    title: `The Collection — ${SITE_NAME}`,
+    description: `Explore the ${SITE_NAME} collection: ${items.map((product) => product.name).join(", ")}. Customize any pair in 3D.`,
+    path: COLLECTION_PATH,
+    image: items[0] ? productCardPath(items[0].id) : undefined,
+    jsonLd: {
+      "@context": "https://schema.org",
+      "@type": "ItemList",
+      name: `The ${SITE_NAME} Collection`,
+      itemListElement: items.map((product, index) => ({
+        "@type": "ListItem",
+        position: index + 1,
+        item: productJsonLd(product, origin, availability[index]),
+      })),
+    },
+    body: `<section class="min-h-screen py-20 px-4 sm:px-6 lg:px-8 bg-luxsole-neutral">
+  <div class="max-w-7xl mx-auto">
+    <div class="text-center mb-16">
+      <h1 class="text-4xl md:text-6xl font-bold text-luxsole-gradient mb-4">The Collection</h1>
+      <p class="text-gray-400 text-lg max-w-2xl mx-auto">Explore the Craft</p>
+    </div>
+    <ul class="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+      ${cards.join("\n      ")}
+    </ul>
+  </div>
+</section>`,
+  };
+}
+
+// The preview of the design in a ?design= or ?share= link, which replaces
+// the page's own title, description and picture
+async function renderDesignLink(
+  req: Request,
+  path: string,
+): Promise<Pick<PrerenderedPage, "title" | "description" | "path" | "image"> | undefined> {
+  for (const param of [SHORT_LINK_PARAM, DESIGN_LINK_PARAM]) {
+    const link = req.query[param];
+    if (typeof link !== "string" || !link) continue;
+
+    const design = await findLinkedDesign(link);
+    if (!design) return undefined;
+    return {
+      ...designLinkSummary(design.name, design.config),
+      path: `${path}?${new URLSearchParams({ [param]: link })}`,
+      image: designCardPath(link),
+    };
+  }
+  return undefined;
+}
+
+async function renderPath(path: string, origin: string): Promise<{ status: number; page?: PrerenderedPage } | undefined> {
+  if (path === COLLECTION_PATH) {
+    return { status: 200, page: await renderCollection(origin) };
+  }
+
+  // Product ids are URL-safe, so the path needs no decoding
+  const match = PRODUCT_PATH.exec(path);
+  if (match) {
+    const page = await renderProduct(match[1], origin);
+    return page ? { status: 200, page } : { status: 404 };
+  }
+  return undefined;
+}
+
+/**
+ * The server-rendered content for a page the app serves, or undefined for
+ * pages that are only rendered in the browser. A product that doesn't
+ * exist or is no longer sold gets a 404 with the plain app, which shows
+ * its own not-found message.
+ */
+export async function prerenderPage(
+  req: Request,
+): Promise<{ status: number; page?: PrerenderedPage } | undefined> {
+  if (req.method !== "GET") return undefined;
+
+  // Served from a catch-all, where req.path is always "/"
+  const path = req.originalUrl.split("?")[0];
+  const rendered = await renderPath(path, siteOrigin(req));
+  const design = await renderDesignLink(req, path);
+  if (!design) return rendered;
+
+  return { status: rendered?.status ?? 200, page: { ...rendered?.page, ...design } };
+}
+
+function setMeta(html: string, attribute: "name" | "property", key: string, content: string): string {
+  return html.replace(
+    new RegExp(`(<meta ${attribute}="${key}" content=")[^"]*(")`),
+    (_match, start: string, end: string) => start + escapeHtml(content) + end,
+  );
+}
+
+// Fills index.html with a prerendered page: its title, description,
+// canonical URL and preview tags, its structured data, and its markup just
+// before the root element
+export function renderIntoTemplate(template: string, page: PrerenderedPage, req: Request): string {
+  const origin = siteOrigin(req);
+  const url = origin + page.path;
+  let html = template.replace(/<title>[^<]*<\/title>/, () => `<title>${escapeHtml(page.title)}</title>`);
+
+  html = setMeta(html, "name", "title", page.title);
+  html = setMeta(html, "name", "description", page.description);
+  for (const prefix of ["og", "twitter"]) {
+    html = setMeta(html, "property", `${prefix}:url`, url);
+    html = setMeta(html, "property", `${prefix}:title`, page.title);
+    html = setMeta(html, "property", `${prefix}:description`, page.description);
+    if (page.image) {
+      html = setMeta(html, "property", `${prefix}:image`, origin + page.image);
+    }
+  }
+  html = html.replace(/(<link rel="canonical" href=")[^"]*(")/, (_match, start: string, end: string) => start + escapeHtml(url) + end);
+
+  const head = page.jsonLd ? `<script type="application/ld+json">${scriptJson(page.jsonLd)}</script>\n  ` : "";
+  const data = page.data ? `<script id="prerendered-data" type="application/json">${scriptJson(page.data)}</script>\n    ` : "";
+  const body = page.body ? `<div id="prerendered">${page.body}</div>\n    ` : "";
+  return html
+    .replace("</head>", () => `${head}</head>`)
+    .replace('<div id="root"></div>', () => `${data}${body}<div id="root"></div>`);
+}
+
+export function setupPrerender(app: Express) {
+  // The picture prerendered pages, structured data and link previews use
+  // for a shoe, where the 3D view can't be shown
+  app.get("/api/products/:id/card.png", asyncHandler(async (req, res) => {
+    const product = await storage.getProduct(req.params.id);
+    if (!product) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+
+    const { png, etag } = designCard({
+      name: product.name,
+      config: {
+        ...DEFAULT_DESIGN_CONFIG,
+        baseColor: product.baseColor,
+        accentColor: product.accentColor,
+        material: product.material,
+        shoeType: product.shoeType,
+      },
+      price: product.active ? listPrice(product) : undefined,
+      caption: "Customize it in 3D at LuxSole",
+    });
+
+    res.set({ "Content-Type": "image/png", "Cache-Control": "public, max-age=3600", ETag: etag });
+    if (req.fresh) {
+      return res.sendStatus(304);
+    }
+
+    res.send(png);
+  }));
+}
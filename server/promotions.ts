@@ -0,0 +1,53 @@
+import type { Express } from "express";
+import { fromZodError } from "zod-validation-error";
+import { insertPromotionSchema, type AppliedPromotion, type Promotion } from "@shared/schema";
+import { evaluatePromotion, promotionUnavailableReason, type Discount, type PricedLine } from "@shared/pricing";
+import { storage } from "./storage";
+import { requireAdmin } from "./auth";
+import { asyncHandler } from "./http";
+
+export function toAppliedPromotion({ code, description, kind, amount, shoeType }: Promotion): AppliedPromotion {
+  return { code, description, kind, amount, shoeType };
+}
+
+// Looks a code up and checks it against the lines being priced. A failure
+// carries the status and message to answer with.
+export async function checkPromotion(
+  code: string,
+  lines: readonly PricedLine[],
+): Promise<{ promotion: Promotion; discount: Discount } | { status: number; message: string }> {
+  const promotion = await storage.getPromotion(code);
+  if (!promotion) {
+    return { status: 404, message: `${code} isn't a valid promo code` };
+  }
+
+  const unavailable = promotionUnavailableReason(promotion, new Date());
+  if (unavailable) {
+    return { status: 400, message: unavailable };
+  }
+
+  const { discount, error } = evaluatePromotion(promotion, lines);
+  if (!discount) {
+    return { status: 400, message: error };
+  }
+  return { promotion, discount };
+}
+
+export function setupPromotions(app: Express) {
+  app.get("/api/promotions", requireAdmin, asyncHandler(async (_req, res) => {
+    res.json(await storage.getPromotions());
+  }));
+
+  app.post("/api/promotions", requireAdmin, asyncHandler(async (req, res) => {
+    const parsed = insertPromotionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    if (await storage.getPromotion(parsed.data.code)) {
+      return res.status(409).json({ message: `${parsed.data.code} already exists` });
+    }
+
+    res.status(201).json(await storage.createPromotion(parsed.data));
+  }));
+}
@@ -1,6 +1,23 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertProductSchema,
+  productQuerySchema,
+  updateProductSchema,
+} from "@shared/schema";
 import { storage } from "./storage";
+import { requireAdmin, setupAuth } from "./auth";
+import { setupCart } from "./cart";
+import { setupOrders } from "./orders";
+import { setupPayments } from "./payments";
+import { setupInventory } from "./inventory";
+import { setupPromotions } from "./promotions";
+import { setupShipping } from "./shipping";
+import { setupDesigns } from "./designs";
+import { setupUploads } from "./uploads";
+import { setupPrerender } from "./prerender";
+import { asyncHandler } from "./http";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
@@ -9,6 +26,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  setupAuth(app);
+
+  // Product catalog
+  app.get("/api/products", asyncHandler(async (req, res) => {
+    const parsed = productQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    res.json(await storage.getProducts(parsed.data));
+  }));
+
+  app.get("/api/products/:id", asyncHandler(async (req, res) => {
+    const product = await storage.getProduct(req.params.id);
+    if (!product) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+
+    res.json(product);
+  }));
+
+  // Staff only: prices here are what orders are charged
+  app.post("/api/products", requireAdmin, asyncHandler(async (req, res) => {
+    const parsed = insertProductSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    if (await storage.getProduct(parsed.data.id)) {
+      return res.status(409).json({ message: "A product with this id already exists" });
+    }
+
+    res.status(201).json(await storage.createProduct(parsed.data));
+  }));
+
+  app.patch("/api/products/:id", requireAdmin, asyncHandler(async (req, res) => {
+    const parsed = updateProductSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const product = await storage.updateProduct(req.params.id, parsed.data);
+    if (!product) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+
+    res.json(product);
+  }));
+
+  setupInventory(app);
+  setupCart(app);
+  setupPromotions(app);
+  setupShipping(app);
+  setupPayments(app);
+  setupOrders(app);
+  setupDesigns(app);
+  setupUploads(app);
+  setupPrerender(app);
+
   const httpServer = createServer(app);
 
   return httpServer;
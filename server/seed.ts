@@ -0,0 +1,134 @@
+import type { InsertProduct, InsertPromotion, InventoryInput } from "@shared/schema";
+
+// Launch collection, loaded into empty stores so a fresh install has
+// something to show. New colorways are added through /api/products.
+export const DEFAULT_PRODUCTS: InsertProduct[] = [
+  {
+    id: "luxsole-emerald-runner",
+    name: "Emerald Runner",
+    description: "A masterpiece of modern luxury, combining cutting-edge design with traditional craftsmanship.",
+    baseColor: "#1FA07A",
+    accentColor: "#E1B75A",
+    material: "leather",
+    shoeType: "running",
+    price: 299,
+    widths: ["narrow", "standard", "wide"],
+    sortOrder: 1,
+  },
+  {
+    id: "luxsole-forest-elite",
+    name: "Forest Elite",
+    description: "Deep forest nubuck with emerald accents, cut low for everyday elegance.",
+    baseColor: "#0F3F2B",
+    accentColor: "#1FA07A",
+    material: "nubuck",
+    shoeType: "low-top",
+    price: 349,
+    widths: ["standard", "wide"],
+    sortOrder: 2,
+  },
+  {
+    id: "luxsole-gold-prestige",
+    name: "Gold Prestige",
+    description: "A metallic glint high-top that catches light from every angle.",
+    baseColor: "#E1B75A",
+    accentColor: "#072A1E",
+    material: "glint",
+    shoeType: "high-top",
+    price: 399,
+    // Limited run: made in full sizes only
+    sizes: ["7", "8", "9", "10", "11", "12"],
+    widths: ["standard", "wide"],
+    sortOrder: 3,
+  },
+  {
+    id: "luxsole-midnight-runner",
+    name: "Midnight Runner",
+    description: "Technical knit runner in midnight green, engineered for lightweight comfort.",
+    baseColor: "#072A1E",
+    accentColor: "#E1B75A",
+    material: "knit",
+    shoeType: "running",
+    price: 279,
+    widths: ["narrow", "standard", "wide"],
+    sortOrder: 4,
+  },
+  {
+    id: "luxsole-forest-hightop",
+    name: "Forest High-Top",
+    description: "Full-grain leather high-top with tall ankle support and emerald detailing.",
+    baseColor: "#072A1E",
+    accentColor: "#1FA07A",
+    material: "leather",
+    shoeType: "high-top",
+    price: 379,
+    widths: ["standard", "wide", "extra-wide"],
+    sortOrder: 5,
+  },
+  {
+    id: "luxsole-gold-lowtop",
+    name: "Gold Classic",
+    description: "Our classic low-top profile in soft gold nubuck.",
+    baseColor: "#E1B75A",
+    accentColor: "#0F3F2B",
+    material: "nubuck",
+    shoeType: "low-top",
+    price: 329,
+    widths: ["standard", "wide"],
+    sortOrder: 6,
+  },
+];
+
+// Limited runs are stock-tracked; everything else is made to order. The
+// Gold Prestige glint edition is a numbered run, and the Midnight Runner's
+// knit upper comes from a single batch of yarn.
+export const DEFAULT_INVENTORY: InventoryInput[] = [
+  ...([
+    ["7", 2],
+    ["8", 5],
+    ["9", 0],
+    ["10", 4],
+    ["11", 1],
+    ["12", 3],
+  ] as const).map(([size, quantity]) => ({
+    productId: "luxsole-gold-prestige",
+    size,
+    material: "glint" as const,
+    quantity,
+  })),
+  ...([
+    ["7", 6],
+    ["7.5", 8],
+    ["8", 10],
+    ["8.5", 12],
+    ["9", 0],
+    ["9.5", 0],
+    ["10", 2],
+    ["10.5", 9],
+    ["11", 7],
+    ["11.5", 3],
+    ["12", 5],
+  ] as const).map(([size, quantity]) => ({
+    productId: "luxsole-midnight-runner",
+    size,
+    material: "knit" as const,
+    quantity,
+  })),
+];
+
+// Launch promo codes. LAUNCH25 ran for launch week only and is kept so an
+// expired code can be tried out.
+export const DEFAULT_PROMOTIONS: InsertPromotion[] = [
+  { code: "WELCOME10", kind: "percent", amount: 10, description: "Welcome — 10% off" },
+  { code: "ATELIER50", kind: "fixed", amount: 50, usageLimit: 500 },
+  { code: "MONOGRAM", kind: "free_monogram" },
+  { code: "PAIRUP", kind: "buy_two_save", amount: 20 },
+  { code: "RUNCLUB15", kind: "percent", amount: 15, shoeType: "running" },
+  {
+    code: "LAUNCH25",
+    kind: "percent",
+    amount: 25,
+    startsAt: new Date("2025-03-01T00:00:00Z"),
+    endsAt: new Date("2025-03-08T00:00:00Z"),
+  },
+];
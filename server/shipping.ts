@@ -0,0 +1,25 @@
+import fs from "fs";
+import path from "path";
+import type { Express } from "express";
+import { fromZodError } from "zod-validation-error";
+import { shippingRateTableSchema, type ShippingRateTable } from "@shared/shipping";
+
+// Rates are read once at startup. SHIPPING_RATES_FILE points at another
+// table, e.g. per deployment, without a code change.
+function loadShippingRates(): ShippingRateTable {
+  const file = process.env.SHIPPING_RATES_FILE ?? path.resolve(process.cwd(), "server/data/shipping-rates.json");
+  const parsed = shippingRateTableSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf8")));
+  if (!parsed.success) {
+    throw new Error(`Invalid shipping rates in ${file}: ${fromZodError(parsed.error).message}`);
+  }
+  return parsed.data;
+}
+
+export const shippingRates = loadShippingRates();
+
+export function setupShipping(app: Express) {
+  // The storefront estimates shipping and tax from the same table
+  app.get("/api/shipping/rates", (_req, res) => {
+    res.json(shippingRates);
+  });
+}
@@ -0,0 +1,362 @@
+import { createRequire } from "module";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { getTableName, is, sql } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import session from "express-session";
+import * as schema from "@shared/schema";
+import { MAX_LINE_QUANTITY, type CartLineInput, type InsertOrder, type InsertOrderItem } from "@shared/schema";
+import { configurationKey } from "@shared/configuration";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+// drizzle-kit's ESM build can't be loaded by vitest; its CommonJS one can
+const { pushSchema }: typeof import("drizzle-kit/api") = createRequire(import.meta.url)("drizzle-kit/api");
+
+// Every IStorage implementation must pass the same contract. Each test gets
+// a freshly seeded store.
+interface Driver {
+  name: string;
+  setup?: () => Promise<void>;
+  create: () => Promise<IStorage>;
+  teardown?: () => Promise<void>;
+}
+
+const memory: Driver = {
+  name: "MemStorage",
+  create: async () => new MemStorage(),
+};
+
+// Postgres in-process. The schema is pushed once, then emptied and
+// re-seeded before every test.
+const postgres = (() => {
+  let client: PGlite;
+  let db: ReturnType<typeof drizzle<typeof schema>>;
+  const tables = Object.values(schema).flatMap((value) => (is(value, PgTable) ? [getTableName(value)] : []));
+
+  const driver: Driver = {
+    name: "DbStorage",
+    setup: async () => {
+      client = new PGlite();
+      db = drizzle(client, { schema });
+      const { apply } = await pushSchema(schema, db as never);
+      await apply();
+    },
+    create: async () => {
+      const names = tables.map((table) => `"${table}"`).join(", ");
+      await db.execute(sql.raw(`truncate ${names} restart identity cascade`));
+      const storage = new DbStorage(db, new session.MemoryStore());
+      await storage.seed();
+      return storage;
+    },
+    teardown: async () => {
+      await client.close();
+    },
+  };
+  return driver;
+})();
+
+const order: InsertOrder = {
+  email: "alice@example.com",
+  shippingAddress: {
+    fullName: "Alice Smith",
+    email: "alice@example.com",
+    line1: "1 Main St",
+    city: "Springfield",
+    postalCode: "12345",
+    country: "US",
+  },
+  shippingMethod: "standard",
+  subtotal: 299,
+  shippingCost: 0,
+  total: 299,
+  paymentProvider: "fake",
+  paymentReference: "ch_1",
+};
+
+const line: CartLineInput = {
+  productId: "luxsole-emerald-runner",
+  baseColor: "#1FA07A",
+  accentColor: "#E1B75A",
+  material: "leather",
+  shoeType: "running",
+  size: "9",
+  width: "standard",
+  quantity: 1,
+};
+
+function orderItem(overrides: Partial<InsertOrderItem> = {}): InsertOrderItem {
+  return {
+    productId: line.productId,
+    lineKey: configurationKey(line),
+    name: "Emerald Runner",
+    baseColor: line.baseColor,
+    accentColor: line.accentColor,
+    material: line.material,
+    shoeType: line.shoeType,
+    size: line.size,
+    width: line.width,
+    unitPrice: 299,
+    quantity: 1,
+    ...overrides,
+  };
+}
+
+describe.each([memory, postgres])("$name", (driver) => {
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    await driver.setup?.();
+  }, 60_000);
+
+  afterAll(async () => {
+    await driver.teardown?.();
+  });
+
+  beforeEach(async () => {
+    storage = await driver.create();
+  });
+
+  describe("users", () => {
+    it("finds a created user by id and username", async () => {
+      const user = await storage.createUser({ username: "alice", password: "hash" });
+
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("alice")).toEqual(user);
+      expect(await storage.getUserByUsername("bob")).toBeUndefined();
+    });
+  });
+
+  describe("products", () => {
+    it("starts with the seeded catalog in featured order", async () => {
+      const page = await storage.getProducts({ sort: "featured", order: "asc", page: 1, pageSize: 3 });
+
+      expect(page.total).toBe(6);
+      expect(page.items.map((product) => product.id)).toEqual([
+        "luxsole-emerald-runner",
+        "luxsole-forest-elite",
+        "luxsole-gold-prestige",
+      ]);
+    });
+
+    it("filters by silhouette and sorts by price", async () => {
+      const page = await storage.getProducts({
+        shoeType: "running",
+        sort: "price",
+        order: "asc",
+        page: 1,
+        pageSize: 10,
+      });
+
+      expect(page.items.map((product) => product.price)).toEqual([279, 299]);
+    });
+
+    it("updates a product and leaves a missing one alone", async () => {
+      const updated = await storage.updateProduct("luxsole-emerald-runner", { price: 319 });
+
+      expect(updated?.price).toBe(319);
+      expect((await storage.getProduct("luxsole-emerald-runner"))?.price).toBe(319);
+      expect(await storage.updateProduct("missing", { price: 1 })).toBeUndefined();
+    });
+  });
+
+  describe("cart", () => {
+    let userId: number;
+    const lineKey = configurationKey(line);
+
+    beforeEach(async () => {
+      userId = (await storage.createUser({ username: "alice", password: "hash" })).id;
+    });
+
+    it("raises the quantity when the same design is added again, up to the line limit", async () => {
+      await storage.addCartItem(userId, lineKey, { ...line, quantity: 4 });
+      await storage.addCartItem(userId, lineKey, { ...line, quantity: 3 });
+      expect((await storage.getCartItems(userId)).map((item) => item.quantity)).toEqual([7]);
+
+      await storage.addCartItem(userId, lineKey, { ...line, quantity: 9 });
+      expect((await storage.getCartItems(userId)).map((item) => item.quantity)).toEqual([MAX_LINE_QUANTITY]);
+    });
+
+    it("merges an edited line into one that already has its design", async () => {
+      const other = { ...line, material: "knit" as const };
+      const otherKey = configurationKey(other);
+      await storage.addCartItem(userId, lineKey, { ...line, quantity: 2 });
+      await storage.addCartItem(userId, otherKey, { ...other, quantity: 3 });
+
+      const merged = await storage.replaceCartItem(userId, lineKey, otherKey, { ...other, quantity: 2 });
+
+      expect(merged?.quantity).toBe(5);
+      expect((await storage.getCartItems(userId)).map((item) => item.lineKey)).toEqual([otherKey]);
+    });
+
+    it("sets, removes and clears lines for their owner only", async () => {
+      const bob = (await storage.createUser({ username: "bob", password: "hash" })).id;
+      await storage.addCartItem(userId, lineKey, line);
+      await storage.addCartItem(bob, lineKey, line);
+
+      expect((await storage.setCartItemQuantity(userId, lineKey, 3))?.quantity).toBe(3);
+      expect(await storage.setCartItemQuantity(userId, "missing", 3)).toBeUndefined();
+      expect(await storage.removeCartItem(userId, lineKey)).toBe(true);
+      expect(await storage.removeCartItem(userId, lineKey)).toBe(false);
+
+      await storage.clearCart(userId);
+      expect(await storage.getCartItems(bob)).toHaveLength(1);
+    });
+
+    it("counts held lines as reservations until the hold expires", async () => {
+      const stockLine = { ...line, productId: "luxsole-midnight-runner", material: "knit" as const, quantity: 2 };
+      await storage.addCartItem(userId, configurationKey(stockLine), stockLine);
+      const now = new Date();
+      await storage.holdCartItems(userId, new Date(now.getTime() + 60_000));
+
+      expect(await storage.getReservations("luxsole-midnight-runner", now)).toEqual([
+        { productId: "luxsole-midnight-runner", size: "9", material: "knit", quantity: 2 },
+      ]);
+      expect(await storage.getReservations("luxsole-midnight-runner", now, userId)).toEqual([]);
+      expect(await storage.getReservations("luxsole-midnight-runner", new Date(now.getTime() + 120_000))).toEqual([]);
+    });
+  });
+
+  describe("inventory", () => {
+    const onHand = async (size: string) =>
+      (await storage.getInventory("luxsole-midnight-runner")).find((record) => record.size === size)?.quantity;
+
+    it("takes stock for every line or none of them", async () => {
+      const lines = [
+        { productId: "luxsole-midnight-runner", size: "7", material: "knit" as const, quantity: 2 },
+        { productId: "luxsole-midnight-runner", size: "10", material: "knit" as const, quantity: 3 },
+      ];
+
+      expect(await storage.takeStock(lines)).toBe(false);
+      expect(await onHand("7")).toBe(6);
+      expect(await onHand("10")).toBe(2);
+
+      expect(await storage.takeStock([lines[0], { ...lines[1], quantity: 2 }])).toBe(true);
+      expect(await onHand("7")).toBe(4);
+      expect(await onHand("10")).toBe(0);
+    });
+
+    it("skips combinations that are made to order", async () => {
+      const untracked = { productId: "luxsole-emerald-runner", size: "9", material: "leather" as const, quantity: 99 };
+
+      expect(await storage.takeStock([untracked])).toBe(true);
+      expect(await storage.getInventory("luxsole-emerald-runner")).toEqual([]);
+    });
+
+    it("puts returned stock back", async () => {
+      const stockLine = { productId: "luxsole-midnight-runner", size: "7", material: "knit" as const, quantity: 2 };
+      await storage.takeStock([stockLine]);
+      await storage.returnStock([stockLine]);
+
+      expect(await onHand("7")).toBe(6);
+    });
+
+    it("creates and then updates a stock record", async () => {
+      await storage.setInventory({ productId: "luxsole-emerald-runner", size: "9", material: "leather", quantity: 5 });
+      await storage.setInventory({ productId: "luxsole-emerald-runner", size: "9", material: "leather", quantity: 1 });
+
+      expect((await storage.getInventory("luxsole-emerald-runner")).map((record) => record.quantity)).toEqual([1]);
+    });
+  });
+
+  describe("promotions", () => {
+    it("stops redeeming a code at its usage limit and takes back released uses", async () => {
+      await storage.createPromotion({ code: "ONCE", kind: "fixed", amount: 10, usageLimit: 1 });
+
+      expect(await storage.redeemPromotion("ONCE")).toBe(true);
+      expect(await storage.redeemPromotion("ONCE")).toBe(false);
+      await storage.releasePromotion("ONCE");
+      expect((await storage.getPromotion("ONCE"))?.timesUsed).toBe(0);
+      expect(await storage.redeemPromotion("ONCE")).toBe(true);
+    });
+
+    it("redeems codes without a limit as often as they are used", async () => {
+      for (let i = 0; i < 3; i++) {
+        expect(await storage.redeemPromotion("WELCOME10")).toBe(true);
+      }
+      expect((await storage.getPromotion("WELCOME10"))?.timesUsed).toBe(3);
+    });
+  });
+
+  describe("orders", () => {
+    it("stores the items and the placed event with the order", async () => {
+      const created = await storage.createOrder(order, [orderItem(), orderItem({ size: "10", quantity: 2 })]);
+
+      expect(created.status).toBe("placed");
+      expect(created.items.map((item) => [item.size, item.quantity])).toEqual([["9", 1], ["10", 2]]);
+      expect(created.history.map((event) => event.status)).toEqual(["placed"]);
+      expect(await storage.getOrder(created.id)).toEqual(created);
+    });
+
+    it("lists a customer's orders newest first", async () => {
+      const userId = (await storage.createUser({ username: "alice", password: "hash" })).id;
+      const first = await storage.createOrder({ ...order, userId }, [orderItem()]);
+      const second = await storage.createOrder({ ...order, userId }, [orderItem()]);
+      await storage.createOrder(order, [orderItem()]);
+
+      expect((await storage.getOrdersByUser(userId)).map((o) => o.id)).toEqual([second.id, first.id]);
+    });
+
+    it("moves an order only from the status it is in", async () => {
+      const created = await storage.createOrder(order, [orderItem()]);
+
+      expect(await storage.updateOrderStatus(created.id, "in_production", "shipped")).toBeUndefined();
+      const cancelled = await storage.updateOrderStatus(created.id, "placed", "cancelled", "Changed my mind");
+
+      expect(cancelled?.status).toBe("cancelled");
+      expect(cancelled?.history.map((event) => [event.status, event.note])).toEqual([
+        ["placed", null],
+        ["cancelled", "Changed my mind"],
+      ]);
+      expect(await storage.updateOrderStatus(999, "placed", "cancelled")).toBeUndefined();
+    });
+  });
+
+  describe("designs", () => {
+    const config = schema.designConfigSchema.parse({
+      baseColor: "#1FA07A",
+      accentColor: "#E1B75A",
+      material: "leather",
+      shoeType: "running",
+    });
+
+    it("keeps the first share slug a design is given", async () => {
+      const userId = (await storage.createUser({ username: "alice", password: "hash" })).id;
+      const design = await storage.createDesign(userId, { name: "Mine", productId: "luxsole-emerald-runner", config });
+
+      expect((await storage.setDesignShareSlug(design.id, "first"))?.shareSlug).toBe("first");
+      expect((await storage.setDesignShareSlug(design.id, "second"))?.shareSlug).toBe("first");
+      expect((await storage.getDesignByShareSlug("first"))?.id).toBe(design.id);
+      expect(await storage.getDesignByShareSlug("second")).toBeUndefined();
+    });
+
+    it("renames, re-saves and deletes a design", async () => {
+      const userId = (await storage.createUser({ username: "alice", password: "hash" })).id;
+      const design = await storage.createDesign(userId, { name: "Mine", config });
+
+      const renamed = await storage.updateDesign(design.id, { name: "Renamed" });
+      expect(renamed?.name).toBe("Renamed");
+      expect(renamed?.config).toEqual(config);
+      expect(await storage.deleteDesign(design.id)).toBe(true);
+      expect(await storage.getDesigns(userId)).toEqual([]);
+      expect(await storage.deleteDesign(design.id)).toBe(false);
+    });
+  });
+
+  describe("uploads", () => {
+    it("queues pending uploads oldest first and records a review", async () => {
+      const userId = (await storage.createUser({ username: "alice", password: "hash" })).id;
+      const upload = (storageKey: string) =>
+        storage.createUpload({ userId, storageKey, contentType: "image/png", width: 10, height: 10, size: 100 });
+      const first = await upload("a.png");
+      const second = await upload("b.png");
+
+      expect((await storage.getUploadsByStatus("pending")).map((u) => u.id)).toEqual([first.id, second.id]);
+
+      const approved = await storage.reviewUpload(first.id, { status: "approved" });
+      expect(approved?.status).toBe("approved");
+      expect((await storage.getUploadsByStatus("pending")).map((u) => u.id)).toEqual([second.id]);
+      expect(await storage.reviewUpload(999, { status: "rejected" })).toBeUndefined();
+    });
+  });
+});
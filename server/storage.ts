@@ -1,21 +1,234 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+  or,
+  sql,
+  TransactionRollbackError,
+  type SQL,
+} from "drizzle-orm";
+import {
+  users,
+  products,
+  cartItems,
+  inventory,
+  promotions,
+  orders,
+  orderItems,
+  orderStatusEvents,
+  designs,
+  uploads,
+  MAX_LINE_QUANTITY,
+  type User,
+  type InsertUser,
+  type Product,
+  type InsertProduct,
+  type UpdateProduct,
+  type ProductQuery,
+  type ProductPage,
+  type CartItemRecord,
+  type CartLineInput,
+  type SavedCartLine,
+  type InventoryInput,
+  type InventoryRecord,
+  type StockLine,
+  type Promotion,
+  type InsertPromotion,
+  type InsertOrder,
+  type InsertOrderItem,
+  type Order,
+  type OrderItem,
+  type OrderStatus,
+  type OrderStatusEvent,
+  type OrderWithItems,
+  type Design,
+  type InsertDesign,
+  type UpdateDesign,
+  type Upload,
+  type InsertUpload,
+  type ReviewUpload,
+} from "@shared/schema";
+import type { UploadStatus } from "@shared/artwork";
+import { DEFAULT_WIDTH, usSizes } from "@shared/sizing";
+import { createDb, createPool, type Database } from "./db";
+import { DEFAULT_INVENTORY, DEFAULT_PRODUCTS, DEFAULT_PROMOTIONS } from "./seed";
 
 // modify the interface with any CRUD methods
 // you might need
 
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  getProducts(query: ProductQuery): Promise<ProductPage>;
+  getProduct(id: string): Promise<Product | undefined>;
+  createProduct(product: InsertProduct): Promise<Product>;
+  updateProduct(id: string, changes: UpdateProduct): Promise<Product | undefined>;
+
+  getCartItems(userId: number): Promise<CartItemRecord[]>;
+  // Lines are keyed by configurationKey(); adding a design that is already in
+  // the cart raises that line's quantity, capped at MAX_LINE_QUANTITY
+  addCartItem(userId: number, lineKey: string, line: SavedCartLine): Promise<CartItemRecord>;
+  setCartItemQuantity(userId: number, lineKey: string, quantity: number): Promise<CartItemRecord | undefined>;
+  // Swaps a line for an edited design; merges if that design is already in the cart
+  replaceCartItem(
+    userId: number,
+    lineKey: string,
+    newLineKey: string,
+    line: CartLineInput,
+  ): Promise<CartItemRecord | undefined>;
+  removeCartItem(userId: number, lineKey: string): Promise<boolean>;
+  clearCart(userId: number): Promise<void>;
+  // Every line in the customer's cart holds its stock until `until`
+  holdCartItems(userId: number, until: Date): Promise<void>;
+
+  getInventory(productId: string): Promise<InventoryRecord[]>;
+  setInventory(input: InventoryInput): Promise<InventoryRecord>;
+  // Units held by cart lines whose hold hasn't expired at `now`, per size and
+  // material, optionally leaving out one customer's own cart
+  getReservations(productId: string, now: Date, excludeUserId?: number): Promise<StockLine[]>;
+  // Decrements tracked stock for every line, all or nothing. Returns false
+  // if any tracked combination has too few units; untracked ones are skipped.
+  takeStock(lines: StockLine[]): Promise<boolean>;
+  returnStock(lines: StockLine[]): Promise<void>;
+
+  getPromotions(): Promise<Promotion[]>;
+  getPromotion(code: string): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  // Counts one use of a code. Returns false if it has reached its usage limit.
+  redeemPromotion(code: string): Promise<boolean>;
+  // Gives back a use, e.g. when the payment for the order is declined
+  releasePromotion(code: string): Promise<void>;
+
+  createOrder(order: InsertOrder, items: InsertOrderItem[]): Promise<OrderWithItems>;
+  getOrder(id: number): Promise<OrderWithItems | undefined>;
+  // Newest first
+  getOrdersByUser(userId: number): Promise<OrderWithItems[]>;
+  // Moves an order from `from` to `to` and records the event. Returns
+  // undefined if the order is missing or no longer in `from`.
+  updateOrderStatus(
+    id: number,
+    from: OrderStatus,
+    to: OrderStatus,
+    note?: string,
+  ): Promise<OrderWithItems | undefined>;
+
+  // Most recently changed first
+  getDesigns(userId: number): Promise<Design[]>;
+  getDesign(id: number): Promise<Design | undefined>;
+  createDesign(userId: number, design: InsertDesign): Promise<Design>;
+  updateDesign(id: number, changes: UpdateDesign): Promise<Design | undefined>;
+  deleteDesign(id: number): Promise<boolean>;
+  getDesignByShareSlug(slug: string): Promise<Design | undefined>;
+  // Gives a design `slug` unless it already has one; returns the design
+  // with whichever slug it ends up with
+  setDesignShareSlug(id: number, slug: string): Promise<Design | undefined>;
+
+  createUpload(upload: InsertUpload): Promise<Upload>;
+  getUpload(id: number): Promise<Upload | undefined>;
+  // Newest first
+  getUploadsByUser(userId: number): Promise<Upload[]>;
+  // Oldest first, so the moderation queue is worked in order
+  getUploadsByStatus(status: UploadStatus): Promise<Upload[]>;
+  // Records a staff decision; undefined if the upload doesn't exist
+  reviewUpload(id: number, review: ReviewUpload): Promise<Upload | undefined>;
+}
+
+function compareProducts(sort: ProductQuery["sort"]) {
+  return (a: Product, b: Product): number => {
+    switch (sort) {
+      case "name":
+        return a.name.localeCompare(b.name);
+      case "price":
+        return a.price - b.price;
+      case "newest":
+        return a.createdAt.getTime() - b.createdAt.getTime();
+      case "featured":
+      default:
+        return a.sortOrder - b.sortOrder;
+    }
+  };
+}
+
+// Newest-first reads naturally; everything else defaults to ascending
+export function defaultSortOrder(sort: ProductQuery["sort"]): "asc" | "desc" {
+  return sort === "newest" ? "desc" : "asc";
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private products: Map<string, Product>;
+  private cartItems: Map<number, CartItemRecord>;
+  private inventory: Map<number, InventoryRecord>;
+  private promotions: Map<string, Promotion>;
+  private orders: Map<number, Order>;
+  private orderItems: Map<number, OrderItem>;
+  private orderStatusEvents: Map<number, OrderStatusEvent>;
+  private designs: Map<number, Design>;
+  private uploads: Map<number, Upload>;
   currentId: number;
+  currentCartItemId: number;
+  currentInventoryId: number;
+  currentOrderId: number;
+  currentOrderItemId: number;
+  currentOrderStatusEventId: number;
+  currentDesignId: number;
+  currentUploadId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
+    this.products = new Map();
+    this.cartItems = new Map();
+    this.inventory = new Map();
+    this.promotions = new Map();
+    this.orders = new Map();
+    this.orderItems = new Map();
+    this.orderStatusEvents = new Map();
+    this.designs = new Map();
+    this.uploads = new Map();
     this.currentId = 1;
+    this.currentCartItemId = 1;
+    this.currentInventoryId = 1;
+    this.currentOrderId = 1;
+    this.currentOrderItemId = 1;
+    this.currentOrderStatusEventId = 1;
+    this.currentDesignId = 1;
+    this.currentUploadId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions daily
+    });
+
+    const now = Date.now();
+    DEFAULT_PRODUCTS.forEach((product, index) => {
+      this.products.set(product.id, this.toProduct(product, new Date(now + index)));
+    });
+    DEFAULT_INVENTORY.forEach((record) => {
+      const id = this.currentInventoryId++;
+      this.inventory.set(id, { ...record, id, updatedAt: new Date(now) });
+    });
+    DEFAULT_PROMOTIONS.forEach((promotion) => {
+      this.promotions.set(promotion.code, this.toPromotion(promotion, new Date(now)));
+    });
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +247,888 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getProducts(query: ProductQuery): Promise<ProductPage> {
+    const order = query.order ?? defaultSortOrder(query.sort);
+    const compare = compareProducts(query.sort);
+
+    const matches = Array.from(this.products.values())
+      .filter(
+        (product) =>
+          product.active &&
+          (!query.shoeType || product.shoeType === query.shoeType) &&
+          (!query.material || product.material === query.material) &&
+          (query.minPrice === undefined || product.price >= query.minPrice) &&
+          (query.maxPrice === undefined || product.price <= query.maxPrice),
+      )
+      .sort((a, b) => (order === "asc" ? compare(a, b) : compare(b, a)));
+
+    const start = (query.page - 1) * query.pageSize;
+    return {
+      items: matches.slice(start, start + query.pageSize),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    return this.products.get(id);
+  }
+
+  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+    const product = this.toProduct(insertProduct, new Date());
+    this.products.set(product.id, product);
+    return product;
+  }
+
+  async updateProduct(id: string, changes: UpdateProduct): Promise<Product | undefined> {
+    const existing = this.products.get(id);
+    if (!existing) return undefined;
+
+    const product: Product = { ...existing, ...changes };
+    this.products.set(id, product);
+    return product;
+  }
+
+  async getCartItems(userId: number): Promise<CartItemRecord[]> {
+    return Array.from(this.cartItems.values()).filter((item) => item.userId === userId);
+  }
+
+  async addCartItem(userId: number, lineKey: string, line: SavedCartLine): Promise<CartItemRecord> {
+    const existing = await this.findCartItem(userId, lineKey);
+    const item: CartItemRecord = existing
+      ? { ...existing, quantity: Math.min(MAX_LINE_QUANTITY, existing.quantity + line.quantity) }
+      : {
+          size: null,
+          width: null,
+          personalization: null,
+          partColors: null,
+          reservedUntil: null,
+          ...line,
+          id: this.currentCartItemId++,
+          userId,
+          lineKey,
+          createdAt: new Date(),
+        };
+    this.cartItems.set(item.id, item);
+    return item;
+  }
+
+  async setCartItemQuantity(
+    userId: number,
+    lineKey: string,
+    quantity: number,
+  ): Promise<CartItemRecord | undefined> {
+    const existing = await this.findCartItem(userId, lineKey);
+    if (!existing) return undefined;
+
+    if (quantity <= 0) {
+      this.cartItems.delete(existing.id);
+      return undefined;
+    }
+
+    const item = { ...existing, quantity };
+    this.cartItems.set(item.id, item);
+    return item;
+  }
+
+  async replaceCartItem(
+    userId: number,
+    lineKey: string,
+    newLineKey: string,
+    line: CartLineInput,
+  ): Promise<CartItemRecord | undefined> {
+    if (!(await this.removeCartItem(userId, lineKey))) return undefined;
+    return this.addCartItem(userId, newLineKey, line);
+  }
+
+  async removeCartItem(userId: number, lineKey: string): Promise<boolean> {
+    const existing = await this.findCartItem(userId, lineKey);
+    return existing ? this.cartItems.delete(existing.id) : false;
+  }
+
+  async clearCart(userId: number): Promise<void> {
+    for (const item of await this.getCartItems(userId)) {
+      this.cartItems.delete(item.id);
+    }
+  }
+
+  async holdCartItems(userId: number, until: Date): Promise<void> {
+    for (const item of await this.getCartItems(userId)) {
+      this.cartItems.set(item.id, { ...item, reservedUntil: until });
+    }
+  }
+
+  async getInventory(productId: string): Promise<InventoryRecord[]> {
+    return Array.from(this.inventory.values()).filter((record) => record.productId === productId);
+  }
+
+  async setInventory(input: InventoryInput): Promise<InventoryRecord> {
+    const existing = this.findInventory(input);
+    const record: InventoryRecord = {
+      ...input,
+      id: existing?.id ?? this.currentInventoryId++,
+      updatedAt: new Date(),
+    };
+    this.inventory.set(record.id, record);
+    return record;
+  }
+
+  async getReservations(productId: string, now: Date, excludeUserId?: number): Promise<StockLine[]> {
+    const reservations = new Map<string, StockLine>();
+    for (const item of Array.from(this.cartItems.values())) {
+      if (
+        item.productId !== productId ||
+        !item.size ||
+        !item.reservedUntil ||
+        item.reservedUntil <= now ||
+        item.userId === excludeUserId
+      ) {
+        continue;
+      }
+
+      const key = `${item.size}.${item.material}`;
+      const line = reservations.get(key) ?? { productId, size: item.size, material: item.material, quantity: 0 };
+      reservations.set(key, { ...line, quantity: line.quantity + item.quantity });
+    }
+    return Array.from(reservations.values());
+  }
+
+  async takeStock(lines: StockLine[]): Promise<boolean> {
+    // Check every line first so a shortfall leaves nothing half-taken
+    const needed = new Map<number, number>();
+    for (const line of lines) {
+      const record = this.findInventory(line);
+      if (record) needed.set(record.id, (needed.get(record.id) ?? 0) + line.quantity);
+    }
+    const entries = Array.from(needed.entries());
+    if (entries.some(([id, quantity]) => this.inventory.get(id)!.quantity < quantity)) {
+      return false;
+    }
+
+    for (const [id, quantity] of entries) {
+      const record = this.inventory.get(id)!;
+      this.inventory.set(id, { ...record, quantity: record.quantity - quantity, updatedAt: new Date() });
+    }
+    return true;
+  }
+
+  async returnStock(lines: StockLine[]): Promise<void> {
+    for (const line of lines) {
+      const record = this.findInventory(line);
+      if (record) {
+        this.inventory.set(record.id, {
+          ...record,
+          quantity: record.quantity + line.quantity,
+          updatedAt: new Date(),
+        });
+      }
+    }
+  }
+
+  async getPromotions(): Promise<Promotion[]> {
+    return Array.from(this.promotions.values()).sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  async getPromotion(code: string): Promise<Promotion | undefined> {
+    return this.promotions.get(code);
+  }
+
+  async createPromotion(insertPromotion: InsertPromotion): Promise<Promotion> {
+    const promotion = this.toPromotion(insertPromotion, new Date());
+    this.promotions.set(promotion.code, promotion);
+    return promotion;
+  }
+
+  async redeemPromotion(code: string): Promise<boolean> {
+    const promotion = this.promotions.get(code);
+    if (!promotion || (promotion.usageLimit !== null && promotion.timesUsed >= promotion.usageLimit)) {
+      return false;
+    }
+    this.promotions.set(code, { ...promotion, timesUsed: promotion.timesUsed + 1 });
+    return true;
+  }
+
+  async releasePromotion(code: string): Promise<void> {
+    const promotion = this.promotions.get(code);
+    if (promotion && promotion.timesUsed > 0) {
+      this.promotions.set(code, { ...promotion, timesUsed: promotion.timesUsed - 1 });
+    }
+  }
+
+  private toPromotion(insertPromotion: InsertPromotion, createdAt: Date): Promotion {
+    return {
+      description: "",
+      amount: 0,
+      shoeType: null,
+      startsAt: null,
+      endsAt: null,
+      usageLimit: null,
+      active: true,
+      ...insertPromotion,
+      timesUsed: 0,
+      createdAt,
+    };
+  }
+
+  private findInventory(combo: { productId: string; size: string; material: string }) {
+    return Array.from(this.inventory.values()).find(
+      (record) =>
+        record.productId === combo.productId &&
+        record.size === combo.size &&
+        record.material === combo.material,
+    );
+  }
+
+  async createOrder(insertOrder: InsertOrder, items: InsertOrderItem[]): Promise<OrderWithItems> {
+    const order: Order = {
+      userId: null,
+      status: "placed",
+      promoCode: null,
+      discount: 0,
+      tax: 0,
+      ...insertOrder,
+      id: this.currentOrderId++,
+      createdAt: new Date(),
+    };
+    this.orders.set(order.id, order);
+
+    for (const item of items) {
+      const orderItem: OrderItem = {
+        size: null,
+        width: null,
+        personalization: null,
+        partColors: null,
+        ...item,
+        id: this.currentOrderItemId++,
+        orderId: order.id,
+      };
+      this.orderItems.set(orderItem.id, orderItem);
+    }
+
+    this.addOrderStatusEvent(order.id, order.status, null, order.createdAt);
+
+    return this.withDetails(order);
+  }
+
+  async getOrder(id: number): Promise<OrderWithItems | undefined> {
+    const order = this.orders.get(id);
+    return order ? this.withDetails(order) : undefined;
+  }
+
+  async getOrdersByUser(userId: number): Promise<OrderWithItems[]> {
+    return Array.from(this.orders.values())
+      .filter((order) => order.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .map((order) => this.withDetails(order));
+  }
+
+  async updateOrderStatus(
+    id: number,
+    from: OrderStatus,
+    to: OrderStatus,
+    note?: string,
+  ): Promise<OrderWithItems | undefined> {
+    const order = this.orders.get(id);
+    if (!order || order.status !== from) return undefined;
+
+    const updated: Order = { ...order, status: to };
+    this.orders.set(id, updated);
+    this.addOrderStatusEvent(id, to, note ?? null, new Date());
+    return this.withDetails(updated);
+  }
+
+  private addOrderStatusEvent(orderId: number, status: OrderStatus, note: string | null, createdAt: Date) {
+    const event: OrderStatusEvent = {
+      id: this.currentOrderStatusEventId++,
+      orderId,
+      status,
+      note,
+      createdAt,
+    };
+    this.orderStatusEvents.set(event.id, event);
+  }
+
+  async getDesigns(userId: number): Promise<Design[]> {
+    return Array.from(this.designs.values())
+      .filter((design) => design.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime() || b.id - a.id);
+  }
+
+  async getDesign(id: number): Promise<Design | undefined> {
+    return this.designs.get(id);
+  }
+
+  async createDesign(userId: number, insertDesign: InsertDesign): Promise<Design> {
+    const now = new Date();
+    const design: Design = {
+      ...insertDesign,
+      productId: insertDesign.productId ?? null,
+      shareSlug: null,
+      id: this.currentDesignId++,
+      userId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.designs.set(design.id, design);
+    return design;
+  }
+
+  async updateDesign(id: number, changes: UpdateDesign): Promise<Design | undefined> {
+    const design = this.designs.get(id);
+    if (!design) return undefined;
+
+    const updated: Design = { ...design, ...changes, updatedAt: new Date() };
+    this.designs.set(id, updated);
+    return updated;
+  }
+
+  async deleteDesign(id: number): Promise<boolean> {
+    return this.designs.delete(id);
+  }
+
+  async getDesignByShareSlug(slug: string): Promise<Design | undefined> {
+    return Array.from(this.designs.values()).find((design) => design.shareSlug === slug);
+  }
+
+  async setDesignShareSlug(id: number, slug: string): Promise<Design | undefined> {
+    const design = this.designs.get(id);
+    if (!design || design.shareSlug) return design;
+
+    const shared: Design = { ...design, shareSlug: slug };
+    this.designs.set(id, shared);
+    return shared;
+  }
+
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const upload: Upload = {
+      ...insertUpload,
+      id: this.currentUploadId++,
+      status: "pending",
+      reviewNote: null,
+      createdAt: new Date(),
+      reviewedAt: null,
+    };
+    this.uploads.set(upload.id, upload);
+    return upload;
+  }
+
+  async getUpload(id: number): Promise<Upload | undefined> {
+    return this.uploads.get(id);
+  }
+
+  async getUploadsByUser(userId: number): Promise<Upload[]> {
+    return Array.from(this.uploads.values())
+      .filter((upload) => upload.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getUploadsByStatus(status: UploadStatus): Promise<Upload[]> {
+    return Array.from(this.uploads.values())
+      .filter((upload) => upload.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async reviewUpload(id: number, { status, note }: ReviewUpload): Promise<Upload | undefined> {
+    const upload = this.uploads.get(id);
+    if (!upload) return undefined;
+
+    const reviewed: Upload = { ...upload, status, reviewNote: note ?? null, reviewedAt: new Date() };
+    this.uploads.set(id, reviewed);
+    return reviewed;
+  }
+
+  private withDetails(order: Order): OrderWithItems {
+    const items = Array.from(this.orderItems.values()).filter((item) => item.orderId === order.id);
+    const history = Array.from(this.orderStatusEvents.values()).filter(
+      (event) => event.orderId === order.id,
+    );
+    return { ...order, items, history };
+  }
+
+  private async findCartItem(userId: number, lineKey: string) {
+    return (await this.getCartItems(userId)).find((item) => item.lineKey === lineKey);
+  }
+
+  private toProduct(insertProduct: InsertProduct, createdAt: Date): Product {
+    return {
+      description: "",
+      sizes: [...usSizes],
+      widths: [DEFAULT_WIDTH],
+      sortOrder: 0,
+      active: true,
+      ...insertProduct,
+      createdAt,
+    };
+  }
+}
+
+const productSortColumns = {
+  featured: products.sortOrder,
+  name: products.name,
+  price: products.price,
+  newest: products.createdAt,
+} as const;
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, sessionStore: session.Store) {
+    this.sessionStore = sessionStore;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getProducts(query: ProductQuery): Promise<ProductPage> {
+    const conditions: SQL[] = [eq(products.active, true)];
+    if (query.shoeType) conditions.push(eq(products.shoeType, query.shoeType));
+    if (query.material) conditions.push(eq(products.material, query.material));
+    if (query.minPrice !== undefined) conditions.push(gte(products.price, query.minPrice));
+    if (query.maxPrice !== undefined) conditions.push(lte(products.price, query.maxPrice));
+    const where = and(...conditions);
+
+    const order = query.order ?? defaultSortOrder(query.sort);
+    const column = productSortColumns[query.sort];
+
+    const items = await this.db
+      .select()
+      .from(products)
+      .where(where)
+      .orderBy(order === "asc" ? asc(column) : desc(column), asc(products.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(products)
+      .where(where);
+
+    return { items, total, page: query.page, pageSize: query.pageSize };
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.id, id));
+    return product;
+  }
+
+  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+    const [product] = await this.db.insert(products).values(insertProduct).returning();
+    return product;
+  }
+
+  async updateProduct(id: string, changes: UpdateProduct): Promise<Product | undefined> {
+    if (Object.keys(changes).length === 0) {
+      return this.getProduct(id);
+    }
+
+    const [product] = await this.db
+      .update(products)
+      .set(changes)
+      .where(eq(products.id, id))
+      .returning();
+    return product;
+  }
+
+  async getCartItems(userId: number): Promise<CartItemRecord[]> {
+    return this.db
+      .select()
+      .from(cartItems)
+      .where(eq(cartItems.userId, userId))
+      .orderBy(asc(cartItems.id));
+  }
+
+  async addCartItem(userId: number, lineKey: string, line: SavedCartLine): Promise<CartItemRecord> {
+    return this.insertCartItem(this.db, userId, lineKey, line);
+  }
+
+  async setCartItemQuantity(
+    userId: number,
+    lineKey: string,
+    quantity: number,
+  ): Promise<CartItemRecord | undefined> {
+    if (quantity <= 0) {
+      await this.removeCartItem(userId, lineKey);
+      return undefined;
+    }
+
+    const [item] = await this.db
+      .update(cartItems)
+      .set({ quantity })
+      .where(and(eq(cartItems.userId, userId), eq(cartItems.lineKey, lineKey)))
+      .returning();
+    return item;
+  }
+
+  async replaceCartItem(
+    userId: number,
+    lineKey: string,
+    newLineKey: string,
+    line: CartLineInput,
+  ): Promise<CartItemRecord | undefined> {
+    return this.db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(cartItems)
+        .where(and(eq(cartItems.userId, userId), eq(cartItems.lineKey, lineKey)))
+        .returning({ id: cartItems.id });
+      if (removed.length === 0) return undefined;
+
+      return this.insertCartItem(tx, userId, newLineKey, line);
+    });
+  }
+
+  async removeCartItem(userId: number, lineKey: string): Promise<boolean> {
+    const removed = await this.db
+      .delete(cartItems)
+      .where(and(eq(cartItems.userId, userId), eq(cartItems.lineKey, lineKey)))
+      .returning({ id: cartItems.id });
+    return removed.length > 0;
+  }
+
+  async clearCart(userId: number): Promise<void> {
+    await this.db.delete(cartItems).where(eq(cartItems.userId, userId));
+  }
+
+  async holdCartItems(userId: number, until: Date): Promise<void> {
+    await this.db.update(cartItems).set({ reservedUntil: until }).where(eq(cartItems.userId, userId));
+  }
+
+  async getInventory(productId: string): Promise<InventoryRecord[]> {
+    return this.db
+      .select()
+      .from(inventory)
+      .where(eq(inventory.productId, productId))
+      .orderBy(asc(inventory.id));
+  }
+
+  async setInventory(input: InventoryInput): Promise<InventoryRecord> {
+    const [record] = await this.db
+      .insert(inventory)
+      .values(input)
+      .onConflictDoUpdate({
+        target: [inventory.productId, inventory.size, inventory.material],
+        set: { quantity: input.quantity, updatedAt: new Date() },
+      })
+      .returning();
+    return record;
+  }
+
+  async getReservations(productId: string, now: Date, excludeUserId?: number): Promise<StockLine[]> {
+    const conditions: SQL[] = [
+      eq(cartItems.productId, productId),
+      isNotNull(cartItems.size),
+      gt(cartItems.reservedUntil, now),
+    ];
+    if (excludeUserId !== undefined) {
+      conditions.push(ne(cartItems.userId, excludeUserId));
+    }
+
+    const rows = await this.db
+      .select({
+        size: cartItems.size,
+        material: cartItems.material,
+        quantity: sql<number>`sum(${cartItems.quantity})`.mapWith(Number),
+      })
+      .from(cartItems)
+      .where(and(...conditions))
+      .groupBy(cartItems.size, cartItems.material);
+    return rows.map((row) => ({ ...row, productId, size: row.size! }));
+  }
+
+  async takeStock(lines: StockLine[]): Promise<boolean> {
+    try {
+      await this.db.transaction(async (tx) => {
+        for (const line of lines) {
+          const combo = and(
+            eq(inventory.productId, line.productId),
+            eq(inventory.size, line.size),
+            eq(inventory.material, line.material),
+          );
+          const [taken] = await tx
+            .update(inventory)
+            .set({ quantity: sql`${inventory.quantity} - ${line.quantity}`, updatedAt: new Date() })
+            .where(and(combo, gte(inventory.quantity, line.quantity)))
+            .returning({ id: inventory.id });
+          if (taken) continue;
+
+          // Nothing updated: either untracked (fine) or short (undo everything)
+          const [tracked] = await tx.select({ id: inventory.id }).from(inventory).where(combo);
+          if (tracked) tx.rollback();
+        }
+      });
+      return true;
+    } catch (err) {
+      if (err instanceof TransactionRollbackError) return false;
+      throw err;
+    }
+  }
+
+  async returnStock(lines: StockLine[]): Promise<void> {
+    for (const line of lines) {
+      await this.db
+        .update(inventory)
+        .set({ quantity: sql`${inventory.quantity} + ${line.quantity}`, updatedAt: new Date() })
+        .where(
+          and(
+            eq(inventory.productId, line.productId),
+            eq(inventory.size, line.size),
+            eq(inventory.material, line.material),
+          ),
+        );
+    }
+  }
+
+  async getPromotions(): Promise<Promotion[]> {
+    return this.db.select().from(promotions).orderBy(asc(promotions.code));
+  }
+
+  async getPromotion(code: string): Promise<Promotion | undefined> {
+    const [promotion] = await this.db.select().from(promotions).where(eq(promotions.code, code));
+    return promotion;
+  }
+
+  async createPromotion(insertPromotion: InsertPromotion): Promise<Promotion> {
+    const [promotion] = await this.db.insert(promotions).values(insertPromotion).returning();
+    return promotion;
+  }
+
+  async redeemPromotion(code: string): Promise<boolean> {
+    const [redeemed] = await this.db
+      .update(promotions)
+      .set({ timesUsed: sql`${promotions.timesUsed} + 1` })
+      .where(
+        and(
+          eq(promotions.code, code),
+          or(isNull(promotions.usageLimit), lt(promotions.timesUsed, promotions.usageLimit)),
+        ),
+      )
+      .returning({ code: promotions.code });
+    return !!redeemed;
+  }
+
+  async releasePromotion(code: string): Promise<void> {
+    await this.db
+      .update(promotions)
+      .set({ timesUsed: sql`${promotions.timesUsed} - 1` })
+      .where(and(eq(promotions.code, code), gt(promotions.timesUsed, 0)));
+  }
+
+  async createOrder(insertOrder: InsertOrder, items: InsertOrderItem[]): Promise<OrderWithItems> {
+    return this.db.transaction(async (tx) => {
+      const [order] = await tx.insert(orders).values(insertOrder).returning();
+      const savedItems = await tx
+        .insert(orderItems)
+        .values(items.map((item) => ({ ...item, orderId: order.id })))
+        .returning();
+      const history = await tx
+        .insert(orderStatusEvents)
+        .values({ orderId: order.id, status: order.status, createdAt: order.createdAt })
+        .returning();
+      return { ...order, items: savedItems, history };
+    });
+  }
+
+  async getOrder(id: number): Promise<OrderWithItems | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.id, id));
+    return order ? (await this.withDetails([order]))[0] : undefined;
+  }
+
+  async getOrdersByUser(userId: number): Promise<OrderWithItems[]> {
+    const rows = await this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orders.createdAt), desc(orders.id));
+    return this.withDetails(rows);
+  }
+
+  async updateOrderStatus(
+    id: number,
+    from: OrderStatus,
+    to: OrderStatus,
+    note?: string,
+  ): Promise<OrderWithItems | undefined> {
+    const updated = await this.db.transaction(async (tx) => {
+      // Conditional on the current status so concurrent updates can't both apply
+      const [order] = await tx
+        .update(orders)
+        .set({ status: to })
+        .where(and(eq(orders.id, id), eq(orders.status, from)))
+        .returning();
+      if (!order) return undefined;
+
+      await tx.insert(orderStatusEvents).values({ orderId: id, status: to, note });
+      return order;
+    });
+    return updated ? (await this.withDetails([updated]))[0] : undefined;
+  }
+
+  async getDesigns(userId: number): Promise<Design[]> {
+    return this.db
+      .select()
+      .from(designs)
+      .where(eq(designs.userId, userId))
+      .orderBy(desc(designs.updatedAt), desc(designs.id));
+  }
+
+  async getDesign(id: number): Promise<Design | undefined> {
+    const [design] = await this.db.select().from(designs).where(eq(designs.id, id));
+    return design;
+  }
+
+  async createDesign(userId: number, insertDesign: InsertDesign): Promise<Design> {
+    const [design] = await this.db.insert(designs).values({ ...insertDesign, userId }).returning();
+    return design;
+  }
+
+  async updateDesign(id: number, changes: UpdateDesign): Promise<Design | undefined> {
+    const [design] = await this.db
+      .update(designs)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(designs.id, id))
+      .returning();
+    return design;
+  }
+
+  async deleteDesign(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(designs).where(eq(designs.id, id)).returning({ id: designs.id });
+    return deleted.length > 0;
+  }
+
+  async getDesignByShareSlug(slug: string): Promise<Design | undefined> {
+    const [design] = await this.db.select().from(designs).where(eq(designs.shareSlug, slug));
+    return design;
+  }
+
+  async setDesignShareSlug(id: number, slug: string): Promise<Design | undefined> {
+    // Conditional so two concurrent shares agree on one slug
+    const [shared] = await this.db
+      .update(designs)
+      .set({ shareSlug: slug })
+      .where(and(eq(designs.id, id), isNull(designs.shareSlug)))
+      .returning();
+    return shared ?? this.getDesign(id);
+  }
+
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const [upload] = await this.db.insert(uploads).values(insertUpload).returning();
+    return upload;
+  }
+
+  async getUpload(id: number): Promise<Upload | undefined> {
+    const [upload] = await this.db.select().from(uploads).where(eq(uploads.id, id));
+    return upload;
+  }
+
+  async getUploadsByUser(userId: number): Promise<Upload[]> {
+    return this.db
+      .select()
+      .from(uploads)
+      .where(eq(uploads.userId, userId))
+      .orderBy(desc(uploads.createdAt), desc(uploads.id));
+  }
+
+  async getUploadsByStatus(status: UploadStatus): Promise<Upload[]> {
+    return this.db
+      .select()
+      .from(uploads)
+      .where(eq(uploads.status, status))
+      .orderBy(asc(uploads.createdAt), asc(uploads.id));
+  }
+
+  async reviewUpload(id: number, { status, note }: ReviewUpload): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .update(uploads)
+      .set({ status, reviewNote: note ?? null, reviewedAt: new Date() })
+      .where(eq(uploads.id, id))
+      .returning();
+    return upload;
+  }
+
+  private async withDetails(rows: Order[]): Promise<OrderWithItems[]> {
+    if (rows.length === 0) return [];
+
+    const ids = rows.map((order) => order.id);
+    const items = await this.db
+      .select()
+      .from(orderItems)
+      .where(inArray(orderItems.orderId, ids))
+      .orderBy(asc(orderItems.id));
+    const history = await this.db
+      .select()
+      .from(orderStatusEvents)
+      .where(inArray(orderStatusEvents.orderId, ids))
+      .orderBy(asc(orderStatusEvents.createdAt), asc(orderStatusEvents.id));
+
+    return rows.map((order) => ({
+      ...order,
+      items: items.filter((item) => item.orderId === order.id),
+      history: history.filter((event) => event.orderId === order.id),
+    }));
+  }
+
+  private async insertCartItem(
+    db: Pick<Database, "insert">,
+    userId: number,
+    lineKey: string,
+    line: SavedCartLine,
+  ): Promise<CartItemRecord> {
+    const [item] = await db
+      .insert(cartItems)
+      .values({ ...line, userId, lineKey })
+      .onConflictDoUpdate({
+        target: [cartItems.userId, cartItems.lineKey],
+        set: {
+          quantity: sql`least(${cartItems.quantity} + ${line.quantity}, ${MAX_LINE_QUANTITY})`,
+        },
+      })
+      .returning();
+    return item;
+  }
+
+  // Loads the launch collection, its stock and the launch promo codes into an
+  // empty store; existing rows win
+  async seed(): Promise<void> {
+    await this.db.insert(products).values(DEFAULT_PRODUCTS).onConflictDoNothing();
+    await this.db.insert(inventory).values(DEFAULT_INVENTORY).onConflictDoNothing();
+    await this.db.insert(promotions).values(DEFAULT_PROMOTIONS).onConflictDoNothing();
+  }
+}
+
+// Postgres when a database is provisioned, otherwise everything lives in
+// memory and is lost on restart
+function createStorage(): IStorage {
+  const url = process.env.DATABASE_URL;
+  if (!url || process.env.STORAGE_DRIVER === "memory") {
+    return new MemStorage();
+  }
+
+  // Neon's Pool speaks the node-postgres interface connect-pg-simple expects
+  const pool = createPool(url);
+  const sessionStore = new PostgresSessionStore({
+    pool: pool as unknown as connectPg.PGStoreOptions["pool"],
+    createTableIfMissing: true,
+  });
+  const dbStorage = new DbStorage(createDb(pool), sessionStore);
+  dbStorage.seed().catch((err) => {
+    console.error("Failed to seed the product catalog", err);
+  });
+  return dbStorage;
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,61 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+// Where uploaded files live. Keys are generated by the server, never taken
+// from the client.
+export interface UploadStore {
+  readonly name: string;
+  put(key: string, data: Buffer): Promise<void>;
+  // undefined if nothing is stored under the key
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+// Files in a local directory, created on first write. Fine for a single
+// server; use shared storage when running more than one.
+export class DiskUploadStore implements UploadStore {
+  readonly name = "disk";
+
+  constructor(private readonly directory: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.pathFor(key), data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    // Keys are flat file names
+    if (path.basename(key) !== key) {
+      throw new Error(`Invalid upload key "${key}"`);
+    }
+    return path.join(this.directory, key);
+  }
+}
+
+const stores: Record<string, () => UploadStore> = {
+  disk: () => new DiskUploadStore(path.resolve(process.env.UPLOAD_DIR ?? "uploads")),
+};
+
+function createUploadStore(): UploadStore {
+  const name = process.env.UPLOAD_STORAGE ?? "disk";
+  const create = stores[name];
+  if (!create) {
+    throw new Error(`Unknown UPLOAD_STORAGE "${name}"`);
+  }
+  return create();
+}
+
+export const uploadStore = createUploadStore();
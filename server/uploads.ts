@@ -0,0 +1,158 @@
+import { randomBytes } from "crypto";
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  reviewUploadSchema,
+  uploadQuerySchema,
+  type OrderItem,
+  type Upload,
+  type UploadInfo,
+} from "@shared/schema";
+import { artworkUploadTypes, MAX_ARTWORK_BYTES, personalizationArtwork } from "@shared/artwork";
+import { storage } from "./storage";
+import { uploadStore } from "./upload-store";
+import { isAdmin, requireAdmin, requireAuth } from "./auth";
+import { asyncHandler } from "./http";
+import { normalizeArtwork } from "./artwork";
+
+function parseUploadId(param: string): number | undefined {
+  const id = Number(param);
+  return Number.isSafeInteger(id) && id > 0 ? id : undefined;
+}
+
+function toUploadInfo({ storageKey: _storageKey, ...upload }: Upload): UploadInfo {
+  return upload;
+}
+
+const rawArtwork = express.raw({ type: [...artworkUploadTypes], limit: MAX_ARTWORK_BYTES });
+
+// body-parser answers an oversized body with a bare 413
+function readArtwork(req: Request, res: Response, next: NextFunction) {
+  rawArtwork(req, res, (err?: { type?: string }) => {
+    if (err?.type === "entity.too.large") {
+      return res.status(413).json({ message: `Images are up to ${MAX_ARTWORK_BYTES / (1024 * 1024)} MB` });
+    }
+    next(err);
+  });
+}
+
+// Why the artwork on these lines can't be ordered by this customer, if it
+// can't: it has to be their own upload, and not one staff have rejected
+export async function checkOrderArtwork(
+  lines: { name: string; personalization?: Record<string, string> | null }[],
+  userId?: number,
+): Promise<string | undefined> {
+  for (const line of lines) {
+    if (!line.personalization?.artwork) continue;
+    if (!userId) {
+      return `Sign in to order ${line.name} with your artwork`;
+    }
+
+    const placement = personalizationArtwork(line.personalization);
+    const upload = placement ? await storage.getUpload(placement.uploadId) : undefined;
+    if (!upload || upload.userId !== userId) {
+      return `The artwork on ${line.name} wasn't found; upload it again`;
+    }
+    if (upload.status === "rejected") {
+      return `The artwork on ${line.name} can't be printed; choose another image`;
+    }
+  }
+  return undefined;
+}
+
+// Why an order can't go into production yet: every piece of artwork on it
+// needs a staff approval first
+export async function artworkHold(items: OrderItem[]): Promise<string | undefined> {
+  for (const item of items) {
+    const placement = personalizationArtwork(item.personalization);
+    if (!placement) continue;
+
+    const upload = await storage.getUpload(placement.uploadId);
+    if (upload?.status !== "approved") {
+      return upload?.status === "pending"
+        ? `Artwork #${placement.uploadId} on this order is awaiting review`
+        : `Artwork #${placement.uploadId} on this order wasn't approved; cancel the order or contact the customer`;
+    }
+  }
+  return undefined;
+}
+
+export function setupUploads(app: Express) {
+  // The image is the request body, sent with its own Content-Type
+  app.post("/api/uploads", requireAuth, readArtwork, asyncHandler(async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(415).json({ message: "Upload a PNG or JPEG image" });
+    }
+
+    const { artwork, error } = normalizeArtwork(req.body);
+    if (!artwork) {
+      return res.status(400).json({ message: error });
+    }
+
+    const storageKey = `${randomBytes(16).toString("hex")}.png`;
+    await uploadStore.put(storageKey, artwork.data);
+
+    const upload = await storage.createUpload({
+      userId: req.user!.id,
+      storageKey,
+      contentType: artwork.contentType,
+      width: artwork.width,
+      height: artwork.height,
+      size: artwork.data.length,
+    });
+    res.status(201).json(toUploadInfo(upload));
+  }));
+
+  app.get("/api/uploads", requireAuth, asyncHandler(async (req, res) => {
+    const uploads = await storage.getUploadsByUser(req.user!.id);
+    res.json(uploads.map(toUploadInfo));
+  }));
+
+  // Staff: the moderation queue, oldest first; ?status= shows past decisions
+  app.get("/api/uploads/review", requireAdmin, asyncHandler(async (req, res) => {
+    const parsed = uploadQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const uploads = await storage.getUploadsByStatus(parsed.data.status);
+    res.json(uploads.map(toUploadInfo));
+  }));
+
+  // Only the customer who uploaded a file and staff can see it
+  app.get("/api/uploads/:id/file", requireAuth, asyncHandler(async (req, res) => {
+    const id = parseUploadId(req.params.id);
+    const upload = id ? await storage.getUpload(id) : undefined;
+    if (!upload || (upload.userId !== req.user!.id && !isAdmin(req.user))) {
+      return res.status(404).json({ message: "Upload not found" });
+    }
+
+    const data = await uploadStore.get(upload.storageKey);
+    if (!data) {
+      return res.status(404).json({ message: "Upload not found" });
+    }
+
+    // A file never changes once stored
+    res.set({
+      "Content-Type": upload.contentType,
+      "Cache-Control": "private, max-age=31536000, immutable",
+      "X-Content-Type-Options": "nosniff",
+    });
+    res.send(data);
+  }));
+
+  app.patch("/api/uploads/:id/status", requireAdmin, asyncHandler(async (req, res) => {
+    const parsed = reviewUploadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const id = parseUploadId(req.params.id);
+    const upload = id ? await storage.reviewUpload(id, parsed.data) : undefined;
+    if (!upload) {
+      return res.status(404).json({ message: "Upload not found" });
+    }
+
+    res.json(toUploadInfo(upload));
+  }));
+}
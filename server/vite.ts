@@ -8,6 +8,7 @@ const __dirname = dirname(__filename);
 import { type Server } from "http";
 import viteConfig from "../vite.config";
 import { nanoid } from "nanoid";
+import { prerenderPage, renderIntoTemplate } from "./prerender";
 
 const viteLogger = createLogger();
 
@@ -62,7 +63,11 @@ export async function setupVite(app: Express, server: Server) {
         `src="/src/main.tsx?v=${nanoid()}"`,
       );
       const page = await vite.transformIndexHtml(url, template);
-      res.status(200).set({ "Content-Type": "text/html" }).end(page);
+      const prerendered = await prerenderPage(req);
+      res
+        .status(prerendered?.status ?? 200)
+        .set({ "Content-Type": "text/html" })
+        .end(prerendered?.page ? renderIntoTemplate(page, prerendered.page, req) : page);
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
       next(e);
@@ -81,8 +86,18 @@ export function serveStatic(app: Express) {
 
   app.use(express.static(distPath));
 
-  // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  // fall through to index.html if the file doesn't exist, with the page
+  // rendered into it where the server can
+  const template = fs.readFileSync(path.resolve(distPath, "index.html"), "utf-8");
+  app.use("*", async (req, res, next) => {
+    try {
+      const prerendered = await prerenderPage(req);
+      res
+        .status(prerendered?.status ?? 200)
+        .set({ "Content-Type": "text/html" })
+        .end(prerendered?.page ? renderIntoTemplate(template, prerendered.page, req) : template);
+    } catch (e) {
+      next(e);
+    }
   });
 }
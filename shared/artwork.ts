@@ -0,0 +1,83 @@
+// Customer artwork: an uploaded logo or image placed on the shoe as a decal.
+// Uploads are checked and re-encoded by the server, and staff approve each
+// one before an order carrying it can go into production.
+
+import { z } from "zod";
+
+export const artworkUploadTypes = ["image/png", "image/jpeg"] as const;
+export type ArtworkUploadType = (typeof artworkUploadTypes)[number];
+
+export const MAX_ARTWORK_BYTES = 5 * 1024 * 1024;
+// Smaller won't print sharply; larger isn't decoded at all
+export const MIN_ARTWORK_DIMENSION = 64;
+export const MAX_ARTWORK_DIMENSION = 4096;
+
+export const uploadStatuses = ["pending", "approved", "rejected"] as const;
+export type UploadStatus = (typeof uploadStatuses)[number];
+
+export const uploadStatusLabels: Record<UploadStatus, string> = {
+  pending: "Awaiting review",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+// Where artwork may go. The heel tab is too small for more than a monogram.
+export const artworkZones = ["side", "tongue"] as const;
+export type ArtworkZone = (typeof artworkZones)[number];
+
+export const artworkZoneLabels: Record<ArtworkZone, string> = {
+  side: "Side Panel",
+  tongue: "Tongue",
+};
+
+export const ARTWORK_SCALE_RANGE = { min: 0.5, max: 2 } as const;
+export const MAX_ARTWORK_ROTATION = 180; // either way
+// How far the artwork can be moved from the middle of its zone, either way,
+// as a share of the zone's width
+export const MAX_ARTWORK_OFFSET = 0.5;
+
+export const artworkPlacementSchema = z.object({
+  uploadId: z.number().int().positive(),
+  zone: z.enum(artworkZones).default("side"),
+  scale: z.number().min(ARTWORK_SCALE_RANGE.min).max(ARTWORK_SCALE_RANGE.max).default(1),
+  rotation: z.number().int().min(-MAX_ARTWORK_ROTATION).max(MAX_ARTWORK_ROTATION).default(0),
+  offsetX: z.number().min(-MAX_ARTWORK_OFFSET).max(MAX_ARTWORK_OFFSET).default(0),
+  offsetY: z.number().min(-MAX_ARTWORK_OFFSET).max(MAX_ARTWORK_OFFSET).default(0),
+});
+
+export type ArtworkPlacement = z.infer<typeof artworkPlacementSchema>;
+
+export function artworkFileUrl(uploadId: number): string {
+  return `/api/uploads/${uploadId}/file`;
+}
+
+// Personalization keys a placement travels under on cart lines and orders
+export function artworkPersonalization(artwork: ArtworkPlacement): Record<string, string> {
+  return {
+    artwork: String(artwork.uploadId),
+    artworkZone: artwork.zone,
+    artworkScale: String(artwork.scale),
+    artworkRotation: String(artwork.rotation),
+    artworkOffsetX: String(artwork.offsetX),
+    artworkOffsetY: String(artwork.offsetY),
+  };
+}
+
+// The placement on a cart line or order, or null if it has none or it
+// doesn't parse
+export function personalizationArtwork(
+  personalization: Record<string, string> | null | undefined,
+): ArtworkPlacement | null {
+  if (!personalization?.artwork) return null;
+
+  const number = (value: string | undefined) => (value === undefined ? undefined : Number(value));
+  const parsed = artworkPlacementSchema.safeParse({
+    uploadId: number(personalization.artwork),
+    zone: personalization.artworkZone,
+    scale: number(personalization.artworkScale),
+    rotation: number(personalization.artworkRotation),
+    offsetX: number(personalization.artworkOffsetX),
+    offsetY: number(personalization.artworkOffsetY),
+  });
+  return parsed.success ? parsed.data : null;
+}
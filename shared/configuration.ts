@@ -0,0 +1,55 @@
+import { partColorEntries, type PartColors } from "./parts";
+
+// Identity for a configured shoe. Two cart lines are the same line only if
+// every customer-visible choice matches, so the key covers the product plus
+// colors (recolored zones included), material, silhouette, size, width and
+// any personalization.
+
+export interface ShoeConfiguration {
+  productId: string;
+  baseColor: string;
+  accentColor: string;
+  material: string;
+  shoeType: string;
+  size?: string | null;
+  width?: string | null;
+  personalization?: Record<string, string> | null;
+  partColors?: PartColors | null;
+}
+
+// Fixed field order and normalized values, so the same design always
+// serializes the same way regardless of how the object was built
+function canonicalize(config: ShoeConfiguration): string {
+  const personalization = Object.entries(config.personalization ?? {})
+    .filter(([, value]) => value !== "")
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const partColors = partColorEntries(config.partColors);
+
+  return JSON.stringify([
+    config.productId,
+    config.baseColor.toLowerCase(),
+    config.accentColor.toLowerCase(),
+    config.material,
+    config.shoeType,
+    config.size ?? "",
+    config.width ?? "",
+    personalization,
+    // Only when present, so lines from before zones existed keep their keys
+    ...(partColors.length > 0 ? [partColors] : []),
+  ]);
+}
+
+// 32-bit FNV-1a; not cryptographic, just short and identical on client and server
+function fnv1a(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function configurationKey(config: ShoeConfiguration): string {
+  return `${config.productId}.${fnv1a(canonicalize(config))}`;
+}
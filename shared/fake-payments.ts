@@ -0,0 +1,21 @@
+// Tokens for the fake payment provider, made in the browser and charged on
+// the server. Like a processor's test mode, the card decides the outcome:
+// numbers ending in 0002 are declined. A token carries only that outcome,
+// never the card number.
+
+export type FakeCardOutcome = "approve" | "decline";
+
+const TOKEN_PATTERN = /^tok_fake_(approve|decline)_[0-9a-f]{16}$/;
+
+export function createFakeCardToken(cardNumber: string): string {
+  const outcome: FakeCardOutcome = cardNumber.endsWith("0002") ? "decline" : "approve";
+  const id = Array.from(crypto.getRandomValues(new Uint8Array(8)), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return `tok_fake_${outcome}_${id}`;
+}
+
+// undefined for anything the fake provider didn't issue
+export function fakeCardOutcome(token: string): FakeCardOutcome | undefined {
+  return TOKEN_PATTERN.exec(token)?.[1] as FakeCardOutcome | undefined;
+}
@@ -0,0 +1,66 @@
+// Stock levels as the storefront sees them. `available` is what is left
+// after every active cart reservation; combinations without a level are
+// made to order and always available.
+
+import type { materialTypes } from "./schema";
+
+type MaterialType = (typeof materialTypes)[number];
+
+export const LOW_STOCK_THRESHOLD = 3;
+
+export type StockStatus = "in_stock" | "low_stock" | "sold_out";
+
+export interface StockLevel {
+  size: string;
+  material: MaterialType;
+  available: number;
+}
+
+export interface ProductStock {
+  productId: string;
+  levels: StockLevel[];
+}
+
+export function findStockLevel(
+  levels: readonly StockLevel[],
+  size: string,
+  material: MaterialType,
+): StockLevel | undefined {
+  return levels.find((level) => level.size === size && level.material === material);
+}
+
+export function stockStatus(level: StockLevel | undefined): StockStatus {
+  if (!level) return "in_stock";
+  if (level.available <= 0) return "sold_out";
+  if (level.available <= LOW_STOCK_THRESHOLD) return "low_stock";
+  return "in_stock";
+}
+
+// One status for a product in a material: sold out when no offered size is
+// left, low when at least half of them are low or gone
+export function summarizeStock(
+  levels: readonly StockLevel[],
+  sizes: readonly string[],
+  material: MaterialType,
+): StockStatus {
+  if (sizes.length === 0) return "in_stock";
+
+  const statuses = sizes.map((size) => stockStatus(findStockLevel(levels, size, material)));
+  if (statuses.every((status) => status === "sold_out")) return "sold_out";
+  if (statuses.filter((status) => status !== "in_stock").length * 2 >= statuses.length) {
+    return "low_stock";
+  }
+  return "in_stock";
+}
+
+// Short note for a chosen size, or undefined when there's nothing to say
+export function stockNote(level: StockLevel | undefined): string | undefined {
+  switch (stockStatus(level)) {
+    case "sold_out":
+      return "Sold out in this size";
+    case "low_stock":
+      return `Only ${level!.available} left in this size`;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,39 @@
+// Where a monogram goes on the shoe and how it is applied. Not every finish
+// works on every material: nubuck's nap won't hold a raised emboss, and the
+// glint coating and knit can't take a debossed impression.
+
+import type { materialTypes } from "./schema";
+
+type MaterialType = (typeof materialTypes)[number];
+
+export const monogramPlacements = ["heel-tab", "tongue", "side"] as const;
+export type MonogramPlacement = (typeof monogramPlacements)[number];
+
+export const monogramFinishes = ["deboss", "emboss", "foil"] as const;
+export type MonogramFinish = (typeof monogramFinishes)[number];
+
+export const monogramPlacementLabels: Record<MonogramPlacement, string> = {
+  "heel-tab": "Heel Tab",
+  tongue: "Tongue",
+  side: "Side Panel",
+};
+
+export const monogramFinishLabels: Record<MonogramFinish, string> = {
+  deboss: "Deboss",
+  emboss: "Emboss",
+  foil: "Foil",
+};
+
+// The first finish of each material is its default
+export const MONOGRAM_FINISHES: Record<MaterialType, readonly MonogramFinish[]> = {
+  leather: ["deboss", "emboss", "foil"],
+  nubuck: ["deboss", "foil"],
+  glint: ["emboss", "foil"],
+  knit: ["emboss", "foil"],
+};
+
+// The chosen finish if the material takes it, else the material's default
+export function resolveMonogramFinish(material: MaterialType, finish: MonogramFinish): MonogramFinish {
+  const finishes = MONOGRAM_FINISHES[material];
+  return finishes.includes(finish) ? finish : finishes[0];
+}
@@ -0,0 +1,56 @@
+// Zones of the shoe that can each have their own color, named after the
+// materials in /shoe-draco.glb. A configuration stores only the zones the
+// customer recolored; the others follow its base and accent colors or keep
+// their neutral finish.
+
+export const shoeParts = ["laces", "mesh", "caps", "inner", "sole", "stripes", "band", "patch"] as const;
+export type ShoePart = (typeof shoeParts)[number];
+export type PartColors = Partial<Record<ShoePart, string>>;
+
+export const shoePartLabels: Record<ShoePart, string> = {
+  laces: "Laces",
+  mesh: "Upper",
+  caps: "Toe & Heel Caps",
+  inner: "Lining",
+  sole: "Sole",
+  stripes: "Stripes",
+  band: "Collar Band",
+  patch: "Logo Patch",
+};
+
+const PART_DEFAULTS: Record<ShoePart, "base" | "accent" | string> = {
+  laces: "#374151",
+  mesh: "base",
+  caps: "base",
+  inner: "#9ca3af",
+  sole: "#f7f7f7",
+  stripes: "accent",
+  band: "base",
+  patch: "accent",
+};
+
+export interface ColorScheme {
+  baseColor: string;
+  accentColor: string;
+  partColors?: PartColors | null;
+}
+
+// The color every zone shows
+export function resolvePartColors({ baseColor, accentColor, partColors }: ColorScheme): Record<ShoePart, string> {
+  const colors = {} as Record<ShoePart, string>;
+  for (const part of shoeParts) {
+    const fallback = PART_DEFAULTS[part];
+    colors[part] =
+      partColors?.[part] ?? (fallback === "base" ? baseColor : fallback === "accent" ? accentColor : fallback);
+  }
+  return colors;
+}
+
+// Recolored zones in a fixed order with lowercase colors, so the same
+// choices always compare and serialize the same way
+export function partColorEntries(partColors?: PartColors | null): [ShoePart, string][] {
+  return shoeParts.flatMap((part) => {
+    const color = partColors?.[part];
+    return color ? [[part, color.toLowerCase()] as [ShoePart, string]] : [];
+  });
+}
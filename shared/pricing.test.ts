@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import type { AppliedPromotion, Promotion } from "./schema";
+import {
+  describePromotion,
+  evaluatePromotion,
+  priceAdjustments,
+  priceCart,
+  priceConfiguration,
+  promotionUnavailableReason,
+  type PricedLine,
+} from "./pricing";
+
+function promo(overrides: Partial<AppliedPromotion> & Pick<AppliedPromotion, "kind">): AppliedPromotion {
+  return { code: "TEST", description: "", amount: 0, shoeType: null, ...overrides };
+}
+
+const runner: PricedLine = { shoeType: "running", unitPrice: 299, quantity: 1 };
+const highTop: PricedLine = { shoeType: "high-top", unitPrice: 399, quantity: 1 };
+
+describe("priceConfiguration", () => {
+  it("charges the base price for a plain leather shoe", () => {
+    expect(priceConfiguration(299, { material: "leather", size: "9", width: "standard" })).toEqual({
+      base: 299,
+      material: 0,
+      pattern: 0,
+      monogram: 0,
+      size: 0,
+      total: 299,
+    });
+  });
+
+  it("adds the material, pattern, monogram and size surcharges", () => {
+    const breakdown = priceConfiguration(299, {
+      material: "glint",
+      size: "13",
+      width: "extra-wide",
+      personalization: { pattern: "geometric", monogram: "ABC" },
+    });
+
+    expect(breakdown).toEqual({ base: 299, material: 150, pattern: 40, monogram: 35, size: 35, total: 559 });
+  });
+
+  it("doesn't charge for a blank monogram, no pattern or an unknown option", () => {
+    const breakdown = priceConfiguration(299, {
+      material: "nubuck",
+      size: "12",
+      personalization: { pattern: "none", monogram: "  " },
+    });
+
+    expect(breakdown.total).toBe(324);
+    expect(priceConfiguration(299, { material: "leather", personalization: { pattern: "plaid" } }).total).toBe(299);
+  });
+});
+
+describe("priceAdjustments", () => {
+  it("lists only the extras that cost something", () => {
+    const breakdown = priceConfiguration(299, { material: "nubuck", personalization: { monogram: "A" } });
+
+    expect(priceAdjustments(breakdown)).toEqual([
+      { label: "Material", amount: 25 },
+      { label: "Monogram", amount: 35 },
+    ]);
+  });
+});
+
+describe("priceCart", () => {
+  it("totals every line by quantity", () => {
+    const totals = priceCart([
+      { shoeType: "running", unitPrice: 299, quantity: 2 },
+      { shoeType: "high-top", unitPrice: 399, quantity: 1 },
+    ]);
+
+    expect(totals).toEqual({ subtotal: 997, discounts: [], total: 997 });
+  });
+
+  it("is zero for an empty cart", () => {
+    expect(priceCart([])).toEqual({ subtotal: 0, discounts: [], total: 0 });
+  });
+});
+
+describe("promotionUnavailableReason", () => {
+  const now = new Date("2025-06-15T12:00:00Z");
+  const stored: Promotion = {
+    ...promo({ code: "SUMMER", kind: "percent", amount: 10 }),
+    startsAt: new Date("2025-06-01T00:00:00Z"),
+    endsAt: new Date("2025-07-01T00:00:00Z"),
+    usageLimit: 100,
+    timesUsed: 99,
+    active: true,
+    createdAt: new Date("2025-05-01T00:00:00Z"),
+  };
+
+  it("accepts a live code with uses left", () => {
+    expect(promotionUnavailableReason(stored, now)).toBeUndefined();
+  });
+
+  it("explains why a code can't be used", () => {
+    expect(promotionUnavailableReason({ ...stored, active: false }, now)).toBe("SUMMER is no longer available");
+    expect(promotionUnavailableReason(stored, new Date("2025-05-31T23:59:59Z"))).toBe("SUMMER isn't active yet");
+    expect(promotionUnavailableReason(stored, new Date("2025-07-01T00:00:00Z"))).toBe("SUMMER has expired");
+    expect(promotionUnavailableReason({ ...stored, timesUsed: 100 }, now)).toBe("SUMMER has reached its usage limit");
+  });
+});
+
+describe("evaluatePromotion", () => {
+  it("takes a rounded percentage off", () => {
+    const { discount } = evaluatePromotion(promo({ kind: "percent", amount: 15 }), [runner]);
+
+    expect(discount).toEqual({ code: "TEST", label: "15% off", amount: 45 });
+  });
+
+  it("caps a fixed amount at what the eligible lines cost", () => {
+    expect(evaluatePromotion(promo({ kind: "fixed", amount: 50 }), [runner]).discount?.amount).toBe(50);
+    expect(evaluatePromotion(promo({ kind: "fixed", amount: 500 }), [runner]).discount?.amount).toBe(299);
+  });
+
+  it("only discounts the collection a code is limited to", () => {
+    const { discount } = evaluatePromotion(promo({ kind: "percent", amount: 10, shoeType: "running" }), [
+      runner,
+      highTop,
+    ]);
+
+    expect(discount?.amount).toBe(30);
+    expect(evaluatePromotion(promo({ kind: "percent", amount: 10, shoeType: "low-top" }), [runner]).error).toBe(
+      "TEST doesn't apply to anything in your cart",
+    );
+  });
+
+  it("refunds the monogram fee on monogrammed pairs", () => {
+    const monogrammed = { ...runner, quantity: 2, personalization: { monogram: "AB" } };
+
+    expect(evaluatePromotion(promo({ kind: "free_monogram" }), [monogrammed, highTop]).discount?.amount).toBe(70);
+    expect(evaluatePromotion(promo({ kind: "free_monogram" }), [runner]).error).toBe("Add a monogram to use TEST");
+  });
+
+  it("discounts the cheaper pair of every two, most expensive first", () => {
+    const lines = [highTop, { ...runner, quantity: 2 }];
+    // Units 399, 299, 299: only the second one is discounted
+    expect(evaluatePromotion(promo({ kind: "buy_two_save", amount: 20 }), lines).discount?.amount).toBe(60);
+    expect(evaluatePromotion(promo({ kind: "buy_two_save", amount: 20 }), [runner]).error).toBe(
+      "Add a second eligible pair to use TEST",
+    );
+  });
+});
+
+describe("describePromotion", () => {
+  it("prefers the stored description", () => {
+    expect(describePromotion(promo({ kind: "percent", amount: 10, description: "Welcome" }))).toBe("Welcome");
+  });
+
+  it("describes each kind, scoped to its collection", () => {
+    expect(describePromotion(promo({ kind: "fixed", amount: 50, shoeType: "high-top" }))).toBe("$50 off High-Top");
+    expect(describePromotion(promo({ kind: "free_monogram", shoeType: "running" }))).toBe(
+      "Free monogramming on Running",
+    );
+    expect(describePromotion(promo({ kind: "buy_two_save", amount: 20 }))).toBe("Buy two, save 20% on the second");
+  });
+});
+
+describe("priceCart with a promotion", () => {
+  it("takes the discount off the total", () => {
+    const totals = priceCart([runner, highTop], promo({ kind: "fixed", amount: 50 }));
+
+    expect(totals).toEqual({
+      subtotal: 698,
+      discounts: [{ code: "TEST", label: "$50 off", amount: 50 }],
+      total: 648,
+    });
+  });
+
+  it("ignores a code that doesn't apply", () => {
+    expect(priceCart([runner], promo({ kind: "free_monogram" }))).toEqual({ subtotal: 299, discounts: [], total: 299 });
+  });
+});
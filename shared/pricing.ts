@@ -0,0 +1,211 @@
+// Prices for configured shoes and the promotions applied to a cart, in whole
+// dollars like the catalog. The same functions run in the storefront and when
+// the server prices a cart or an order, so the number shown is the number
+// charged.
+
+import type { AppliedPromotion, Promotion, materialTypes } from "./schema";
+
+type MaterialType = (typeof materialTypes)[number];
+
+// Added to the product's base price for the chosen upper
+export const MATERIAL_SURCHARGES: Record<MaterialType, number> = {
+  leather: 0,
+  nubuck: 25,
+  glint: 150,
+  knit: 0,
+};
+
+// Pattern overlays, keyed by the pattern id stored in personalization.pattern
+export const PATTERN_FEES: Record<string, number> = {
+  none: 0,
+  stripes: 25,
+  dots: 25,
+  geometric: 40,
+  floral: 40,
+  abstract: 40,
+};
+
+export const MONOGRAM_FEE = 35;
+
+// Extended sizes and widths need their own lasts
+export const SIZE_UPCHARGES: Record<string, number> = {
+  "12.5": 20,
+  "13": 20,
+};
+export const WIDTH_UPCHARGES: Record<string, number> = {
+  "extra-wide": 15,
+};
+
+export interface PricedConfiguration {
+  material: MaterialType;
+  size?: string | null;
+  width?: string | null;
+  personalization?: Record<string, string> | null;
+}
+
+export interface PriceBreakdown {
+  base: number;
+  material: number;
+  pattern: number;
+  monogram: number;
+  size: number; // size and width together
+  total: number; // per pair
+}
+
+export function priceConfiguration(basePrice: number, config: PricedConfiguration): PriceBreakdown {
+  const pattern = config.personalization?.pattern;
+  const monogram = config.personalization?.monogram?.trim();
+
+  const breakdown = {
+    base: basePrice,
+    material: MATERIAL_SURCHARGES[config.material] ?? 0,
+    pattern: pattern ? PATTERN_FEES[pattern] ?? 0 : 0,
+    monogram: monogram ? MONOGRAM_FEE : 0,
+    size: (config.size ? SIZE_UPCHARGES[config.size] ?? 0 : 0) +
+      (config.width ? WIDTH_UPCHARGES[config.width] ?? 0 : 0),
+  };
+
+  return {
+    ...breakdown,
+    total: breakdown.base + breakdown.material + breakdown.pattern + breakdown.monogram + breakdown.size,
+  };
+}
+
+// The non-zero extras as labelled lines, for showing how a price is made up
+export function priceAdjustments(breakdown: PriceBreakdown): { label: string; amount: number }[] {
+  return [
+    { label: "Material", amount: breakdown.material },
+    { label: "Pattern", amount: breakdown.pattern },
+    { label: "Monogram", amount: breakdown.monogram },
+    { label: "Size & width", amount: breakdown.size },
+  ].filter((line) => line.amount !== 0);
+}
+
+// Promotions
+
+// A priced cart or order line, as far as promotions are concerned
+export interface PricedLine {
+  shoeType: string;
+  unitPrice: number; // priceConfiguration(...).total
+  quantity: number;
+  personalization?: Record<string, string> | null;
+}
+
+export interface Discount {
+  code: string;
+  label: string;
+  amount: number; // dollars off, positive
+}
+
+export interface CartTotals {
+  subtotal: number;
+  discounts: Discount[];
+  total: number;
+}
+
+// What /api/cart/apply-promo returns
+export interface PromoQuote {
+  promotion: AppliedPromotion;
+  totals: CartTotals;
+}
+
+const collectionLabels: Record<string, string> = {
+  running: "Running",
+  "low-top": "Low-Top",
+  "high-top": "High-Top",
+};
+
+export function describePromotion(promotion: AppliedPromotion): string {
+  if (promotion.description) return promotion.description;
+
+  const scope = promotion.shoeType ? ` ${collectionLabels[promotion.shoeType] ?? promotion.shoeType}` : "";
+  switch (promotion.kind) {
+    case "percent":
+      return `${promotion.amount}% off${scope}`;
+    case "fixed":
+      return `$${promotion.amount} off${scope}`;
+    case "free_monogram":
+      return `Free monogramming${scope ? ` on${scope}` : ""}`;
+    case "buy_two_save":
+      return `Buy two${scope}, save ${promotion.amount}% on the second`;
+  }
+}
+
+// Why a stored code can't be used at `now`, or undefined if it can. Whether
+// it fits the cart is checked separately by evaluatePromotion().
+export function promotionUnavailableReason(promotion: Promotion, now: Date): string | undefined {
+  if (!promotion.active) {
+    return `${promotion.code} is no longer available`;
+  }
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+    return `${promotion.code} isn't active yet`;
+  }
+  if (promotion.endsAt && now >= new Date(promotion.endsAt)) {
+    return `${promotion.code} has expired`;
+  }
+  if (promotion.usageLimit !== null && promotion.timesUsed >= promotion.usageLimit) {
+    return `${promotion.code} has reached its usage limit`;
+  }
+  return undefined;
+}
+
+// The discount a code gives on these lines, or why it gives none
+export function evaluatePromotion(
+  promotion: AppliedPromotion,
+  lines: readonly PricedLine[],
+): { discount: Discount; error?: undefined } | { discount?: undefined; error: string } {
+  const eligible = lines.filter((line) => !promotion.shoeType || line.shoeType === promotion.shoeType);
+  if (eligible.length === 0) {
+    return { error: `${promotion.code} doesn't apply to anything in your cart` };
+  }
+
+  const eligibleSubtotal = eligible.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  let amount = 0;
+
+  switch (promotion.kind) {
+    case "percent":
+      amount = Math.round((eligibleSubtotal * promotion.amount) / 100);
+      break;
+    case "fixed":
+      amount = Math.min(promotion.amount, eligibleSubtotal);
+      break;
+    case "free_monogram": {
+      const monogrammed = eligible
+        .filter((line) => line.personalization?.monogram?.trim())
+        .reduce((sum, line) => sum + line.quantity, 0);
+      if (monogrammed === 0) {
+        return { error: `Add a monogram to use ${promotion.code}` };
+      }
+      amount = monogrammed * MONOGRAM_FEE;
+      break;
+    }
+    case "buy_two_save": {
+      // Pairs up units most expensive first; the cheaper of each two is discounted
+      const units = eligible
+        .flatMap((line) => Array.from({ length: line.quantity }, () => line.unitPrice))
+        .sort((a, b) => b - a);
+      if (units.length < 2) {
+        return { error: `Add a second eligible pair to use ${promotion.code}` };
+      }
+      const discounted = units.filter((_, index) => index % 2 === 1);
+      amount = Math.round((discounted.reduce((sum, price) => sum + price, 0) * promotion.amount) / 100);
+      break;
+    }
+  }
+
+  return { discount: { code: promotion.code, label: describePromotion(promotion), amount } };
+}
+
+// Subtotal, discounts and total for a set of lines. A code that doesn't
+// apply to them simply contributes no discount.
+export function priceCart(lines: readonly PricedLine[], promotion?: AppliedPromotion | null): CartTotals {
+  const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const discount = promotion ? evaluatePromotion(promotion, lines).discount : undefined;
+  const discounts = discount && discount.amount > 0 ? [discount] : [];
+
+  return {
+    subtotal,
+    discounts,
+    total: subtotal - discounts.reduce((sum, line) => sum + line.amount, 0),
+  };
+}
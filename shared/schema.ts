@@ -1,6 +1,10 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_WIDTH, shoeWidths, usSizes, type ShoeWidth, type UsSize } from "./sizing";
+import { shoeParts, type PartColors } from "./parts";
+import { monogramFinishes, monogramPlacements } from "./monogram";
+import { artworkPlacementSchema, uploadStatuses } from "./artwork";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -13,5 +17,478 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+export const credentialsSchema = insertUserSchema.extend({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Use letters, digits, dots, dashes or underscores"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password must be at most 128 characters"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type Credentials = z.infer<typeof credentialsSchema>;
 export type User = typeof users.$inferSelect;
+// What the API returns for a user; the password hash never leaves the server
+export type PublicUser = Omit<User, "password">;
+
+// Catalog
+export const materialTypes = ["leather", "nubuck", "glint", "knit"] as const;
+export const shoeTypes = ["high-top", "low-top", "running"] as const;
+
+export const products = pgTable("products", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  baseColor: text("base_color").notNull(),
+  accentColor: text("accent_color").notNull(),
+  material: text("material", { enum: materialTypes }).notNull(),
+  shoeType: text("shoe_type", { enum: shoeTypes }).notNull(),
+  price: integer("price").notNull(),
+  // US sizes and widths this model is made in
+  sizes: jsonb("sizes").$type<UsSize[]>().notNull().default([...usSizes]),
+  widths: jsonb("widths").$type<ShoeWidth[]>().notNull().default([DEFAULT_WIDTH]),
+  sortOrder: integer("sort_order").notNull().default(0),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a #RRGGBB color");
+
+// Colors of individually recolored zones (see shared/parts.ts)
+export const partColorsSchema = z.record(z.enum(shoeParts), hexColor);
+
+export const insertProductSchema = createInsertSchema(products, {
+  id: (schema) => schema.regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes"),
+  baseColor: hexColor,
+  accentColor: hexColor,
+  price: (schema) => schema.int().positive(),
+  sizes: z.array(z.enum(usSizes)).min(1).optional(),
+  widths: z.array(z.enum(shoeWidths)).min(1).optional(),
+}).omit({
+  createdAt: true,
+});
+
+export const updateProductSchema = insertProductSchema.omit({ id: true }).partial();
+
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type UpdateProduct = z.infer<typeof updateProductSchema>;
+export type Product = typeof products.$inferSelect;
+
+export const productSortKeys = ["featured", "name", "price", "newest"] as const;
+
+export const productQuerySchema = z.object({
+  shoeType: z.enum(shoeTypes).optional(),
+  material: z.enum(materialTypes).optional(),
+  minPrice: z.coerce.number().int().nonnegative().optional(),
+  maxPrice: z.coerce.number().int().nonnegative().optional(),
+  sort: z.enum(productSortKeys).default("featured"),
+  order: z.enum(["asc", "desc"]).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24),
+});
+
+export type ProductQuery = z.infer<typeof productQuerySchema>;
+
+export interface ProductPage {
+  items: Product[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Inventory. Only combinations with a row are stock-tracked; anything else
+// is made to order.
+export const inventory = pgTable("inventory", {
+  id: serial("id").primaryKey(),
+  productId: text("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  size: text("size").notNull(),
+  material: text("material", { enum: materialTypes }).notNull(),
+  quantity: integer("quantity").notNull(), // on hand, before cart reservations
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.productId, table.size, table.material)]);
+
+export const inventoryInputSchema = z.object({
+  productId: z.string().min(1),
+  size: z.enum(usSizes),
+  material: z.enum(materialTypes),
+  quantity: z.number().int().min(0),
+});
+
+export type InventoryInput = z.infer<typeof inventoryInputSchema>;
+export type InventoryRecord = typeof inventory.$inferSelect;
+
+// Units of one product, size and material
+export interface StockLine {
+  productId: string;
+  size: string;
+  material: (typeof materialTypes)[number];
+  quantity: number;
+}
+
+// Cart
+export const cartItems = pgTable("cart_items", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // configurationKey() of the line; the same design always lands on one line
+  lineKey: text("line_key").notNull(),
+  productId: text("product_id").notNull().references(() => products.id),
+  baseColor: text("base_color").notNull(),
+  accentColor: text("accent_color").notNull(),
+  material: text("material", { enum: materialTypes }).notNull(),
+  shoeType: text("shoe_type", { enum: shoeTypes }).notNull(),
+  // Null only on lines saved before a size was required
+  size: text("size"),
+  width: text("width", { enum: shoeWidths }),
+  personalization: jsonb("personalization").$type<Record<string, string>>(),
+  partColors: jsonb("part_colors").$type<PartColors>(),
+  quantity: integer("quantity").notNull(),
+  // The line holds stock until this time; refreshed on every cart change
+  reservedUntil: timestamp("reserved_until"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.userId, table.lineKey)]);
+
+export const MAX_LINE_QUANTITY = 10;
+
+export const cartLineInputSchema = z.object({
+  productId: z.string().min(1),
+  baseColor: hexColor,
+  accentColor: hexColor,
+  material: z.enum(materialTypes),
+  shoeType: z.enum(shoeTypes),
+  size: z.enum(usSizes, { errorMap: () => ({ message: "Choose a size" }) }),
+  width: z.enum(shoeWidths).default(DEFAULT_WIDTH),
+  personalization: z.record(z.string().max(64)).nullish(),
+  partColors: partColorsSchema.nullish(),
+  quantity: z.number().int().min(1).max(MAX_LINE_QUANTITY).default(1),
+});
+
+// A line as it may already be saved: guest carts from before sizes were
+// required can still be merged, and get a size when the customer edits them
+export const savedCartLineSchema = cartLineInputSchema.extend({
+  size: z.string().max(16).nullish(),
+  width: z.enum(shoeWidths).nullish(),
+});
+
+export const cartQuantitySchema = z.object({
+  quantity: z.number().int().min(0).max(MAX_LINE_QUANTITY),
+});
+
+export const cartMergeSchema = z.object({
+  items: z.array(savedCartLineSchema).max(50),
+});
+
+export type CartLineInput = z.infer<typeof cartLineInputSchema>;
+export type SavedCartLine = z.infer<typeof savedCartLineSchema>;
+export type InsertCartItem = typeof cartItems.$inferInsert;
+export type CartItemRecord = typeof cartItems.$inferSelect;
+
+// A cart line as the API returns it: the stored configuration plus the
+// product's current name and the configuration's current price (see
+// shared/pricing.ts). `id` is the product id.
+export interface CartLine {
+  id: string;
+  lineKey: string;
+  name: string;
+  baseColor: string;
+  accentColor: string;
+  material: (typeof materialTypes)[number];
+  shoeType: (typeof shoeTypes)[number];
+  size?: string | null;
+  width?: ShoeWidth | null;
+  personalization?: Record<string, string> | null;
+  partColors?: PartColors | null;
+  price: number;
+  quantity: number;
+}
+
+// Promotions. Codes are stored upper case. `amount` is a percentage for
+// percent and buy_two_save codes, whole dollars for fixed codes and unused
+// for free_monogram.
+export const promotionKinds = ["percent", "fixed", "free_monogram", "buy_two_save"] as const;
+export type PromotionKind = (typeof promotionKinds)[number];
+
+export const promotions = pgTable("promotions", {
+  code: text("code").primaryKey(),
+  description: text("description").notNull().default(""),
+  kind: text("kind", { enum: promotionKinds }).notNull(),
+  amount: integer("amount").notNull().default(0),
+  // Limits the code to one collection; null for the whole catalog
+  shoeType: text("shoe_type", { enum: shoeTypes }),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  usageLimit: integer("usage_limit"), // null for unlimited
+  timesUsed: integer("times_used").notNull().default(0),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+const promoCode = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9-]{3,32}$/, "Codes are 3–32 letters, digits or dashes");
+
+export const insertPromotionSchema = createInsertSchema(promotions, {
+  code: promoCode,
+  amount: z.number().int().nonnegative().optional(),
+  startsAt: z.coerce.date().nullish(),
+  endsAt: z.coerce.date().nullish(),
+  usageLimit: z.number().int().positive().nullish(),
+}).omit({
+  timesUsed: true,
+  createdAt: true,
+}).superRefine((promotion, ctx) => {
+  const amount = promotion.amount ?? 0;
+  if ((promotion.kind === "percent" || promotion.kind === "buy_two_save") && (amount < 1 || amount > 100)) {
+    ctx.addIssue({ code: "custom", path: ["amount"], message: "Percentages are between 1 and 100" });
+  }
+  if (promotion.kind === "fixed" && amount < 1) {
+    ctx.addIssue({ code: "custom", path: ["amount"], message: "Enter the amount off in dollars" });
+  }
+  if (promotion.startsAt && promotion.endsAt && promotion.endsAt <= promotion.startsAt) {
+    ctx.addIssue({ code: "custom", path: ["endsAt"], message: "A code must end after it starts" });
+  }
+});
+
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type Promotion = typeof promotions.$inferSelect;
+// What the storefront needs to show and re-evaluate an applied code
+export type AppliedPromotion = Pick<Promotion, "code" | "description" | "kind" | "amount" | "shoeType">;
+
+// Guests send their cart lines; signed-in customers' carts are read on the server
+export const applyPromoSchema = z.object({
+  code: z.string().trim().toUpperCase().min(1, "Enter a promo code").max(32),
+  items: z.array(savedCartLineSchema).max(50).optional(),
+});
+
+// Orders
+// Rates and delivery times differ by region; see shared/shipping.ts
+export const shippingMethods = {
+  standard: { label: "Standard" },
+  express: { label: "Express" },
+  overnight: { label: "Overnight" },
+} as const;
+
+export type ShippingMethod = keyof typeof shippingMethods;
+export const shippingMethodIds = Object.keys(shippingMethods) as [ShippingMethod, ...ShippingMethod[]];
+
+export const shippingAddressSchema = z.object({
+  fullName: z.string().trim().min(2, "Enter the recipient's name").max(100),
+  email: z.string().trim().email("Enter a valid email address"),
+  line1: z.string().trim().min(3, "Enter a street address").max(200),
+  line2: z.string().trim().max(200).optional(),
+  city: z.string().trim().min(2, "Enter a city").max(100),
+  region: z.string().trim().max(100).optional(),
+  postalCode: z.string().trim().min(3, "Enter a postal code").max(16),
+  country: z.string().trim().length(2, "Use a two-letter country code").toUpperCase(),
+});
+
+export type ShippingAddress = z.infer<typeof shippingAddressSchema>;
+
+// Lifecycle: placed → in_production → shipped → delivered. An order can be
+// cancelled until it ships.
+export const orderStatuses = ["placed", "in_production", "shipped", "delivered", "cancelled"] as const;
+export type OrderStatus = (typeof orderStatuses)[number];
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  placed: "Placed",
+  in_production: "In production",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+export const orderStatusTransitions: Record<OrderStatus, readonly OrderStatus[]> = {
+  placed: ["in_production", "cancelled"],
+  in_production: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return orderStatusTransitions[from].includes(to);
+}
+
+export const orders = pgTable("orders", {
+  id: serial("id").primaryKey(),
+  // Null for guest checkouts
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  email: text("email").notNull(),
+  status: text("status", { enum: orderStatuses }).notNull().default("placed"),
+  shippingAddress: jsonb("shipping_address").$type<ShippingAddress>().notNull(),
+  shippingMethod: text("shipping_method").notNull(),
+  subtotal: integer("subtotal").notNull(),
+  shippingCost: integer("shipping_cost").notNull(),
+  promoCode: text("promo_code"),
+  discount: integer("discount").notNull().default(0),
+  tax: integer("tax").notNull().default(0),
+  total: integer("total").notNull(),
+  paymentProvider: text("payment_provider").notNull(),
+  paymentReference: text("payment_reference").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Items are snapshots: name, configuration and unit price as they were when
+// the order was placed, unaffected by later catalog edits
+export const orderItems = pgTable("order_items", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  productId: text("product_id").notNull(),
+  lineKey: text("line_key").notNull(),
+  name: text("name").notNull(),
+  baseColor: text("base_color").notNull(),
+  accentColor: text("accent_color").notNull(),
+  material: text("material", { enum: materialTypes }).notNull(),
+  shoeType: text("shoe_type", { enum: shoeTypes }).notNull(),
+  size: text("size"),
+  width: text("width", { enum: shoeWidths }),
+  personalization: jsonb("personalization").$type<Record<string, string>>(),
+  partColors: jsonb("part_colors").$type<PartColors>(),
+  unitPrice: integer("unit_price").notNull(),
+  quantity: integer("quantity").notNull(),
+});
+
+// One row per status change, including the initial "placed"
+export const orderStatusEvents = pgTable("order_status_events", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  status: text("status", { enum: orderStatuses }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const placeOrderSchema = z.object({
+  items: z.array(cartLineInputSchema).min(1, "Your cart is empty").max(50),
+  shippingAddress: shippingAddressSchema,
+  shippingMethod: z.enum(shippingMethodIds),
+  promoCode: z.string().trim().toUpperCase().max(32).optional(),
+  paymentToken: z.string().min(1),
+});
+
+export type PlaceOrder = z.infer<typeof placeOrderSchema>;
+export type InsertOrder = typeof orders.$inferInsert;
+export type Order = typeof orders.$inferSelect;
+export type InsertOrderItem = Omit<typeof orderItems.$inferInsert, "orderId">;
+export type OrderItem = typeof orderItems.$inferSelect;
+export type OrderStatusEvent = typeof orderStatusEvents.$inferSelect;
+export type OrderWithItems = Order & { items: OrderItem[]; history: OrderStatusEvent[] };
+
+export const updateOrderStatusSchema = z.object({
+  status: z.enum(orderStatuses),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type UpdateOrderStatus = z.infer<typeof updateOrderStatusSchema>;
+
+// Saved designs from the customization studio. The configuration is one
+// JSON document so the studio can grow options without a migration per field.
+export const designPatterns = ["none", "stripes", "dots", "geometric", "floral", "abstract"] as const;
+export const monogramFonts = ["serif", "sans-serif", "script", "monospace"] as const;
+
+// Pattern motifs are drawn at this size times the scale, and turned by up
+// to half a turn (they repeat after that)
+export const PATTERN_SCALE_RANGE = { min: 0.5, max: 3 } as const;
+export const MAX_PATTERN_ROTATION = 180;
+
+export const designConfigSchema = z.object({
+  baseColor: hexColor,
+  accentColor: hexColor,
+  material: z.enum(materialTypes),
+  shoeType: z.enum(shoeTypes),
+  pattern: z.enum(designPatterns).default("none"),
+  patternScale: z.number().min(PATTERN_SCALE_RANGE.min).max(PATTERN_SCALE_RANGE.max).default(1),
+  patternRotation: z.number().int().min(0).max(MAX_PATTERN_ROTATION).default(0),
+  patternColor: hexColor.default("#E1B75A"),
+  monogram: z.string().trim().toUpperCase().max(3, "Monograms are up to 3 characters").default(""),
+  font: z.enum(monogramFonts).default("serif"),
+  monogramPlacement: z.enum(monogramPlacements).default("heel-tab"),
+  monogramColor: hexColor.default("#E1B75A"),
+  monogramFinish: z.enum(monogramFinishes).default("foil"),
+  partColors: partColorsSchema.default({}),
+  artwork: artworkPlacementSchema.nullable().default(null),
+});
+
+export type DesignConfig = z.infer<typeof designConfigSchema>;
+export type DesignPattern = DesignConfig["pattern"];
+export type MonogramFont = DesignConfig["font"];
+
+export const designs = pgTable("designs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // The catalog shoe the design started from, if any
+  productId: text("product_id").references(() => products.id, { onDelete: "set null" }),
+  config: jsonb("config").$type<DesignConfig>().notNull(),
+  // Set the first time the design is shared; anyone with the link can view it
+  shareSlug: text("share_slug").unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const MAX_DESIGN_NAME_LENGTH = 60;
+
+const designNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Give your design a name")
+  .max(MAX_DESIGN_NAME_LENGTH, `Names are up to ${MAX_DESIGN_NAME_LENGTH} characters`);
+
+export const insertDesignSchema = z.object({
+  name: designNameSchema,
+  productId: z.string().min(1).nullish(),
+  config: designConfigSchema,
+});
+
+// Rename, re-save, or both
+export const updateDesignSchema = z
+  .object({
+    name: designNameSchema.optional(),
+    config: designConfigSchema.optional(),
+  })
+  .refine((value) => value.name !== undefined || value.config !== undefined, {
+    message: "Nothing to update",
+  });
+
+export type InsertDesign = z.infer<typeof insertDesignSchema>;
+export type UpdateDesign = z.infer<typeof updateDesignSchema>;
+export type Design = typeof designs.$inferSelect;
+// What a share link shows; the owner isn't included
+export type SharedDesign = Pick<Design, "name" | "productId" | "config"> & { slug: string };
+
+// Customer artwork. The file itself is in the upload store under
+// storageKey; the row records who uploaded it and what staff made of it.
+export const uploads = pgTable("uploads", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  storageKey: text("storage_key").notNull().unique(),
+  contentType: text("content_type").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  size: integer("size").notNull(), // bytes, after normalizing
+  status: text("status", { enum: uploadStatuses }).notNull().default("pending"),
+  reviewNote: text("review_note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  reviewedAt: timestamp("reviewed_at"),
+});
+
+export type Upload = typeof uploads.$inferSelect;
+export type InsertUpload = Pick<Upload, "userId" | "storageKey" | "contentType" | "width" | "height" | "size">;
+// What the API returns; where the file is stored stays on the server
+export type UploadInfo = Omit<Upload, "storageKey">;
+
+export const uploadQuerySchema = z.object({
+  status: z.enum(uploadStatuses).default("pending"),
+});
+
+export const reviewUploadSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type ReviewUpload = z.infer<typeof reviewUploadSchema>;
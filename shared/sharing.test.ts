@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import type { DesignConfig } from "./schema";
+import { DEFAULT_DESIGN_CONFIG, decodeDesignLink, encodeDesignLink } from "./sharing";
+
+// Links from each version, as they were written: a glint running shoe with
+// dots and a monospace "ABC", then white laces (v2), then a larger, turned,
+// gold pattern (v3)
+const V1_LINK = "1.0b1220.1fa07a.2223.ABC.luxsole-emerald-runner";
+const V2_LINK = `${V1_LINK.replace(/^1/, "2")}.0ffffff`;
+const V3_LINK = `${V2_LINK.replace(/^2/, "3")}.f2de1b75a`;
+
+const v1Config: DesignConfig = {
+  ...DEFAULT_DESIGN_CONFIG,
+  baseColor: "#0b1220",
+  accentColor: "#1fa07a",
+  material: "glint",
+  shoeType: "running",
+  pattern: "dots",
+  monogram: "ABC",
+  font: "monospace",
+};
+
+describe("encodeDesignLink", () => {
+  it("round-trips every option a link carries", () => {
+    const config: DesignConfig = {
+      ...v1Config,
+      patternScale: 1.5,
+      patternRotation: 45,
+      patternColor: "#e1b75a",
+      monogram: "A.É",
+      monogramPlacement: "side",
+      monogramFinish: "deboss",
+      monogramColor: "#ffffff",
+      partColors: { laces: "#ffffff", sole: "#000000" },
+    };
+
+    const link = encodeDesignLink({ productId: "luxsole-emerald-runner", config });
+
+    expect(link.startsWith("4.")).toBe(true);
+    expect(decodeDesignLink(link)).toEqual({ productId: "luxsole-emerald-runner", config, repaired: false });
+  });
+
+  it("leaves the artwork out", () => {
+    const artwork = { uploadId: 7, zone: "side", scale: 1, rotation: 0, offsetX: 0, offsetY: 0 } as const;
+
+    const link = encodeDesignLink({ productId: null, config: { ...v1Config, artwork } });
+
+    expect(decodeDesignLink(link)?.config.artwork).toBeNull();
+  });
+});
+
+describe("decodeDesignLink", () => {
+  it("reads links from every earlier version", () => {
+    expect(decodeDesignLink(V1_LINK)).toEqual({
+      productId: "luxsole-emerald-runner",
+      config: v1Config,
+      repaired: false,
+    });
+    expect(decodeDesignLink(V2_LINK)?.config).toEqual({ ...v1Config, partColors: { laces: "#ffffff" } });
+    expect(decodeDesignLink(V3_LINK)?.config).toEqual({
+      ...v1Config,
+      partColors: { laces: "#ffffff" },
+      patternScale: 1.5,
+      patternRotation: 85,
+      patternColor: "#e1b75a",
+    });
+  });
+
+  it("gives up on links that are cut short or aren't design links", () => {
+    expect(decodeDesignLink(V3_LINK.slice(0, V3_LINK.lastIndexOf(".")))).toBeUndefined();
+    expect(decodeDesignLink("4.0b1220")).toBeUndefined();
+    expect(decodeDesignLink("")).toBeUndefined();
+    expect(decodeDesignLink("not a link")).toBeUndefined();
+    expect(decodeDesignLink("99.0b1220.1fa07a.2223.ABC.x.x.x.x")).toBeUndefined();
+  });
+
+  it("resets options that are no longer offered and says so", () => {
+    // Material 9 and placement 7 don't exist
+    const decoded = decodeDesignLink("4.0b1220.1fa07a.9223.ABC.luxsole-emerald-runner...72e1b75a");
+
+    expect(decoded?.repaired).toBe(true);
+    expect(decoded?.config.material).toBe(DEFAULT_DESIGN_CONFIG.material);
+    expect(decoded?.config.monogramPlacement).toBe(DEFAULT_DESIGN_CONFIG.monogramPlacement);
+    expect(decoded?.config.shoeType).toBe("running");
+  });
+
+  it("resets a bad color or escape on its own", () => {
+    const decoded = decodeDesignLink("1.zzzzzz.1fa07a.2223.%E0.luxsole-emerald-runner");
+
+    expect(decoded?.repaired).toBe(true);
+    expect(decoded?.config).toEqual({ ...v1Config, baseColor: DEFAULT_DESIGN_CONFIG.baseColor, monogram: "" });
+  });
+});
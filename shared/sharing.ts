@@ -0,0 +1,262 @@
+// Design links: a compact, versioned encoding of a studio configuration that
+// fits in a URL, e.g. ?design=4.0b1220.1fa07a.2223.ABC.luxsole-emerald-runner.0ffffff.a00e1b75a.02e1b75a
+//
+// The first segment is the format version. Old links keep working: each
+// version has its own decoder, and whatever a link carries is checked field
+// by field, so a bad or retired value falls back to the default instead of
+// breaking the studio.
+
+import { designConfigSchema, type DesignConfig } from "./schema";
+import { partColorEntries } from "./parts";
+import { resolveMonogramFinish } from "./monogram";
+import { artworkPersonalization } from "./artwork";
+
+export const DESIGN_LINK_VERSION = 4;
+
+// Links open the page they were made on with one of these in the query:
+// ?design=<encoded configuration> or ?share=<short link slug>
+export const DESIGN_LINK_PARAM = "design";
+export const SHORT_LINK_PARAM = "share";
+
+export const DEFAULT_DESIGN_CONFIG: DesignConfig = {
+  baseColor: "#0B1220",
+  accentColor: "#1FA07A",
+  material: "leather",
+  shoeType: "low-top",
+  pattern: "none",
+  patternScale: 1,
+  patternRotation: 0,
+  patternColor: "#E1B75A",
+  monogram: "",
+  font: "serif",
+  monogramPlacement: "heel-tab",
+  monogramColor: "#E1B75A",
+  monogramFinish: "foil",
+  partColors: {},
+  artwork: null,
+};
+
+export interface DesignLink {
+  productId: string | null;
+  config: DesignConfig;
+}
+
+export interface DecodedDesignLink extends DesignLink {
+  // Some values were invalid or no longer offered and were reset
+  repaired: boolean;
+}
+
+// Version 1 writes each option as its position in these lists, so they are
+// frozen: new options go at the end, and a reorder needs a new version
+const V1_CODES = {
+  material: ["leather", "nubuck", "glint", "knit"],
+  shoeType: ["high-top", "low-top", "running"],
+  pattern: ["none", "stripes", "dots", "geometric", "floral", "abstract"],
+  font: ["serif", "sans-serif", "script", "monospace"],
+} as const;
+
+type CodedField = keyof typeof V1_CODES;
+const CODED_FIELDS = Object.keys(V1_CODES) as CodedField[];
+
+// Version 2 adds recolored zones, each written as its position in this
+// frozen list followed by its color: "0ffffff" is white laces
+const V2_PARTS = ["laces", "mesh", "caps", "inner", "sole", "stripes", "band", "patch"] as const;
+
+// Version 3 adds the pattern's look, only when there is a pattern: scale in
+// tenths (one base-36 digit), rotation in degrees (two) and color, so
+// "a00e1b75a" is full size, upright and gold
+function encodePatternStyle(config: DesignConfig): string {
+  if (config.pattern === "none") return "";
+  return (
+    Math.round(config.patternScale * 10).toString(36) +
+    config.patternRotation.toString(36).padStart(2, "0") +
+    config.patternColor.slice(1).toLowerCase()
+  );
+}
+
+// Version 4 adds where and how the monogram is applied, only when there is
+// one: placement and finish as positions in these frozen lists, then the
+// color, so "02e1b75a" is gold foil on the heel tab
+const V4_PLACEMENTS = ["heel-tab", "tongue", "side"] as const;
+const V4_FINISHES = ["deboss", "emboss", "foil"] as const;
+
+function encodeMonogramStyle(config: DesignConfig): string {
+  if (!config.monogram) return "";
+  return (
+    V4_PLACEMENTS.indexOf(config.monogramPlacement).toString(36) +
+    V4_FINISHES.indexOf(config.monogramFinish).toString(36) +
+    config.monogramColor.slice(1).toLowerCase()
+  );
+}
+
+function decodeMonogramStyle(value: string): Record<string, unknown> {
+  if (!value) return {};
+  const match = /^([0-9a-z])([0-9a-z])([0-9a-f]{6})$/.exec(value);
+  return {
+    monogramPlacement: (match && V4_PLACEMENTS[parseInt(match[1], 36)]) ?? null,
+    monogramFinish: (match && V4_FINISHES[parseInt(match[2], 36)]) ?? null,
+    monogramColor: match ? `#${match[3]}` : null,
+  };
+}
+
+function decodePatternStyle(value: string): Record<string, unknown> {
+  if (!value) return {};
+  const match = /^([0-9a-z])([0-9a-z]{2})([0-9a-f]{6})$/.exec(value);
+  if (!match) return { patternScale: null, patternRotation: null, patternColor: null };
+  return {
+    patternScale: parseInt(match[1], 36) / 10,
+    patternRotation: parseInt(match[2], 36),
+    patternColor: `#${match[3]}`,
+  };
+}
+
+// Segments are separated by dots, so dots inside a value are escaped too
+function escapeSegment(value: string): string {
+  return encodeURIComponent(value).replace(/\./g, "%2E");
+}
+
+function unescapeSegment(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+}
+
+// Artwork is left out: an upload is only shown to its owner and staff, so
+// whoever opens the link couldn't see it anyway
+export function encodeDesignLink({ productId, config }: DesignLink): string {
+  const codes = CODED_FIELDS.map((field) =>
+    (V1_CODES[field] as readonly string[]).indexOf(config[field]).toString(36),
+  ).join("");
+
+  return [
+    DESIGN_LINK_VERSION,
+    config.baseColor.slice(1).toLowerCase(),
+    config.accentColor.slice(1).toLowerCase(),
+    codes,
+    escapeSegment(config.monogram),
+    escapeSegment(productId ?? ""),
+    partColorEntries(config.partColors)
+      .map(([part, color]) => V2_PARTS.indexOf(part).toString(36) + color.slice(1))
+      .join(""),
+    encodePatternStyle(config),
+    encodeMonogramStyle(config),
+  ].join(".");
+}
+
+function decodePartColors(value: string): Record<string, string> | null {
+  if (!/^([0-9a-z][0-9a-f]{6})*$/.test(value)) return null;
+
+  const partColors: Record<string, string> = {};
+  for (let i = 0; i < value.length; i += 7) {
+    const part = V2_PARTS[parseInt(value[i], 36)];
+    if (!part) return null;
+    partColors[part] = `#${value.slice(i + 1, i + 7)}`;
+  }
+  return partColors;
+}
+
+// Each decoder turns its version's segments into loose fields; checking
+// them is left to repairDesignConfig(). Unreadable values come back as null
+// so they count as invalid rather than missing, and fields a version didn't
+// have are left out so they get their defaults.
+type Decoder = (segments: string[]) => { productId?: string; fields: Record<string, unknown> };
+
+// How many segments each version writes after its number; a link with
+// fewer was cut short
+const SEGMENT_COUNTS: Record<number, number> = { 1: 5, 2: 6, 3: 7, 4: 8 };
+
+const decoders: Record<number, Decoder> = {
+  1: ([baseColor = "", accentColor = "", codes = "", monogram = "", productId = ""]) => {
+    const fields: Record<string, unknown> = {
+      baseColor: `#${baseColor}`,
+      accentColor: `#${accentColor}`,
+      monogram: unescapeSegment(monogram) ?? null,
+    };
+    CODED_FIELDS.forEach((field, index) => {
+      const code = codes[index];
+      fields[field] = (code && (V1_CODES[field] as readonly string[])[parseInt(code, 36)]) ?? null;
+    });
+    return { productId: unescapeSegment(productId), fields };
+  },
+  // Version 1 plus recolored zones
+  2: (segments) => {
+    const { productId, fields } = decoders[1](segments);
+    return { productId, fields: { ...fields, partColors: decodePartColors(segments[5] ?? "") } };
+  },
+  // Version 2 plus the pattern's scale, rotation and color
+  3: (segments) => {
+    const { productId, fields } = decoders[2](segments);
+    return { productId, fields: { ...fields, ...decodePatternStyle(segments[6] ?? "") } };
+  },
+  // Version 3 plus the monogram's placement, finish and color
+  4: (segments) => {
+    const { productId, fields } = decoders[3](segments);
+    return { productId, fields: { ...fields, ...decodeMonogramStyle(segments[7] ?? "") } };
+  },
+};
+
+/**
+ * Checks every field of a configuration on its own, keeping the valid ones
+ * and resetting the rest to the defaults.
+ */
+export function repairDesignConfig(fields: Record<string, unknown>): { config: DesignConfig; repaired: boolean } {
+  const config: DesignConfig = { ...DEFAULT_DESIGN_CONFIG };
+  let repaired = false;
+
+  for (const key of Object.keys(DEFAULT_DESIGN_CONFIG) as (keyof DesignConfig)[]) {
+    const parsed = designConfigSchema.shape[key].safeParse(fields[key]);
+    if (parsed.success) {
+      Object.assign(config, { [key]: parsed.data });
+    } else {
+      repaired = true;
+    }
+  }
+  return { config, repaired };
+}
+
+// The configuration in a link, or undefined if it isn't a whole design link
+export function decodeDesignLink(value: string): DecodedDesignLink | undefined {
+  const [version, ...segments] = value.trim().split(".");
+  const decode = /^\d+$/.test(version) ? decoders[Number(version)] : undefined;
+  if (!decode || segments.length < SEGMENT_COUNTS[Number(version)]) return undefined;
+
+  const { productId, fields } = decode(segments);
+  const { config, repaired } = repairDesignConfig(fields);
+  return {
+    productId: productId || null,
+    config,
+    repaired: repaired || productId === undefined,
+  };
+}
+
+// The title and description a shared design's link preview shows
+export function designLinkSummary(name: string | undefined, config: DesignConfig): { title: string; description: string } {
+  return {
+    title: `${name ?? "Custom design"} — LuxSole`,
+    description: `A custom ${config.shoeType} in ${config.material}, designed in the LuxSole 3D studio.`,
+  };
+}
+
+// The studio options that change the price, as cart personalization
+export function designPersonalization(config: DesignConfig): Record<string, string> | null {
+  const personalization: Record<string, string> = {};
+  if (config.pattern !== "none") {
+    personalization.pattern = config.pattern;
+    personalization.patternScale = String(config.patternScale);
+    personalization.patternRotation = String(config.patternRotation);
+    personalization.patternColor = config.patternColor.toLowerCase();
+  }
+  if (config.monogram) {
+    personalization.monogram = config.monogram;
+    personalization.font = config.font;
+    personalization.monogramPlacement = config.monogramPlacement;
+    personalization.monogramColor = config.monogramColor.toLowerCase();
+    personalization.monogramFinish = resolveMonogramFinish(config.material, config.monogramFinish);
+  }
+  if (config.artwork) {
+    Object.assign(personalization, artworkPersonalization(config.artwork));
+  }
+  return Object.keys(personalization).length > 0 ? personalization : null;
+}
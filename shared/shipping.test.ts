@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import type { AppliedPromotion } from "./schema";
+import type { PricedLine } from "./pricing";
+import { estimateOrder, findRegion, shippingOptions, shownPrice, type ShippingRateTable } from "./shipping";
+
+// Not server/data/shipping-rates.json, so the rates there can change freely
+const table: ShippingRateTable = {
+  defaultCountry: "US",
+  pairWeightGrams: { running: 900, "low-top": 1000, "high-top": 1200 },
+  regions: [
+    {
+      id: "us",
+      name: "United States",
+      countries: ["US"],
+      tax: { label: "Sales tax", rate: 0.08, inclusive: false, onShipping: false },
+      methods: {
+        standard: { delivery: "5–7 business days", tiers: [{ upToGrams: 2000, price: 10 }, { price: 20 }], freeOver: 500 },
+        express: { delivery: "2–3 business days", tiers: [{ price: 30 }] },
+      },
+    },
+    {
+      id: "eu",
+      name: "European Union",
+      countries: ["DE", "FR"],
+      tax: { label: "VAT", rate: 0.2, inclusive: true, onShipping: true },
+      methods: {
+        standard: { delivery: "4–6 business days", tiers: [{ price: 25 }] },
+      },
+    },
+  ],
+};
+
+const everywhereElse = {
+  id: "intl",
+  name: "International",
+  countries: ["*"],
+  tax: { label: "Tax", rate: 0, inclusive: false, onShipping: false },
+  methods: { standard: { delivery: "7–14 business days", tiers: [{ price: 40 }] } },
+};
+
+const runner: PricedLine = { shoeType: "running", unitPrice: 299, quantity: 1 };
+const fiftyOff: AppliedPromotion = { code: "FIFTY", description: "", kind: "fixed", amount: 50, shoeType: null };
+
+describe("findRegion", () => {
+  it("matches a country code in any case", () => {
+    expect(findRegion(table, "de")?.id).toBe("eu");
+  });
+
+  it("falls back to the catch-all region, if there is one", () => {
+    expect(findRegion(table, "JP")).toBeUndefined();
+    expect(findRegion({ ...table, regions: [...table.regions, everywhereElse] }, "JP")?.id).toBe("intl");
+  });
+});
+
+describe("shippingOptions", () => {
+  const us = table.regions[0];
+
+  it("prices each method the region offers by weight", () => {
+    expect(shippingOptions(table, us, [runner], 299)).toEqual([
+      { method: "standard", label: "Standard", delivery: "5–7 business days", price: 10 },
+      { method: "express", label: "Express", delivery: "2–3 business days", price: 30 },
+    ]);
+
+    const heavy = [{ ...runner, shoeType: "high-top", quantity: 2 }];
+    expect(shippingOptions(table, us, heavy, 299)[0].price).toBe(20);
+  });
+
+  it("ships free over the method's threshold", () => {
+    const [standard, express] = shippingOptions(table, us, [runner], 500);
+
+    expect(standard.price).toBe(0);
+    expect(express.price).toBe(30);
+  });
+});
+
+describe("estimateOrder", () => {
+  it("adds sales tax on merchandise only where prices are shown without it", () => {
+    const { estimate } = estimateOrder(table, { country: "US", method: "standard", lines: [runner] });
+
+    expect(estimate).toMatchObject({
+      region: "us",
+      subtotal: 299,
+      shipping: 10,
+      tax: 24,
+      taxLabel: "Sales tax",
+      taxInclusive: false,
+      total: 333,
+      shown: { subtotal: 299, shipping: 10 },
+    });
+  });
+
+  it("shows VAT-inclusive amounts that add up to the total", () => {
+    const { estimate } = estimateOrder(table, {
+      country: "FR",
+      method: "standard",
+      lines: [runner],
+      promotion: fiftyOff,
+    });
+
+    // 20% of 299, less 20% of the 50 off, plus 20% of the 25 shipping
+    expect(estimate?.tax).toBe(60 - 10 + 5);
+    expect(estimate?.total).toBe(249 + 25 + 55);
+    expect(estimate?.shown.subtotal).toBe(359);
+    expect(estimate?.shown.discounts.map((discount) => discount.amount)).toEqual([60]);
+    expect(estimate?.shown.shipping).toBe(30);
+    expect(estimate!.shown.subtotal - 60 + estimate!.shown.shipping).toBe(estimate?.total);
+  });
+
+  it("checks the free shipping threshold after discounts", () => {
+    const lines = [{ ...runner, quantity: 2 }];
+    const hundredOff = { ...fiftyOff, amount: 100 };
+
+    expect(estimateOrder(table, { country: "US", method: "standard", lines }).estimate?.shipping).toBe(0);
+    expect(
+      estimateOrder(table, { country: "US", method: "standard", lines, promotion: hundredOff }).estimate?.shipping,
+    ).toBe(10);
+  });
+
+  it("explains when an order can't be sent", () => {
+    expect(estimateOrder(table, { country: "jp", method: "standard", lines: [runner] }).error).toBe(
+      "We don't ship to JP yet",
+    );
+    expect(estimateOrder(table, { country: "DE", method: "express", lines: [runner] }).error).toBe(
+      "Express shipping isn't available to European Union",
+    );
+  });
+});
+
+describe("shownPrice", () => {
+  it("includes tax only for tax-inclusive regions", () => {
+    expect(shownPrice(table.regions[0], 299)).toBe(299);
+    expect(shownPrice(table.regions[1], 299)).toBe(359);
+    expect(shownPrice(undefined, 299)).toBe(299);
+  });
+});
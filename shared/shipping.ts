@@ -0,0 +1,174 @@
+// Shipping and tax. The rates are data, not code: the server loads them from
+// server/data/shipping-rates.json and serves them to the storefront, which
+// estimates with the same functions the server charges with.
+
+import { z } from "zod";
+import {
+  shippingMethodIds,
+  shippingMethods,
+  shoeTypes,
+  type AppliedPromotion,
+  type ShippingMethod,
+} from "./schema";
+import { priceCart, type Discount, type PricedLine } from "./pricing";
+
+const weightTierSchema = z.object({
+  upToGrams: z.number().int().positive().optional(), // omitted on the last tier
+  price: z.number().int().min(0),
+});
+
+const shippingRateSchema = z.object({
+  delivery: z.string().min(1), // e.g. "2–3 business days"
+  tiers: z.array(weightTierSchema).min(1),
+  freeOver: z.number().int().positive().optional(), // merchandise total after discounts
+});
+
+const shippingRegionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  countries: z.array(z.string()).min(1), // ISO codes, or "*" for everywhere else
+  tax: z.object({
+    label: z.string().min(1),
+    rate: z.number().min(0).max(1),
+    inclusive: z.boolean(), // prices are shown with tax included, as EU VAT requires
+    onShipping: z.boolean(),
+  }),
+  methods: z.record(z.enum(shippingMethodIds), shippingRateSchema),
+});
+
+export const shippingRateTableSchema = z.object({
+  defaultCountry: z.string().length(2),
+  // Boxed weight of one pair, per silhouette
+  pairWeightGrams: z.record(z.enum(shoeTypes), z.number().int().positive()),
+  regions: z.array(shippingRegionSchema).min(1),
+});
+
+export type ShippingRateTable = z.infer<typeof shippingRateTableSchema>;
+export type ShippingRegion = z.infer<typeof shippingRegionSchema>;
+
+export interface ShippingOption {
+  method: ShippingMethod;
+  label: string;
+  delivery: string;
+  price: number;
+}
+
+export interface OrderEstimate {
+  region: string;
+  subtotal: number;
+  discounts: Discount[];
+  shipping: number;
+  tax: number;
+  taxLabel: string;
+  taxInclusive: boolean;
+  total: number; // merchandise after discounts, plus shipping and tax
+  // The amounts to display; with tax in for tax-inclusive regions
+  shown: {
+    subtotal: number;
+    discounts: Discount[];
+    shipping: number;
+  };
+}
+
+export function findRegion(table: ShippingRateTable, country: string): ShippingRegion | undefined {
+  const code = country.toUpperCase();
+  return (
+    table.regions.find((region) => region.countries.includes(code)) ??
+    table.regions.find((region) => region.countries.includes("*"))
+  );
+}
+
+export function shipmentWeight(table: ShippingRateTable, lines: readonly PricedLine[]): number {
+  const pairWeights: Partial<Record<string, number>> = table.pairWeightGrams;
+  return lines.reduce((sum, line) => sum + (pairWeights[line.shoeType] ?? 0) * line.quantity, 0);
+}
+
+// The methods a region offers, priced for this shipment
+export function shippingOptions(
+  table: ShippingRateTable,
+  region: ShippingRegion,
+  lines: readonly PricedLine[],
+  merchandiseTotal: number,
+): ShippingOption[] {
+  const weight = shipmentWeight(table, lines);
+
+  return shippingMethodIds.flatMap((method) => {
+    const rate = region.methods[method];
+    if (!rate) return [];
+
+    // Tiers are listed lightest first; anything heavier pays the last one
+    const tier =
+      rate.tiers.find((t) => t.upToGrams === undefined || weight <= t.upToGrams) ??
+      rate.tiers[rate.tiers.length - 1];
+    const free = rate.freeOver !== undefined && merchandiseTotal >= rate.freeOver;
+    return [{
+      method,
+      label: shippingMethods[method].label,
+      delivery: rate.delivery,
+      price: free ? 0 : tier.price,
+    }];
+  });
+}
+
+// An amount with the region's tax added, rounded to whole dollars
+export function withTax(region: ShippingRegion, amount: number): number {
+  return amount + Math.round(amount * region.tax.rate);
+}
+
+// A merchandise amount as a customer in this region sees it: tax-inclusive
+// regions show prices with tax in
+export function shownPrice(region: ShippingRegion | undefined, amount: number): number {
+  return region?.tax.inclusive ? withTax(region, amount) : amount;
+}
+
+// Prices a shipment to a country, or explains why it can't be sent there
+export function estimateOrder(
+  table: ShippingRateTable,
+  input: {
+    country: string;
+    method: ShippingMethod;
+    lines: readonly PricedLine[];
+    promotion?: AppliedPromotion | null;
+  },
+): { estimate: OrderEstimate; error?: undefined } | { estimate?: undefined; error: string } {
+  const region = findRegion(table, input.country);
+  if (!region) {
+    return { error: `We don't ship to ${input.country.toUpperCase()} yet` };
+  }
+
+  const totals = priceCart(input.lines, input.promotion);
+  const option = shippingOptions(table, region, input.lines, totals.total).find((o) => o.method === input.method);
+  if (!option) {
+    return { error: `${shippingMethods[input.method].label} shipping isn't available to ${region.name}` };
+  }
+
+  // Tax is worked out per line, discount and shipping charge, so the
+  // tax-inclusive amounts shown for each always add up to the total
+  const added = (amount: number) => withTax(region, amount) - amount;
+  const lineTax = input.lines.reduce((sum, line) => sum + added(line.unitPrice * line.quantity), 0);
+  const discountTax = totals.discounts.map((discount) => added(discount.amount));
+  const shippingTax = region.tax.onShipping ? added(option.price) : 0;
+  const tax = lineTax - discountTax.reduce((sum, amount) => sum + amount, 0) + shippingTax;
+  const inclusive = region.tax.inclusive;
+
+  return {
+    estimate: {
+      region: region.id,
+      subtotal: totals.subtotal,
+      discounts: totals.discounts,
+      shipping: option.price,
+      tax,
+      taxLabel: region.tax.label,
+      taxInclusive: inclusive,
+      total: totals.total + option.price + tax,
+      shown: {
+        subtotal: totals.subtotal + (inclusive ? lineTax : 0),
+        discounts: totals.discounts.map((discount, index) => ({
+          ...discount,
+          amount: discount.amount + (inclusive ? discountTax[index] : 0),
+        })),
+        shipping: option.price + (inclusive ? shippingTax : 0),
+      },
+    },
+  };
+}
@@ -0,0 +1,90 @@
+// Shoe sizes and widths. A size is always stored as the US size ("9.5");
+// EU, UK and foot length are looked up in SIZE_CHART for display.
+
+export const usSizes = [
+  "6", "6.5", "7", "7.5", "8", "8.5", "9", "9.5",
+  "10", "10.5", "11", "11.5", "12", "12.5", "13",
+] as const;
+export type UsSize = (typeof usSizes)[number];
+
+export const sizeSystems = ["US", "EU", "UK", "CM"] as const;
+export type SizeSystem = (typeof sizeSystems)[number];
+
+export interface SizeConversion {
+  eu: string;
+  uk: string;
+  cm: number; // foot length
+}
+
+export const SIZE_CHART: Record<UsSize, SizeConversion> = {
+  "6": { eu: "38.5", uk: "5.5", cm: 24 },
+  "6.5": { eu: "39", uk: "6", cm: 24.5 },
+  "7": { eu: "40", uk: "6", cm: 25 },
+  "7.5": { eu: "40.5", uk: "6.5", cm: 25.5 },
+  "8": { eu: "41", uk: "7", cm: 26 },
+  "8.5": { eu: "42", uk: "7.5", cm: 26.5 },
+  "9": { eu: "42.5", uk: "8", cm: 27 },
+  "9.5": { eu: "43", uk: "8.5", cm: 27.5 },
+  "10": { eu: "44", uk: "9", cm: 28 },
+  "10.5": { eu: "44.5", uk: "9.5", cm: 28.5 },
+  "11": { eu: "45", uk: "10", cm: 29 },
+  "11.5": { eu: "45.5", uk: "10.5", cm: 29.5 },
+  "12": { eu: "46", uk: "11", cm: 30 },
+  "12.5": { eu: "47", uk: "11.5", cm: 30.5 },
+  "13": { eu: "47.5", uk: "12", cm: 31 },
+};
+
+export const shoeWidths = ["narrow", "standard", "wide", "extra-wide"] as const;
+export type ShoeWidth = (typeof shoeWidths)[number];
+
+export const shoeWidthLabels: Record<ShoeWidth, string> = {
+  narrow: "Narrow (B)",
+  standard: "Standard (D)",
+  wide: "Wide (2E)",
+  "extra-wide": "Extra Wide (4E)",
+};
+
+export const DEFAULT_WIDTH: ShoeWidth = "standard";
+
+export function isUsSize(value: string): value is UsSize {
+  return (usSizes as readonly string[]).includes(value);
+}
+
+export function convertSize(size: UsSize, system: SizeSystem): string {
+  switch (system) {
+    case "US":
+      return size;
+    case "EU":
+      return SIZE_CHART[size].eu;
+    case "UK":
+      return SIZE_CHART[size].uk;
+    case "CM":
+      return SIZE_CHART[size].cm.toFixed(1);
+  }
+}
+
+// "US 9.5 · EU 43 · Wide (2E)"; legacy free-form sizes are shown as stored
+export function formatSize(size: string | null | undefined, width?: string | null): string {
+  if (!size) return "";
+
+  const parts = isUsSize(size) ? [`US ${size}`, `EU ${SIZE_CHART[size].eu}`] : [`Size ${size}`];
+  if (width && width !== DEFAULT_WIDTH && width in shoeWidthLabels) {
+    parts.push(shoeWidthLabels[width as ShoeWidth]);
+  }
+  return parts.join(" · ");
+}
+
+// Why a product can't be made in this size and width, or undefined if it can
+export function sizeUnavailableReason(
+  product: { name: string; sizes: readonly string[]; widths: readonly string[] },
+  size: string,
+  width: string,
+): string | undefined {
+  if (!product.sizes.includes(size)) {
+    return `${product.name} is not made in US ${size}`;
+  }
+  if (!product.widths.includes(width)) {
+    return `${product.name} is not made in ${shoeWidthLabels[width as ShoeWidth] ?? width} width`;
+  }
+  return undefined;
+}
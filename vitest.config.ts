@@ -0,0 +1,21 @@
+import { defineConfig } from "vitest/config";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Separate from vite.config.ts, whose root is the client
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "client", "src"),
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts", "client/src/**/*.test.ts"],
+    // Route tests use the shared storage; never point it at a real database
+    env: { STORAGE_DRIVER: "memory" },
+  },
+});